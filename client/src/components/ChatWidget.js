@@ -3,6 +3,19 @@ import React, { useState, useEffect, useRef } from 'react'
 // Import Font Awesome icons for the chat interface
 import { FaRobot, FaPaperPlane, FaTimes, FaCommentDots } from 'react-icons/fa'
 
+// localStorage key of the current conversation's thread ID, so a reload picks the conversation back up
+const THREAD_ID_KEY = 'easymartThreadId'
+// localStorage key of the anonymous session token, so a reload keeps the same session (and its carts and threads)
+const SESSION_TOKEN_KEY = 'easymartSessionToken'
+
+// Format a product card's price in its currency (plain number when the catalog has no currency)
+const formatPrice = (price, currency) => {
+  if (price === null || price === undefined) return ''
+  return currency
+    ? new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(price)
+    : price.toFixed(2)
+}
+
 // Main chat widget component
 const ChatWidget = () => {
   // State to track if chat window is open or closed
@@ -11,12 +24,14 @@ const ChatWidget = () => {
   const [messages, setMessages] = useState([])
   // State to track current input field value
   const [inputValue, setInputValue] = useState('')
-  // State to store conversation thread ID (null for new conversations)
-  const [threadId, setThreadId] = useState(null)
+  // State to store conversation thread ID (null for new conversations, restored from an earlier visit)
+  const [threadId, setThreadId] = useState(() => localStorage.getItem(THREAD_ID_KEY))
   // State to track if AI is processing a response
   const [isLoading, setIsLoading] = useState(false)
   // Ref to reference the bottom of messages container for auto-scrolling
   const messagesEndRef = useRef(null)
+  // Ref to store the anonymous session token that owns this widget's conversations (reused from an earlier visit)
+  const sessionTokenRef = useRef(localStorage.getItem(SESSION_TOKEN_KEY))
 
   // Effect hook: Show initial greeting when chat is first opened
   useEffect(() => {
@@ -34,6 +49,34 @@ const ChatWidget = () => {
     }
   }, [isOpen, messages.length]) // Dependencies: re-run when isOpen or message count changes
 
+  // Effect hook: Load the stored conversation's transcript once, when the widget mounts
+  useEffect(() => {
+    if (!threadId) return
+    const loadTranscript = async () => {
+      try {
+        const response = await fetchAsSession(`http://localhost:8000/chat/${threadId}/messages`)
+        // The conversation is gone (deleted, or owned by a session we no longer have), so start a new one
+        if (response.status === 404 || response.status === 403) {
+          localStorage.removeItem(THREAD_ID_KEY)
+          setThreadId(null)
+          return
+        }
+        if (!response.ok) {
+          throw new Error(`HTTP error! status: ${response.status}`)
+        }
+        const data = await response.json()
+        // Show only what was said; tool calls and results stay hidden like in the live chat
+        const transcript = data.messages
+          .filter(message => message.role !== 'tool' && message.content)
+          .map(message => ({ text: message.content, isAgent: message.role === 'assistant' }))
+        if (transcript.length > 0) setMessages(transcript)
+      } catch (error) {
+        console.error('Error loading conversation:', error)
+      }
+    }
+    loadTranscript()
+  }, []) // eslint-disable-line react-hooks/exhaustive-deps -- only the thread stored at mount
+
   // Effect hook: Auto-scroll to bottom when new messages are added
   useEffect(() => {
     // Scroll the messages container to bottom smoothly
@@ -55,16 +98,45 @@ const ChatWidget = () => {
   // Log messages to console for debugging purposes
   console.log(messages)
   
-  // Function to send user message and get AI response
-  const handleSendMessage = async (e) => {
-    // Prevent default form submission behavior (page refresh)
-    e.preventDefault()
+  // Function to get (or start) the anonymous session the server ties our conversation to
+  const getSessionToken = async () => {
+    if (!sessionTokenRef.current) {
+      const response = await fetch('http://localhost:8000/session', { method: 'POST' })
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`)
+      }
+      const data = await response.json()
+      sessionTokenRef.current = data.token
+      localStorage.setItem(SESSION_TOKEN_KEY, data.token)
+    }
+    return sessionTokenRef.current
+  }
+
+  // Function to call the API as our session; a 401 means the stored token is no longer valid, so start a new
+  // session and try once more
+  const fetchAsSession = async (url, options = {}) => {
+    const send = async () => fetch(url, {
+      ...options,
+      headers: {
+        ...options.headers,
+        'Authorization': `Bearer ${await getSessionToken()}`, // Identify our session
+      },
+    })
+    const response = await send()
+    if (response.status !== 401) return response
+    sessionTokenRef.current = null
+    localStorage.removeItem(SESSION_TOKEN_KEY)
+    return send()
+  }
+
+  // Function to send a user message (typed or a suggested reply) and get AI response
+  const sendMessage = async (text) => {
     // Log user input for debugging
-    console.log(inputValue)
+    console.log(text)
 
     // Create message object for user's input
     const message = {
-      text: inputValue,  // User's typed message
+      text: text,        // User's typed message
       isAgent: false,    // Flag indicating this is from user, not AI
     }
 
@@ -79,14 +151,14 @@ const ChatWidget = () => {
     const endpoint = threadId ? `http://localhost:8000/chat/${threadId}` : 'http://localhost:8000/chat'
 
     try {
-      // Make HTTP POST request to backend API
-      const response = await fetch(endpoint, {
+      // Make HTTP POST request to backend API, with the session token proving this widget owns the conversation
+      const response = await fetchAsSession(endpoint, {
         method: 'POST', // HTTP method
         headers: {
           'Content-Type': 'application/json', // Tell server we're sending JSON
         },
         body: JSON.stringify({
-          message: inputValue // Send user's message in request body
+          message: text // Send user's message in request body
         }),
       })
 
@@ -105,13 +177,19 @@ const ChatWidget = () => {
       const agentResponse = {
         text: data.response,    // AI's response text
         isAgent: true,          // Flag indicating this is from AI agent
-        threadId: data.threadId // Thread ID for conversation continuity
+        threadId: data.threadId, // Thread ID for conversation continuity
+        products: data.products ?? [],                 // Product cards for the items the agent found
+        actions: data.actions ?? [],                   // Add-to-cart / view-product buttons for those cards
+        suggestedReplies: data.suggestedReplies ?? [], // Quick replies shown under the latest answer
       }
       
       // Add AI response to messages array
       setMessages(prevMessages => [...prevMessages, agentResponse])
-      // Update thread ID for future messages in this conversation
-      setThreadId(data.threadId)
+      // Update thread ID for future messages in this conversation (only new conversations return one)
+      if (data.threadId) {
+        setThreadId(data.threadId)
+        localStorage.setItem(THREAD_ID_KEY, data.threadId)
+      }
       // Hide loading indicator
       setIsLoading(false)
       // Log updated messages for debugging
@@ -131,6 +209,45 @@ const ChatWidget = () => {
     }
   }
 
+  // Function to handle the typed message form
+  const handleSendMessage = (e) => {
+    // Prevent default form submission behavior (page refresh)
+    e.preventDefault()
+    sendMessage(inputValue)
+  }
+
+  // Function to run a product card's action: add the product to this conversation's cart, or open its page
+  const handleAction = async (action, product) => {
+    if (action.type === 'view_product') {
+      window.open(action.url, '_blank', 'noopener,noreferrer')
+      return
+    }
+    try {
+      const response = await fetchAsSession(`http://localhost:8000/cart/${threadId}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ productId: action.sku, quantity: 1 }),
+      })
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`)
+      }
+      setMessages(prevMessages => [...prevMessages, { text: `Added ${product.title} to your cart.`, isAgent: true }])
+    } catch (error) {
+      console.error('Error:', error)
+      setMessages(prevMessages => [...prevMessages, {
+        text: `Sorry, I couldn't add ${product.title} to your cart. Please try again.`,
+        isAgent: true,
+        isError: true
+      }])
+    }
+  }
+
+  // Quick replies are only offered under the latest answer
+  const lastMessage = messages[messages.length - 1]
+  const suggestedReplies = !isLoading && lastMessage?.isAgent ? lastMessage.suggestedReplies ?? [] : []
+
   // Render the chat widget UI
   return (
     // Main container with conditional CSS class based on open/closed state
@@ -163,9 +280,45 @@ const ChatWidget = () => {
                   {/* Display message text */}
                   {message.text}
                 </div>
+                {/* Product cards for the items the agent found, with their actions */}
+                {message.products?.length > 0 && (
+                  <div className="product-cards">
+                    {message.products.map(product => (
+                      <div key={product.sku} className="product-card">
+                        {product.image_url && <img src={product.image_url} alt={product.title} className="product-card-image" />}
+                        <div className="product-card-title">{product.title}</div>
+                        <div className="product-card-price">
+                          {formatPrice(product.price, product.currency)}
+                          {product.compare_at_price !== undefined && (
+                            <span className="product-card-compare-at">{formatPrice(product.compare_at_price, product.currency)}</span>
+                          )}
+                        </div>
+                        {product.in_stock === false && <div className="product-card-stock">Out of stock</div>}
+                        <div className="product-card-actions">
+                          {message.actions?.filter(action => action.sku === product.sku).map(action => (
+                            <button key={action.type} className="product-card-action" onClick={() => handleAction(action, product)}>
+                              {action.label}
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
               </div>
             ))}
 
+            {/* Quick replies under the latest answer */}
+            {suggestedReplies.length > 0 && (
+              <div className="suggested-replies">
+                {suggestedReplies.map(reply => (
+                  <button key={reply} className="suggested-reply" onClick={() => sendMessage(reply)}>
+                    {reply}
+                  </button>
+                ))}
+              </div>
+            )}
+
             {/* Loading indicator while waiting for AI response */}
             {isLoading && (
               <div className="message message-bot message-loading">
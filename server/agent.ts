@@ -1,202 +1,397 @@
 // Import required modules from LangChain ecosystem
-import { GoogleGenerativeAIEmbeddings } from "@langchain/google-genai" // For creating vector embeddings from text using Gemini
-import { ChatGoogleGenerativeAI } from "@langchain/google-genai" // Google's Gemini AI model
 import { AIMessage, BaseMessage, HumanMessage } from "@langchain/core/messages" // Message types for conversations
 import {
   ChatPromptTemplate,      // For creating structured prompts with placeholders
   MessagesPlaceholder,     // Placeholder for dynamic message history
 } from "@langchain/core/prompts"
 import { StateGraph } from "@langchain/langgraph"              // State-based workflow orchestration
+import { RunnableConfig } from "@langchain/core/runnables"     // Per-run configuration (thread and session ids)
 import { Annotation } from "@langchain/langgraph"              // Type annotations for state management
+import { messagesStateReducer } from "@langchain/langgraph"    // Appends messages, replacing or removing them by id
 import { tool } from "@langchain/core/tools"                   // For creating custom tools/functions
 import { ToolNode } from "@langchain/langgraph/prebuilt"       // Pre-built node for executing tools
 import { MongoDBSaver } from "@langchain/langgraph-checkpoint-mongodb" // For saving conversation state
-import { MongoDBAtlasVectorSearch } from "@langchain/mongodb"   // Vector search integration with MongoDB
+import { BaseCheckpointSaver } from "@langchain/langgraph"    // Base class for conversation state persistence
+import { BaseChatModel } from "@langchain/core/language_models/chat_models" // Base class for chat models
+import { EmbeddingsInterface } from "@langchain/core/embeddings" // Common interface for embedding models
 import { MongoClient } from "mongodb"                          // MongoDB database client
 import { z } from "zod"                                        // Schema validation library
+import { ProviderConfig, createChatModel, createEmbeddings, loadProviderConfig, verifyEmbeddingDimensions } from "./providers" // Configured model providers
+import { MongoProductCatalog, ProductCatalog } from "./catalog"   // Product search (Atlas or in-memory)
+import { ActiveEmbeddingResolver, EmbeddingVersionStore, initialVersion } from "./embedding-versions" // Reindexed vector fields
+import { ProductFilters, hasFilters } from "./product-filters"   // Structured search filters
+import { HybridSearchOptions, hybridSearch, loadHybridSearchOptions } from "./hybrid-search" // Vector + full-text retrieval
+import { ProductResult, ProductResultOptions, loadProductResultOptions, projectProductResults } from "./product-results" // Compact results
+import { CartService, MongoCartStore } from "./cart"           // Shopping carts per thread
+import { createCartTools } from "./cart-tools"                  // add_to_cart, remove_from_cart, ...
+import { MongoOrderStore, OrderService } from "./orders"       // Order status and shipment tracking
+import { createOrderTools } from "./order-tools"                // order_lookup
+import { MongoPreferenceStore, PreferenceService, describePreferences, preferenceFilters, sessionIdFrom } from "./preferences" // Shopper preferences across threads
+import { createPreferenceTools } from "./preference-tools"      // remember_preferences
+import { ProductComparison } from "./comparison"                // Side-by-side comparison tables
+import { createComparisonTools } from "./comparison-tools"      // compare_products
+import { ChatAction, ChatProduct, chatActions, chatProducts, suggestedReplies } from "./chat-response" // Product cards and quick replies
+import { MongoReviewStore, ReviewService } from "./reviews"      // Product reviews with per-review embeddings
+import { createReviewTools } from "./review-tools"              // product_reviews
+import { MongoThreadStore, ThreadStore } from "./conversations" // Thread listing and deletion
+import { ApiError } from "./errors"                            // Typed errors reported to API clients
+import { contentToText } from "./message-content"              // Plain text of message contents
+import { MongoUsageStore, UsageBudget, loadBudgetOptions, providerBusyMessage } from "./budget" // Daily token/cost budget for the chat model
+import { MongoRateLimitStore, RateLimitStore } from "./rate-limit" // Request counters shared across instances
+import {
+  ConversationMemoryOptions,
+  clampSummary,
+  estimateHistoryTokens,
+  loadConversationMemoryOptions,
+  modelHistory,
+  summaryPrompt,
+} from "./conversation-memory"                                  // Summarizes and trims long conversations
 import "dotenv/config"                                         // Load environment variables from .env file
 
-// Utility function to handle API rate limits with exponential backoff
-async function retryWithBackoff<T>(
-  fn: () => Promise<T>,    // The function to retry (generic type T for return value)
-  maxRetries = 3           // Maximum number of retry attempts (default 3)
-): Promise<T> {
-  // Loop through retry attempts
-  for (let attempt = 1; attempt <= maxRetries; attempt++) {
-    try {
-      return await fn()    // Try to execute the function
-    } catch (error: any) {
-      // Check if it's a rate limit error (HTTP 429) and we have retries left
-      if (error.status === 429 && attempt < maxRetries) {
-        // Calculate exponential backoff delay: 2^attempt seconds, max 30 seconds
-        const delay = Math.min(1000 * Math.pow(2, attempt), 30000)
-        console.log(`Rate limit hit. Retrying in ${delay/1000} seconds...`)
-        // Wait for the calculated delay before retrying
-        await new Promise(resolve => setTimeout(resolve, delay))
-        continue // Go to next iteration (retry)
-      }
-      throw error // If not rate limit or out of retries, throw the error
-    }
+// Events emitted while a streamed agent run is in progress
+export type AgentStreamEvent =
+  | { type: "token"; content: string }                         // Text delta from the agent node
+  | { type: "tool_start"; name: string; input: any }           // A tool (e.g. item_lookup) started running
+  | { type: "tool_end"; name: string; count?: number; searchType?: string } // A tool finished
+  | ({ type: "done"; threadId: string; response: string } & AgentAttachments) // Final answer for the thread
+
+// Structured data from the turn's tool calls that clients render themselves, next to the text response
+export interface AgentAttachments {
+  products?: ChatProduct[]       // Cards for the products item_lookup found this turn
+  actions?: ChatAction[]         // Add-to-cart and view-product actions for those cards
+  suggestedReplies?: string[]    // Quick replies the customer can send next
+  comparison?: ProductComparison // Latest compare_products table of the turn
+}
+
+// Extra system prompt guidance when the cart tools are available
+const CART_INSTRUCTIONS = `
+You can also manage the customer's cart with add_to_cart, remove_from_cart, update_quantity and view_cart:
+- Use the product id (sku or item_id) from item_lookup results; look the product up first if you don't have it
+- For a product with variants, add the sku of the variant the customer chose
+- Only change the cart when the customer asks you to, and confirm what changed
+`
+
+// Extra system prompt guidance when the order tool is available
+const ORDER_INSTRUCTIONS = `
+You can look up the customer's orders with order_lookup:
+- Ask for the order number and the email address or shipping postal code before looking an order up
+- Summarize the status, the items and the latest shipment event for each parcel; never guess a delivery date
+`
+
+// Extra system prompt guidance when the preference tool is available
+const PREFERENCE_INSTRUCTIONS = `
+You can remember the customer's shopping preferences for future conversations with remember_preferences:
+- Record budget, styles, materials, colours, rooms, available space and brands when the customer states them; never guess
+- item_lookup applies a remembered budget and in-stock preference by default; set ignorePreferences when the customer asks for something outside them
+`
+
+// Extra system prompt guidance when the review tool is available
+const REVIEW_INSTRUCTIONS = `
+You can read what customers say about a product with product_reviews:
+- Use it for questions about quality, comfort, durability or reviews, passing the customer's question so the most relevant reviews come back
+- Give the average rating and number of reviews, and quote or paraphrase the snippets; never invent opinions
+`
+
+// Extra system prompt section with what is remembered about the shopper
+const REMEMBERED_PREFERENCES = `
+What the customer told you in earlier conversations (use it, but let anything they say now take precedence):
+{preferences}
+`
+
+// Extra system prompt section once older turns have been summarized
+const SUMMARY_INSTRUCTIONS = `
+Summary of the earlier conversation (older messages are no longer shown; look products up again if you need their details):
+{summary}
+`
+
+// Define the state structure for the agent workflow
+const GraphState = Annotation.Root({
+  messages: Annotation<BaseMessage[]>({
+    // Reducer function: append new messages; a message with an existing id replaces it
+    reducer: messagesStateReducer,
+    default: () => [],
+  }),
+  // Running summary of the older turns, which are no longer sent to the model (see conversation-memory.ts)
+  summary: Annotation<string>({
+    reducer: (_, y) => y,
+    default: () => "",
+  }),
+  // Id of the last message folded into the summary; the model sees only the messages after it
+  summarizedThrough: Annotation<string>({
+    reducer: (_, y) => y,
+    default: () => "",
+  }),
+})
+
+// External services the agent depends on (injectable so tests can pass fakes)
+export interface AgentDependencies {
+  model: BaseChatModel              // Chat model; must support bindTools
+  embeddings: EmbeddingsInterface   // Embedding model used for vector search queries (of the active embedding version)
+  catalog: ProductCatalog           // Searches the inventory 'items' collection
+  checkpointer: BaseCheckpointSaver // Persists conversation state per thread
+  threads: ThreadStore              // Thread ownership, listing and deletion
+  cart?: CartService                // Enables the cart tools when provided
+  orders?: OrderService             // Enables the order_lookup tool when provided
+  preferences?: PreferenceService   // Enables remember_preferences and per-shopper search defaults when provided
+  reviews?: ReviewService           // Enables product_reviews (and store-backed ratings in compare_products) when provided
+  budget?: UsageBudget              // Daily model budget; provider rate limits get a friendly reply when set
+  rateLimitStore?: RateLimitStore   // Request counters for the per-IP/per-session rate limiter
+  searchOptions?: HybridSearchOptions // Retrieval tuning; defaults come from the environment
+  resultOptions?: ProductResultOptions // Fields and token budget for results sent to the model
+  memoryOptions?: ConversationMemoryOptions // When to summarize the conversation and how many turns stay verbatim
+}
+
+// Build the production dependencies: configured chat model and embeddings, Atlas collections, MongoDB checkpointer
+export async function createDefaultAgentDependencies(
+  client: MongoClient,
+  config: ProviderConfig = loadProviderConfig() // Provider selection (see providers.ts)
+): Promise<AgentDependencies> {
+  const dbName = "inventory_database" // Name of the MongoDB database
+  // Vector search follows the embedding version made active by the reindex command ('search_config');
+  // the configured embeddings serve version 1 until the first reindex
+  const versions = new ActiveEmbeddingResolver(
+    new EmbeddingVersionStore(client.db(dbName).collection("search_config")),
+    { version: initialVersion(config), embeddings: createEmbeddings(config) }
+  )
+  const { version, embeddings } = await versions.resolve()
+  // Make sure the query embeddings fit the vector index being searched
+  await verifyEmbeddingDimensions(embeddings, version.dimensions)
+  console.log(`Searching embedding version ${version.version} (${version.index}, ${version.provider}/${version.model})`)
+  const catalog = new MongoProductCatalog(client.db(dbName).collection("items"), embeddings, versions) // Search the 'items' collection
+  // Carts live in the 'carts' collection, one document per thread
+  const cartStore = new MongoCartStore(client.db(dbName).collection("carts"))
+  await cartStore.ensureIndexes()
+  // Orders live in the 'orders' collection (see seed-orders.ts)
+  const orderStore = new MongoOrderStore(client.db(dbName).collection("orders"))
+  await orderStore.ensureIndexes()
+  // Shopper preference profiles live in 'shopper_preferences', one document per session
+  const preferenceStore = new MongoPreferenceStore(client.db(dbName).collection("shopper_preferences"))
+  await preferenceStore.ensureIndexes()
+  // Reviews live in 'product_reviews' (see seed-reviews.ts); their vectors come from the configured embeddings,
+  // independent of the product embedding version
+  const reviewStore = new MongoReviewStore(client.db(dbName).collection("product_reviews"))
+  await reviewStore.ensureIndexes()
+  // Thread ownership records live in 'threads', next to the checkpointer's collections
+  const threadStore = new MongoThreadStore(client.db(dbName))
+  await threadStore.ensureIndexes()
+  // Daily model usage lives in 'model_usage'; rate limit windows in 'rate_limits' (shared by all instances)
+  const usageStore = new MongoUsageStore(client.db(dbName).collection("model_usage"))
+  await usageStore.ensureIndexes()
+  const rateLimitStore = new MongoRateLimitStore(client.db(dbName).collection("rate_limits"))
+  await rateLimitStore.ensureIndexes()
+  return {
+    model: createChatModel(config, {
+      temperature: 0,                    // Deterministic responses (no randomness)
+      maxRetries: 0,                     // Disable built-in retries (we handle our own)
+    }),
+    embeddings,
+    catalog,
+    checkpointer: new MongoDBSaver({ client, dbName }),
+    cart: new CartService(cartStore, catalog),
+    orders: new OrderService(orderStore, catalog),
+    preferences: new PreferenceService(preferenceStore),
+    reviews: new ReviewService(reviewStore, catalog, createEmbeddings(config)),
+    threads: threadStore,
+    budget: new UsageBudget(usageStore, loadBudgetOptions()),
+    rateLimitStore,
   }
-  throw new Error("Max retries exceeded") // This should never be reached
 }
 
-// Main function that creates and runs the AI agent
-export async function callAgent(client: MongoClient, query: string, thread_id: string) {
-  try {
-    // Database configuration
-    const dbName = "inventory_database"        // Name of the MongoDB database
-    const db = client.db(dbName)              // Get database instance
-    const collection = db.collection("items") // Get the 'items' collection
-
-    // Define the state structure for the agent workflow
-    const GraphState = Annotation.Root({
-      messages: Annotation<BaseMessage[]>({
-        // Reducer function: how to combine old and new messages
-        reducer: (x, y) => x.concat(y), // Simply concatenate old messages (x) with new messages (y)
-      }),
-    })
+// Builds the LangGraph workflow once and compiles it; the result is shared by every thread
+export function createAgent({
+  model,
+  catalog,
+  checkpointer,
+  cart,
+  orders,
+  preferences,
+  reviews,
+  budget,
+  searchOptions = loadHybridSearchOptions(),
+  resultOptions = loadProductResultOptions(),
+  memoryOptions = loadConversationMemoryOptions(),
+}: AgentDependencies) {
+  // Create a custom tool for searching furniture inventory
+  const itemLookupTool = tool(
+    // The actual function that will be executed when tool is called
+    async ({ query, n = 10, ignorePreferences, ...filterArgs }, config) => {
+      try {
+        // The shopper's remembered budget and in-stock preference, unless the model opted out
+        const sessionId = sessionIdFrom(config)
+        const defaults = preferences && sessionId && !ignorePreferences ? preferenceFilters(await preferences.get(sessionId)) : {}
+        // Structured filters supplied alongside the query (price range, vendor, tags, ...) take precedence
+        const stated = Object.fromEntries(Object.entries(filterArgs).filter(([, value]) => value !== undefined))
+        const filters: ProductFilters = { ...defaults, ...stated }
+        console.log("Item lookup tool called with query:", query, hasFilters(filters) ? filters : "")
+
+        // Check if database has any data at all
+        const totalCount = await catalog.count()
+        console.log(`Total documents in collection: ${totalCount}`)
+
+        // Early return if database is empty
+        if (totalCount === 0) {
+          console.log("Collection is empty")
+          return JSON.stringify({ 
+            error: "No items found in inventory", 
+            message: "The inventory database appears to be empty",
+            count: 0 
+          })
+        }
 
-    // Create a custom tool for searching furniture inventory
-    const itemLookupTool = tool(
-      // The actual function that will be executed when tool is called
-      async ({ query, n = 10 }) => {
-        try {
-          console.log("Item lookup tool called with query:", query)
-
-          // Check if database has any data at all
-          const totalCount = await collection.countDocuments()
-          console.log(`Total documents in collection: ${totalCount}`)
-
-          // Early return if database is empty
-          if (totalCount === 0) {
-            console.log("Collection is empty")
-            return JSON.stringify({ 
-              error: "No items found in inventory", 
-              message: "The inventory database appears to be empty",
-              count: 0 
-            })
-          }
-
-          // Get sample documents for debugging purposes
-          const sampleDocs = await collection.find({}).limit(3).toArray()
-          console.log("Sample documents:", sampleDocs)
-
-          // Configuration for MongoDB Atlas Vector Search
-          const dbConfig = {
-            collection: collection,           // MongoDB collection to search
-            indexName: "vector_index",       // Name of the vector search index
-            textKey: "embedding_text",       // Field containing the text used for embeddings
-            embeddingKey: "embedding",       // Field containing the vector embeddings
-          }
-
-          // Create vector store instance for semantic search using Google Gemini embeddings
-          const vectorStore = new MongoDBAtlasVectorSearch(
-            new GoogleGenerativeAIEmbeddings({
-              apiKey: process.env.GOOGLE_API_KEY, // Google API key from environment
-              model: "text-embedding-004",         // Gemini embedding model
-            }),
-            dbConfig
-          )
-
-          console.log("Performing vector search...")
-          // Perform semantic search using vector embeddings
-          const result = await vectorStore.similaritySearchWithScore(query, n)
-          console.log(`Vector search returned ${result.length} results`)
+        console.log(`Performing ${searchOptions.mode} search...`)
+        // Exact SKU/handle match, else vector search (fused with full-text search in hybrid mode)
+        const { searchType, results } = await hybridSearch(catalog, query, n, filters, searchOptions)
+        console.log(`${searchType} search returned ${results.length} results`)
+        
+        // If the ranked search returns no results, fall back to text search
+        if (results.length === 0) {
+          console.log("Ranked search returned no results, trying text search...")
+          // Case-insensitive keyword search on name, description, categories and embedding text
+          const textResults = await catalog.textSearch(query, n, filters)
           
-          // If vector search returns no results, fall back to text search
-          if (result.length === 0) {
-            console.log("Vector search returned no results, trying text search...")
-            // MongoDB text search using regular expressions
-            const textResults = await collection.find({
-              $or: [ // OR condition - match any of these fields
-                { item_name: { $regex: query, $options: 'i' } },        // Case-insensitive search in item name
-                { item_description: { $regex: query, $options: 'i' } }, // Case-insensitive search in description
-                { categories: { $regex: query, $options: 'i' } },       // Case-insensitive search in categories
-                { embedding_text: { $regex: query, $options: 'i' } }    // Case-insensitive search in embedding text
-              ]
-            }).limit(n).toArray() // Limit results and convert to array
-            
-            console.log(`Text search returned ${textResults.length} results`)
-            // Return text search results as JSON string
-            return JSON.stringify({
-              results: textResults,
-              searchType: "text",    // Indicate this was a text search
-              query: query,
-              count: textResults.length
-            })
-          }
-
-          // Return vector search results as JSON string
+          console.log(`Text search returned ${textResults.length} results`)
+          // Return compact text search results as JSON string
+          const projected = projectProductResults(textResults, resultOptions)
           return JSON.stringify({
-            results: result,
-            searchType: "vector",   // Indicate this was a vector search
+            results: projected.results,
+            searchType: "text",    // Indicate this was a text search
             query: query,
-            count: result.length
-          })
-          
-        } catch (error: any) {
-          // Log detailed error information for debugging
-          console.error("Error in item lookup:", error)
-          console.error("Error details:", {
-            message: error.message,
-            stack: error.stack,
-            name: error.name
-          })
-          
-          // Return error information as JSON string
-          return JSON.stringify({ 
-            error: "Failed to search inventory", 
-            details: error.message,
-            query: query
+            filters: filters,
+            ...(hasFilters(defaults) ? { preferenceFilters: defaults } : {}), // Defaults from remembered preferences
+            count: projected.results.length,
+            truncated: projected.truncated // True if results were dropped to fit the token budget
           })
         }
-      },
-      // Tool metadata and schema definition
-      {
-        name: "item_lookup",                                    // Tool name that the AI will reference
-        description: "Gathers furniture item details from the Inventory database", // Description for the AI
-        schema: z.object({                                      // Input validation schema
-          query: z.string().describe("The search query"),      // Required string parameter
-          n: z.number().optional().default(10)                 // Optional number parameter with default
-            .describe("Number of results to return"),
-        }),
+
+        // Return compact ranked search results as JSON string
+        const projected = projectProductResults(results, resultOptions)
+        return JSON.stringify({
+          results: projected.results,
+          searchType: searchType, // "exact", "hybrid" or "vector"
+          query: query,
+          filters: filters,
+          ...(hasFilters(defaults) ? { preferenceFilters: defaults } : {}), // Defaults from remembered preferences
+          count: projected.results.length,
+          truncated: projected.truncated // True if results were dropped to fit the token budget
+        })
+        
+      } catch (error: any) {
+        // Log detailed error information for debugging
+        console.error("Error in item lookup:", error)
+        console.error("Error details:", {
+          message: error.message,
+          stack: error.stack,
+          name: error.name
+        })
+        
+        // Return error information as JSON string
+        return JSON.stringify({ 
+          error: "Failed to search inventory", 
+          details: error.message,
+          query: query
+        })
       }
-    )
+    },
+    // Tool metadata and schema definition
+    {
+      name: "item_lookup",                                    // Tool name that the AI will reference
+      description: "Gathers furniture item details from the Inventory database. " + // Description for the AI
+        "Put price, brand, category and stock constraints in the filter fields rather than in the query.",
+      schema: z.object({                                      // Input validation schema
+        query: z.string().describe("The search query"),      // Required string parameter
+        n: z.number().optional().default(10)                 // Optional number parameter with default
+          .describe("Number of results to return"),
+        minPrice: z.number().optional()                      // Optional structured filters below
+          .describe("Only include items costing at least this much"),
+        maxPrice: z.number().optional()
+          .describe("Only include items costing at most this much (e.g. 500 for 'under $500')"),
+        vendor: z.string().optional()
+          .describe("Exact vendor or brand name"),
+        tags: z.array(z.string()).optional()
+          .describe("Only include items with at least one of these tags or categories"),
+        currency: z.string().optional()
+          .describe("Three-letter currency code, e.g. USD"),
+        inStock: z.boolean().optional()
+          .describe("Set to true to only include items that are in stock"),
+        ignorePreferences: z.boolean().optional()
+          .describe("Set to true to search outside the customer's remembered budget and in-stock preference"),
+      }),
+    }
+  )
 
-    // Array of all available tools (just one in this case)
-    const tools = [itemLookupTool]
-    // Create a tool execution node for the workflow
-    const toolNode = new ToolNode<typeof GraphState.State>(tools)
+  // Array of all available tools: item lookup and comparison, plus the cart, order, preference and review tools when
+  // their services are configured
+  const tools = [
+    itemLookupTool,
+    ...createComparisonTools(catalog, reviews),
+    ...(reviews ? createReviewTools(reviews) : []),
+    ...(cart ? createCartTools(cart) : []),
+    ...(orders ? createOrderTools(orders) : []),
+    ...(preferences ? createPreferenceTools(preferences) : []),
+  ]
+  // Create a tool execution node for the workflow
+  const toolNode = new ToolNode<typeof GraphState.State>(tools)
 
-    // Initialize the AI model (Google's Gemini)
-    const model = new ChatGoogleGenerativeAI({
-      model: "gemini-2.0-flash",         //  Use Gemini 2.0 Flash model
-      temperature: 0,                    // Deterministic responses (no randomness)
-      maxRetries: 0,                     // Disable built-in retries (we handle our own)
-      apiKey: process.env.GOOGLE_API_KEY, // Google API key from environment
-    }).bindTools(tools)                  // Bind our custom tools to the model
+  // Bind our custom tools to the AI model
+  if (!model.bindTools) {
+    throw new Error("The configured chat model does not support tool calling")
+  }
+  const modelWithTools = model.bindTools(tools)
 
-    // Decision function: determines next step in the workflow
-    function shouldContinue(state: typeof GraphState.State) {
-      const messages = state.messages                               // Get all messages
-      const lastMessage = messages[messages.length - 1] as AIMessage // Get the most recent message
+  // Decision function: determines next step in the workflow
+  function shouldContinue(state: typeof GraphState.State) {
+    const messages = state.messages                               // Get all messages
+    const lastMessage = messages[messages.length - 1] as AIMessage // Get the most recent message
 
-      // If the AI wants to use tools, go to tools node; otherwise end
-      if (lastMessage.tool_calls?.length) {
-        return "tools"  // Route to tool execution
+    // If the AI wants to use tools, go to tools node; otherwise end
+    if (lastMessage.tool_calls?.length) {
+      return "tools"  // Route to tool execution
+    }
+    return "__end__"  // End the workflow
+  }
+
+  // Keep the history sent to the model bounded: once it passes the token threshold, the older turns are folded into
+  // the running summary. Only the summary and where it ends are stored; the checkpoint keeps every message.
+  async function compactHistory(state: typeof GraphState.State) {
+    const { older, recent } = modelHistory(state.messages, state.summarizedThrough, memoryOptions.keepTurns)
+    if (older.length === 0 || memoryOptions.maxTokens <= 0) return {}
+    const tokens = estimateHistoryTokens([...older, ...recent], state.summary)
+    if (tokens <= memoryOptions.maxTokens) return {}
+    // Summarizing is a model call too; skip it while the budget or a provider rate limit blocks the model
+    if (await budget?.blockedReply()) return {}
+
+    try {
+      const result = await model.invoke(summaryPrompt(state.summary, older, memoryOptions))
+      await budget?.record(result.usage_metadata)
+      console.log(`Summarized ${older.length} older messages (about ${tokens} tokens of history)`)
+      return {
+        summary: clampSummary(contentToText(result.content), memoryOptions),
+        summarizedThrough: older[older.length - 1].id,
       }
-      return "__end__"  // End the workflow
+    } catch (error: any) {
+      // The turn can still be answered with the (trimmed) full history
+      console.error("Failed to summarize the conversation:", error.message)
+      return {}
+    }
+  }
+
+  // Function that calls the AI model, staying within the daily budget
+  async function callModel(state: typeof GraphState.State, config: RunnableConfig) {
+    // Over budget, or backing off after a provider rate limit: reply without calling the model
+    const blockedReply = await budget?.blockedReply()
+    if (blockedReply) {
+      return { messages: [new AIMessage(blockedReply)] }
     }
 
-    // Function that calls the AI model with retry logic
-    async function callModel(state: typeof GraphState.State) {
-      return retryWithBackoff(async () => { // Wrap in retry logic
-        // Create a structured prompt template
-        const prompt = ChatPromptTemplate.fromMessages([
-          [
-            "system", // System message defines the AI's role and behavior
-            `You are a helpful E-commerce Chatbot Agent for a furniture store. 
+    // What this shopper told us in earlier threads
+    const sessionId = sessionIdFrom(config)
+    const remembered = preferences && sessionId ? describePreferences(await preferences.get(sessionId)) : ""
+
+    // Create a structured prompt template
+    const prompt = ChatPromptTemplate.fromMessages([
+      [
+        "system", // System message defines the AI's role and behavior
+        `You are a helpful E-commerce Chatbot Agent for a furniture store. 
 
 IMPORTANT: You have access to an item_lookup tool that searches the furniture inventory database. ALWAYS use this tool when customers ask about furniture items, even if the tool returns errors or empty results.
 
@@ -204,46 +399,157 @@ When using the item_lookup tool:
 - If it returns results, provide helpful details about the furniture items
 - If it returns an error or no results, acknowledge this and offer to help in other ways
 - If the database appears to be empty, let the customer know that inventory might be being updated
+- If a result lists variants, say which options (colours, sizes, ...) are in stock and which are out of stock
 
+When the customer asks how products differ or which one to choose, call compare_products with their ids (look them up first if needed) and summarize the differences that matter; the customer is shown the full table
+${cart ? CART_INSTRUCTIONS : ""}${orders ? ORDER_INSTRUCTIONS : ""}${preferences ? PREFERENCE_INSTRUCTIONS : ""}${reviews ? REVIEW_INSTRUCTIONS : ""}${remembered ? REMEMBERED_PREFERENCES : ""}${state.summary ? SUMMARY_INSTRUCTIONS : ""}
 Current time: {time}`,
-          ],
-          new MessagesPlaceholder("messages"), // Placeholder for conversation history
-        ])
-
-        // Fill in the prompt template with actual values
-        const formattedPrompt = await prompt.formatMessages({
-          time: new Date().toISOString(), // Current timestamp
-          messages: state.messages,       // All previous messages
-        })
+      ],
+      new MessagesPlaceholder("messages"), // Placeholder for conversation history
+    ])
+
+    // The summary covers the turns up to `summarizedThrough`; older tool results are cut down to product references
+    const history = modelHistory(state.messages, state.summarizedThrough, memoryOptions.keepTurns)
 
-        // Call the AI model with the formatted prompt
-        const result = await model.invoke(formattedPrompt)
-        // Return new state with the AI's response added
-        return { messages: [result] }
-      })
+    // Fill in the prompt template with actual values
+    const formattedPrompt = await prompt.formatMessages({
+      time: new Date().toISOString(), // Current timestamp
+      ...(remembered ? { preferences: remembered } : {}), // Remembered shopper preferences
+      ...(state.summary ? { summary: state.summary } : {}), // Earlier turns, when they have been summarized
+      messages: [...history.older, ...history.recent], // Messages not yet summarized, older tool results trimmed
+    })
+
+    try {
+      // Call the AI model with the formatted prompt
+      const result = await modelWithTools.invoke(formattedPrompt)
+      // Count the tokens (and cost) this call used against today's budget
+      await budget?.record(result.usage_metadata)
+      // Return new state with the AI's response added
+      return { messages: [result] }
+    } catch (error: any) {
+      // Rate limited by the provider: pause model calls and tell the customer, rather than retrying into more 429s
+      if (error.status === 429 && budget) {
+        const retryAfter = retryAfterSeconds(error)
+        console.log(`Model provider rate limit hit; pausing model calls for ${retryAfter} seconds`)
+        budget.pause(retryAfter)
+        return { messages: [new AIMessage(providerBusyMessage(retryAfter))] }
+      }
+      throw error
     }
+  }
+
+  // Build the workflow graph
+  const workflow = new StateGraph(GraphState)
+    .addNode("summarize", compactHistory)           // Add history compaction node
+    .addNode("agent", callModel)                    // Add AI model node
+    .addNode("tools", toolNode)                     // Add tool execution node
+    .addEdge("__start__", "summarize")              // Start each turn by compacting the history
+    .addEdge("summarize", "agent")                  // Then let the agent answer
+    .addConditionalEdges("agent", shouldContinue)   // Agent decides: tools or end
+    .addEdge("tools", "agent")                      // After tools, go back to agent
+
+  // Compile the workflow with state saving
+  return workflow.compile({ checkpointer })
+}
+
+// A compiled agent graph, as returned by createAgent
+export type Agent = ReturnType<typeof createAgent>
+
+// Longest a single agent run may take (AGENT_TIMEOUT_MS, default one minute)
+function agentTimeoutMs(env: NodeJS.ProcessEnv = process.env): number {
+  return Number(env.AGENT_TIMEOUT_MS ?? 60000)
+}
+
+// Seconds to wait before retrying, from the provider's Retry-After header when it sent one
+function retryAfterSeconds(error: any): number {
+  const header = error.headers?.["retry-after"] ?? error.response?.headers?.get?.("retry-after")
+  const seconds = Number(header)
+  return Number.isFinite(seconds) && seconds > 0 ? Math.ceil(seconds) : 60
+}
+
+// Convert low-level errors into typed API errors with user-friendly messages
+function toAgentError(error: any, timedOut = false): ApiError {
+  if (error instanceof ApiError) { // Already typed
+    return error
+  } else if (timedOut) { // The run hit AGENT_TIMEOUT_MS
+    return new ApiError("AGENT_TIMEOUT", "The assistant took too long to respond. Please try again.")
+  } else if (error.status === 429) { // Rate limit error
+    return new ApiError(
+      "RATE_LIMITED",
+      "Service temporarily unavailable due to rate limits. Please try again in a minute.",
+      { retryAfter: retryAfterSeconds(error) }
+    )
+  } else if (error.status === 401 || error.status === 403) { // Authentication error
+    return new ApiError("UPSTREAM_AUTH", "Authentication failed. Please check your API configuration.")
+  } else if (typeof error.status === "number") { // Other error from the model provider
+    return new ApiError("UPSTREAM_ERROR", `Model provider error: ${error.message}`)
+  } else { // Generic error
+    return new ApiError("INTERNAL_ERROR", `Agent failed: ${error.message}`)
+  }
+}
+
+// Tool start events wrap the arguments as { input: "<json>" }; unwrap them when possible
+function toolStartInput(input: any): any {
+  if (typeof input?.input !== "string") return input
+  try {
+    return JSON.parse(input.input)
+  } catch {
+    return input.input
+  }
+}
 
-    // Build the workflow graph
-    const workflow = new StateGraph(GraphState)
-      .addNode("agent", callModel)                    // Add AI model node
-      .addNode("tools", toolNode)                     // Add tool execution node
-      .addEdge("__start__", "agent")                  // Start workflow at agent
-      .addConditionalEdges("agent", shouldContinue)   // Agent decides: tools or end
-      .addEdge("tools", "agent")                      // After tools, go back to agent
+// Pull the result count and search type out of a tool's JSON output, if present
+function summarizeToolOutput(output: any): { count?: number; searchType?: string } {
+  try {
+    const raw = typeof output === "string" ? output : contentToText(output?.content)
+    const parsed = JSON.parse(raw)
+    return { count: parsed.count, searchType: parsed.searchType }
+  } catch {
+    return {} // Non-JSON output: nothing to summarize
+  }
+}
 
-    // Initialize conversation state persistence
-    const checkpointer = new MongoDBSaver({ client, dbName })
-    // Compile the workflow with state saving
-    const app = workflow.compile({ checkpointer })
+// Attachments produced since the customer's latest message: product cards from item_lookup results (with their
+// actions and quick replies) and the latest comparison table
+function turnAttachments(messages: BaseMessage[]): AgentAttachments {
+  const turnStart = messages.map((message) => message.getType()).lastIndexOf("human")
+  let comparison: ProductComparison | undefined
+  const found: ProductResult[] = []
+  for (const message of messages.slice(turnStart + 1)) {
+    if (message.getType() !== "tool") continue
+    try {
+      const result = JSON.parse(contentToText(message.content))
+      if (result.error) continue
+      if (message.name === "compare_products") comparison = result
+      if (message.name === "item_lookup" && Array.isArray(result.results)) found.push(...result.results)
+    } catch {
+      // Not JSON: nothing to attach
+    }
+  }
+  const products = chatProducts(found)
+  const actions = chatActions(products)
+  const replies = suggestedReplies(products, comparison !== undefined)
+  return {
+    ...(products.length > 0 ? { products } : {}),
+    ...(actions.length > 0 ? { actions } : {}),
+    ...(replies.length > 0 ? { suggestedReplies: replies } : {}),
+    ...(comparison ? { comparison } : {}),
+  }
+}
 
+// Main function that runs the compiled agent for one message in a thread
+export async function callAgent(agent: Agent, query: string, thread_id: string, session_id?: string) {
+  const timeout = AbortSignal.timeout(agentTimeoutMs()) // Abort runs that take too long
+  try {
     // Execute the workflow
-    const finalState = await app.invoke(
+    const finalState = await agent.invoke(
       {
         messages: [new HumanMessage(query)], // Start with user's question
       },
       { 
         recursionLimit: 15,                   // Prevent infinite loops
-        configurable: { thread_id: thread_id } // Conversation thread identifier
+        configurable: { thread_id: thread_id, session_id: session_id }, // Conversation thread and shopper session
+        signal: timeout,
       }
     )
 
@@ -251,18 +557,63 @@ Current time: {time}`,
     const response = finalState.messages[finalState.messages.length - 1].content
     console.log("Agent response:", response)
 
-    return response // Return the AI's final response
+    // Return the AI's final response, with any structured data (product cards, a comparison table) from this turn
+    return { response, ...turnAttachments(finalState.messages) }
 
   } catch (error: any) {
     // Handle different types of errors with user-friendly messages
     console.error("Error in callAgent:", error.message)
-    
-    if (error.status === 429) { // Rate limit error
-      throw new Error("Service temporarily unavailable due to rate limits. Please try again in a minute.")
-    } else if (error.status === 401) { // Authentication error
-      throw new Error("Authentication failed. Please check your API configuration.")
-    } else { // Generic error
-      throw new Error(`Agent failed: ${error.message}`)
+    throw toAgentError(error, timeout.aborted)
+  }
+}
+
+// Streaming variant of callAgent: reports token deltas and tool activity as they happen
+export async function streamAgent(
+  agent: Agent,
+  query: string,
+  thread_id: string,
+  onEvent: (event: AgentStreamEvent) => void, // Called for every event, in order
+  signal?: AbortSignal,                        // Aborts the run (e.g. when the client disconnects)
+  session_id?: string                          // Shopper session, for remembered preferences
+): Promise<string> {
+  const timeout = AbortSignal.timeout(agentTimeoutMs()) // Abort runs that take too long
+  try {
+    // Stream fine-grained run events instead of waiting for the final state
+    const events = agent.streamEvents(
+      {
+        messages: [new HumanMessage(query)], // Start with user's question
+      },
+      {
+        version: "v2",                         // Event schema version
+        recursionLimit: 15,                    // Prevent infinite loops
+        configurable: { thread_id: thread_id, session_id: session_id }, // Conversation thread and shopper session
+        signal: signal ? AbortSignal.any([signal, timeout]) : timeout,
+      }
+    )
+
+    for await (const event of events) {
+      if (event.event === "on_chat_model_stream" && event.metadata?.langgraph_node === "agent") {
+        // Token delta produced by the model in the agent node
+        const content = contentToText(event.data.chunk?.content)
+        if (content) onEvent({ type: "token", content })
+      } else if (event.event === "on_tool_start") {
+        onEvent({ type: "tool_start", name: event.name, input: toolStartInput(event.data.input) })
+      } else if (event.event === "on_tool_end") {
+        onEvent({ type: "tool_end", name: event.name, ...summarizeToolOutput(event.data.output) })
+      }
     }
+
+    // Read the final answer back from the checkpointed thread state
+    const finalState = await agent.getState({ configurable: { thread_id: thread_id } })
+    const messages: BaseMessage[] = finalState.values.messages ?? []
+    const response = contentToText(messages[messages.length - 1]?.content)
+
+    console.log("Agent response:", response)
+    onEvent({ type: "done", threadId: thread_id, response, ...turnAttachments(messages) })
+    return response
+
+  } catch (error: any) {
+    console.error("Error in streamAgent:", error.message)
+    throw toAgentError(error, timeout.aborted)
   }
 }
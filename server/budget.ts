@@ -0,0 +1,119 @@
+// Daily chat model budget: token and cost totals from the model's usage metadata
+import { UsageMetadata } from "@langchain/core/messages"
+import { Collection } from "mongodb"
+
+// Model usage for one UTC day
+export interface DailyUsage {
+  day: string // YYYY-MM-DD (UTC)
+  calls: number
+  input_tokens: number
+  output_tokens: number
+  cost_usd: number
+}
+
+// Persistence for the daily totals (MongoDB in production, memory offline)
+export interface UsageStore {
+  get(day: string): Promise<DailyUsage | null>
+  add(day: string, usage: Omit<DailyUsage, "day">): Promise<void>
+}
+
+export class MongoUsageStore implements UsageStore {
+  constructor(private collection: Collection<DailyUsage>) {}
+
+  // One document per day
+  async ensureIndexes(): Promise<void> {
+    await this.collection.createIndex({ day: 1 }, { unique: true })
+  }
+
+  get(day: string): Promise<DailyUsage | null> {
+    return this.collection.findOne({ day }, { projection: { _id: 0 } })
+  }
+
+  async add(day: string, usage: Omit<DailyUsage, "day">): Promise<void> {
+    await this.collection.updateOne({ day }, { $inc: usage }, { upsert: true })
+  }
+}
+
+export class InMemoryUsageStore implements UsageStore {
+  private days = new Map<string, DailyUsage>()
+
+  async get(day: string): Promise<DailyUsage | null> {
+    const usage = this.days.get(day)
+    return usage ? { ...usage } : null
+  }
+
+  async add(day: string, usage: Omit<DailyUsage, "day">): Promise<void> {
+    const total = this.days.get(day) ?? { day, calls: 0, input_tokens: 0, output_tokens: 0, cost_usd: 0 }
+    total.calls += usage.calls
+    total.input_tokens += usage.input_tokens
+    total.output_tokens += usage.output_tokens
+    total.cost_usd += usage.cost_usd
+    this.days.set(day, total)
+  }
+}
+
+export interface BudgetOptions {
+  dailyTokens: number          // Input plus output tokens per day (0 disables)
+  dailyCostUsd: number         // Spend per day in USD (0 disables)
+  inputCostPerMillion: number  // USD per million input tokens of the configured chat model
+  outputCostPerMillion: number // USD per million output tokens
+}
+
+// Read DAILY_TOKEN_BUDGET, DAILY_COST_BUDGET_USD and the MODEL_*_COST_PER_MILLION prices from the environment
+export function loadBudgetOptions(env: NodeJS.ProcessEnv = process.env): BudgetOptions {
+  return {
+    dailyTokens: Number(env.DAILY_TOKEN_BUDGET ?? 1000000),
+    dailyCostUsd: Number(env.DAILY_COST_BUDGET_USD ?? 0),
+    inputCostPerMillion: Number(env.MODEL_INPUT_COST_PER_MILLION ?? 0),
+    outputCostPerMillion: Number(env.MODEL_OUTPUT_COST_PER_MILLION ?? 0),
+  }
+}
+
+// Replies used instead of calling the model when it can't or shouldn't be called
+export const BUDGET_EXHAUSTED_MESSAGE =
+  "I'm sorry, our shopping assistant has reached its limit for today. Please come back tomorrow, " +
+  "or keep browsing the store in the meantime."
+
+export function providerBusyMessage(retryAfterSeconds: number): string {
+  const wait = retryAfterSeconds >= 120 ? `${Math.ceil(retryAfterSeconds / 60)} minutes` : `${retryAfterSeconds} seconds`
+  return `I'm getting a lot of questions right now and need a short break. Please try again in about ${wait}.`
+}
+
+// Decides whether the chat model may be called, and records what each call used
+export class UsageBudget {
+  private pausedUntil = 0 // Set when the provider rate limits us, so we stop calling it for a while
+
+  constructor(private store: UsageStore, private options: BudgetOptions) {}
+
+  private today(): string {
+    return new Date().toISOString().slice(0, 10)
+  }
+
+  // Friendly reply to send instead of calling the model, or null when the model may be called
+  async blockedReply(): Promise<string | null> {
+    const waitMs = this.pausedUntil - Date.now()
+    if (waitMs > 0) return providerBusyMessage(Math.ceil(waitMs / 1000))
+
+    const { dailyTokens, dailyCostUsd } = this.options
+    if (dailyTokens <= 0 && dailyCostUsd <= 0) return null
+    const usage = await this.store.get(this.today())
+    if (!usage) return null
+    const overTokens = dailyTokens > 0 && usage.input_tokens + usage.output_tokens >= dailyTokens
+    const overCost = dailyCostUsd > 0 && usage.cost_usd >= dailyCostUsd
+    return overTokens || overCost ? BUDGET_EXHAUSTED_MESSAGE : null
+  }
+
+  // Add one model call's usage to today's totals
+  async record(usage: UsageMetadata | undefined): Promise<void> {
+    const input_tokens = usage?.input_tokens ?? 0
+    const output_tokens = usage?.output_tokens ?? 0
+    const cost_usd =
+      (input_tokens * this.options.inputCostPerMillion + output_tokens * this.options.outputCostPerMillion) / 1_000_000
+    await this.store.add(this.today(), { calls: 1, input_tokens, output_tokens, cost_usd })
+  }
+
+  // Stop calling the model until the provider's rate limit window has passed
+  pause(seconds: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + seconds * 1000)
+  }
+}
@@ -0,0 +1,85 @@
+// LangGraph tools that let the agent manage the shopper's cart for the current thread
+import { tool } from "@langchain/core/tools"
+import { RunnableConfig } from "@langchain/core/runnables"
+import { z } from "zod"
+import { CartService, CartSummary } from "./cart"
+
+// The cart belongs to the conversation thread the tool is running in
+function threadIdFrom(config: RunnableConfig): string {
+  const threadId = config?.configurable?.thread_id
+  if (!threadId) throw new Error("Cart tools require a thread_id")
+  return threadId
+}
+
+// Run a cart operation and serialize the outcome (or the error) for the model
+async function cartResponse(operation: () => Promise<CartSummary>): Promise<string> {
+  try {
+    const cart = await operation()
+    return JSON.stringify({
+      lines: cart.lines.map(({ product_id, title, unit_price, currency, quantity }) => ({
+        product_id,
+        title,
+        unit_price,
+        currency,
+        quantity,
+      })),
+      item_count: cart.item_count,
+      subtotal: cart.subtotal,
+    })
+  } catch (error: any) {
+    console.error("Error in cart tool:", error.message)
+    return JSON.stringify({ error: error.message })
+  }
+}
+
+export function createCartTools(cart: CartService) {
+  const addToCartTool = tool(
+    async ({ productId, quantity }, config) =>
+      cartResponse(() => cart.addItem(threadIdFrom(config), productId, quantity)),
+    {
+      name: "add_to_cart",
+      description: "Adds a product to the shopper's cart. Use the product id (sku or item_id) from item_lookup results, " +
+        "or a variant's sku when the customer picked a colour, size or other option (required for products with several " +
+        "variants). Fails when the variant is out of stock or has fewer units than requested.",
+      schema: z.object({
+        productId: z.string().describe("The product's sku or item_id"),
+        quantity: z.number().int().min(1).optional().default(1).describe("How many to add"),
+      }),
+    }
+  )
+
+  const removeFromCartTool = tool(
+    async ({ productId }, config) => cartResponse(() => cart.removeItem(threadIdFrom(config), productId)),
+    {
+      name: "remove_from_cart",
+      description: "Removes a product from the shopper's cart",
+      schema: z.object({
+        productId: z.string().describe("The product's sku or item_id"),
+      }),
+    }
+  )
+
+  const updateQuantityTool = tool(
+    async ({ productId, quantity }, config) =>
+      cartResponse(() => cart.updateQuantity(threadIdFrom(config), productId, quantity)),
+    {
+      name: "update_quantity",
+      description: "Changes how many of a product are in the shopper's cart (0 removes it)",
+      schema: z.object({
+        productId: z.string().describe("The product's sku or item_id"),
+        quantity: z.number().int().min(0).describe("The new quantity"),
+      }),
+    }
+  )
+
+  const viewCartTool = tool(
+    async (_input, config) => cartResponse(() => cart.getCart(threadIdFrom(config))),
+    {
+      name: "view_cart",
+      description: "Shows the products in the shopper's cart with quantities and the subtotal",
+      schema: z.object({}),
+    }
+  )
+
+  return [addToCartTool, removeFromCartTool, updateQuantityTool, viewCartTool]
+}
@@ -0,0 +1,196 @@
+// Shopping carts keyed by conversation thread, stored in `inventory_database.carts`
+import { Collection } from "mongodb"
+import { ProductCatalog } from "./catalog"
+import { ApiError, codeForStatus } from "./errors"
+import { toProductResult } from "./product-results"
+import { ProductVariant, isVariantInStock, productVariants, variantLabel } from "./variants"
+
+// One product in a cart, with the price captured when it was added
+export interface CartLine {
+  product_id: string // sku (migrated products), item_id (seeded items) or the sku of the chosen variant
+  title: string
+  unit_price: number // Price snapshot: sale price if there is one, else the regular price
+  currency: string
+  quantity: number
+  added_at: Date
+}
+
+export interface Cart {
+  thread_id: string
+  lines: CartLine[]
+  updated_at: Date
+}
+
+// Cart plus computed totals, as returned to the agent and the REST API
+export interface CartSummary extends Cart {
+  item_count: number
+  subtotal: number
+}
+
+// API error with an HTTP status, so routes and tools can report it precisely
+export class CartError extends ApiError {
+  constructor(message: string, status = 400) {
+    super(codeForStatus(status), message, { status })
+    this.name = "CartError"
+  }
+}
+
+// Persistence for carts (MongoDB in production, memory offline)
+export interface CartStore {
+  get(threadId: string): Promise<Cart | null>
+  save(cart: Cart): Promise<void>
+  delete(threadId: string): Promise<void>
+}
+
+export class MongoCartStore implements CartStore {
+  constructor(private collection: Collection<Cart>) {}
+
+  // One cart per thread
+  async ensureIndexes(): Promise<void> {
+    await this.collection.createIndex({ thread_id: 1 }, { unique: true })
+  }
+
+  get(threadId: string): Promise<Cart | null> {
+    return this.collection.findOne({ thread_id: threadId }, { projection: { _id: 0 } })
+  }
+
+  async save(cart: Cart): Promise<void> {
+    await this.collection.replaceOne({ thread_id: cart.thread_id }, cart, { upsert: true })
+  }
+
+  async delete(threadId: string): Promise<void> {
+    await this.collection.deleteOne({ thread_id: threadId })
+  }
+}
+
+export class InMemoryCartStore implements CartStore {
+  private carts = new Map<string, Cart>()
+
+  async get(threadId: string): Promise<Cart | null> {
+    const cart = this.carts.get(threadId)
+    return cart ? structuredClone(cart) : null
+  }
+
+  async save(cart: Cart): Promise<void> {
+    this.carts.set(cart.thread_id, structuredClone(cart))
+  }
+
+  async delete(threadId: string): Promise<void> {
+    this.carts.delete(threadId)
+  }
+}
+
+function assertQuantity(quantity: number, allowZero = false): void {
+  if (!Number.isInteger(quantity) || quantity < (allowZero ? 0 : 1)) {
+    throw new CartError(`Quantity must be a whole number of at least ${allowZero ? 0 : 1}`)
+  }
+}
+
+// Check a quantity of a product (or one of its variants) can be bought; untracked stock is never limited
+function assertInStock(title: string, variant: ProductVariant, quantity: number): void {
+  if (!isVariantInStock(variant)) throw new CartError(`${title} is out of stock`, 409)
+  if (variant.inventory_quantity !== undefined && quantity > variant.inventory_quantity) {
+    throw new CartError(`Only ${variant.inventory_quantity} of ${title} in stock`, 409)
+  }
+}
+
+// Cart operations shared by the agent's cart tools and the /cart routes
+export class CartService {
+  constructor(private store: CartStore, private catalog: ProductCatalog) {}
+
+  private async load(threadId: string): Promise<Cart> {
+    return (await this.store.get(threadId)) ?? { thread_id: threadId, lines: [], updated_at: new Date() }
+  }
+
+  private async persist(cart: Cart): Promise<CartSummary> {
+    cart.updated_at = new Date()
+    await this.store.save(cart)
+    return this.summarize(cart)
+  }
+
+  private summarize(cart: Cart): CartSummary {
+    const subtotal = cart.lines.reduce((sum, line) => sum + line.unit_price * line.quantity, 0)
+    return {
+      ...cart,
+      item_count: cart.lines.reduce((sum, line) => sum + line.quantity, 0),
+      subtotal: Math.round(subtotal * 100) / 100,
+    }
+  }
+
+  async getCart(threadId: string): Promise<CartSummary> {
+    return this.summarize(await this.load(threadId))
+  }
+
+  // The product a cart line id (sku, item_id or variant sku) refers to, and the variant whose stock it draws on.
+  // A product with several variants can only be bought as one of them.
+  private async resolve(productId: string) {
+    const product = await this.catalog.findExact(productId)
+    if (!product) throw new CartError(`Product ${productId} was not found`, 404)
+
+    const result = toProductResult(product)
+    const variants = productVariants(product)
+    const variant = variants.find((v) => v.sku === productId)
+    if (!variant && variants.length > 1) {
+      throw new CartError(
+        `${result.title} comes in several options; add the sku of one of them: ${variants.map((v) => v.sku).join(", ")}`
+      )
+    }
+    const hasOptions = variant && Object.keys(variant.options).length > 0
+    return {
+      result,
+      variant,
+      stock: variant ?? variants[0],
+      title: hasOptions ? `${result.title} (${variantLabel(variant)})` : result.title,
+    }
+  }
+
+  // Add a product by sku/item_id, or one of its variants by the variant's sku;
+  // adding it again increases the quantity of the existing line
+  async addItem(threadId: string, productId: string, quantity = 1): Promise<CartSummary> {
+    assertQuantity(quantity)
+    const { result, variant, stock, title } = await this.resolve(productId)
+    const lineId = variant?.sku ?? result.id
+    const cart = await this.load(threadId)
+    const existing = cart.lines.find((line) => line.product_id === lineId)
+    assertInStock(title, stock, (existing?.quantity ?? 0) + quantity)
+    if (existing) {
+      existing.quantity += quantity
+    } else {
+      cart.lines.push({
+        product_id: lineId,
+        title,
+        unit_price: variant?.price ?? result.sale_price ?? result.price,
+        currency: result.currency ?? "USD",
+        quantity,
+        added_at: new Date(),
+      })
+    }
+    return this.persist(cart)
+  }
+
+  // Set a line's quantity; zero removes the line
+  async updateQuantity(threadId: string, productId: string, quantity: number): Promise<CartSummary> {
+    assertQuantity(quantity, true)
+    const cart = await this.load(threadId)
+    const line = cart.lines.find((l) => l.product_id === productId)
+    if (!line) throw new CartError(`Product ${productId} is not in the cart`, 404)
+    if (quantity === 0) {
+      cart.lines = cart.lines.filter((l) => l !== line)
+    } else {
+      if (quantity > line.quantity) {
+        const { stock } = await this.resolve(productId)
+        assertInStock(line.title, stock, quantity)
+      }
+      line.quantity = quantity
+    }
+    return this.persist(cart)
+  }
+
+  async removeItem(threadId: string, productId: string): Promise<CartSummary> {
+    return this.updateQuantity(threadId, productId, 0)
+  }
+
+  async clear(threadId: string): Promise<void> {
+    await this.store.delete(threadId)
+  }
+}
@@ -0,0 +1,153 @@
+// Incremental catalog sync: upsert by sku, re-embed only changed products, soft-delete products that
+// left the source, and checkpoint progress so an interrupted run resumes where it stopped
+import { EmbeddingsInterface } from "@langchain/core/embeddings"
+import { Collection, Db } from "mongodb"
+import fs from "fs"
+import { InMemoryProductCatalog } from "./catalog"
+import { EmbeddingPipeline, EmbeddingSummary } from "./embedding-pipeline"
+import { EmbeddingVersion, vectorHashField, versionNames } from "./embedding-versions"
+import { MongoProduct, MongoProductSink, sortBySku } from "./ingestion"
+
+// Progress of an interrupted sync, stored in `sync_checkpoints` so the next run can resume
+interface SyncCheckpoint {
+  _id: string
+  started_at: Date
+  last_sku: string // Products are synced in sku order; everything up to here is done
+  counts: SyncCounts
+}
+
+export interface SyncCounts {
+  embedded: number  // New or changed products, (re-)embedded
+  unchanged: number // Same embedding_text: fields updated, embedding kept
+  failed: number    // Embedding failed; retried on the next run
+}
+
+export interface SyncResult {
+  counts: SyncCounts
+  softDeleted: number
+  resumedFrom?: string         // sku the run resumed after, if it continued an interrupted run
+  embedding: EmbeddingSummary  // This process's embedding calls only
+}
+
+export interface SyncOptions {
+  checkpointId: string    // One checkpoint per source, e.g. "easymart-products"
+  restart?: boolean       // Ignore the checkpoint of an interrupted run
+  batchSize?: number      // Products compared, written and checkpointed at a time
+  version?: Pick<EmbeddingVersion, "field"> // Active embedding version, whose field is written (default version 1)
+  onBatch?: (done: number, total: number, counts: SyncCounts) => void
+}
+
+// Soft-delete synced products that are no longer in the source (seeded items have no sku and are left alone)
+async function softDeleteMissingProducts(collection: Collection<MongoProduct>, skus: string[]): Promise<number> {
+  const result = await collection.updateMany(
+    { sku: { $exists: true, $nin: skus }, deleted: { $ne: true } },
+    { $set: { deleted: true, deleted_at: new Date() } }
+  )
+  return result.modifiedCount
+}
+
+// Sync products into `inventory_database.items` (collection) with a checkpoint in `sync_checkpoints`
+export async function syncToMongo(
+  db: Db,
+  products: MongoProduct[],
+  embeddings: EmbeddingsInterface,
+  options: SyncOptions
+): Promise<SyncResult> {
+  const { checkpointId, restart = false, batchSize = 500, version = versionNames(1), onBatch } = options
+  const hashField = vectorHashField(version)
+  const collection = db.collection<MongoProduct>("items")
+  const checkpoints = db.collection<SyncCheckpoint>("sync_checkpoints")
+
+  // Upserts match on sku; seeded items have no sku, hence the partial index
+  await collection.createIndex({ sku: 1 }, { unique: true, partialFilterExpression: { sku: { $exists: true } } })
+
+  if (restart) await checkpoints.deleteOne({ _id: checkpointId })
+  const checkpoint = await checkpoints.findOne({ _id: checkpointId })
+  const counts: SyncCounts = checkpoint?.counts ?? { embedded: 0, unchanged: 0, failed: 0 }
+  const ordered = sortBySku(products)
+  const pending = checkpoint ? ordered.filter((p) => p.sku > checkpoint.last_sku) : ordered
+  if (!checkpoint) {
+    await checkpoints.insertOne({ _id: checkpointId, started_at: new Date(), last_sku: "", counts })
+  }
+
+  // Changed products are written as soon as their embeddings arrive; unchanged ones through the same sink
+  const sink = new MongoProductSink(collection, new Date(), version)
+  const pipeline = new EmbeddingPipeline<MongoProduct>({
+    embeddings,
+    text: (product) => product.embedding_text,
+    id: (product) => product.sku,
+    sink,
+  })
+
+  for (let i = 0; i < pending.length; i += batchSize) {
+    const batch = pending.slice(i, i + batchSize)
+
+    // Compare content hashes with the one the active version's vector was built from, so vectors left stale while
+    // another version was active (e.g. before a rollback) are re-embedded too
+    const stored: Record<string, any>[] = await collection
+      .find({ sku: { $in: batch.map((p) => p.sku) } }, { projection: { sku: 1, [hashField]: 1 } })
+      .toArray()
+    const storedHashes = new Map(stored.map((p) => [p.sku, p[hashField]]))
+    const unchanged = batch.filter((p) => storedHashes.get(p.sku) === p.content_hash)
+    const changed = batch.filter((p) => !unchanged.includes(p))
+
+    const embedded = await pipeline.run(changed)
+    await sink.write(unchanged)
+    counts.embedded += embedded.length
+    counts.unchanged += unchanged.length
+    counts.failed += changed.length - embedded.length
+
+    // Record progress so an interrupted run resumes after this batch
+    await checkpoints.updateOne({ _id: checkpointId }, { $set: { last_sku: batch[batch.length - 1].sku, counts } })
+    onBatch?.(Math.min(i + batchSize, pending.length), pending.length, counts)
+  }
+
+  // Only after a complete pass: soft-delete what disappeared from the source, then drop the checkpoint
+  const softDeleted = await softDeleteMissingProducts(collection, ordered.map((p) => p.sku))
+  await checkpoints.deleteOne({ _id: checkpointId })
+
+  return { counts, softDeleted, resumedFrom: checkpoint?.last_sku || undefined, embedding: pipeline.summary() }
+}
+
+// Sync into a local JSON store (offline mode): embeddings are reused for unchanged products and
+// products missing from the source are kept but marked deleted
+export async function syncToOfflineStore(
+  storePath: string,
+  products: MongoProduct[],
+  embeddings: EmbeddingsInterface
+): Promise<SyncResult> {
+  const previous: MongoProduct[] = fs.existsSync(storePath) ? JSON.parse(fs.readFileSync(storePath, "utf8")) : []
+  const previousBySku = new Map(previous.filter((p) => p.sku).map((p) => [p.sku, p]))
+  const now = new Date()
+
+  const reused = new Map<string, number[]>()
+  for (const product of products) {
+    const existing = previousBySku.get(product.sku)
+    if (existing?.embedding && existing.content_hash === product.content_hash) reused.set(product.sku, existing.embedding)
+  }
+  const pipeline = new EmbeddingPipeline<MongoProduct>({
+    embeddings,
+    text: (product) => product.embedding_text,
+    id: (product) => product.sku,
+  })
+  const embedded = await pipeline.run(products.filter((p) => !reused.has(p.sku)))
+  const vectors = new Map([...reused, ...embedded.map((p): [string, number[]] => [p.sku, p.embedding])])
+  // Products whose embedding failed are left out and retried on the next run
+  const synced = sortBySku(products)
+    .filter((p) => vectors.has(p.sku))
+    .map((product) => ({ ...product, embedding: vectors.get(product.sku), synced_at: now }))
+  const skus = new Set(products.map((p) => p.sku))
+  const deleted = previous
+    .filter((p) => p.sku && !skus.has(p.sku))
+    .map((p) => (p.deleted ? p : { ...p, deleted: true, deleted_at: now }))
+
+  const catalog = new InMemoryProductCatalog(embeddings)
+  await catalog.addProducts([...synced, ...deleted])
+  catalog.save(storePath)
+
+  return {
+    counts: { embedded: embedded.length, unchanged: reused.size, failed: products.length - synced.length },
+    softDeleted: deleted.filter((p) => p.deleted_at === now).length,
+    embedding: pipeline.summary(),
+  }
+}
@@ -0,0 +1,432 @@
+// Product catalog access for the agent's tools: Atlas in production, in-memory for offline runs
+import { Document } from "@langchain/core/documents"
+import { EmbeddingsInterface } from "@langchain/core/embeddings"
+import { MongoDBAtlasVectorSearch } from "@langchain/mongodb"
+import { Collection } from "mongodb"
+import fs from "fs"
+import { ActiveEmbeddingResolver, vectorFields, versionNames } from "./embedding-versions"
+import { ACTIVE_PRODUCT_FILTER, ProductFilters, buildMongoFilter, isActiveProduct, matchesFilters } from "./product-filters"
+
+// Orderings offered by the storefront's product listing; "relevance" needs a search query
+export type ProductSort = "relevance" | "price_asc" | "price_desc" | "title_asc" | "title_desc"
+
+// One page request for the storefront's product listing
+export interface ProductListQuery {
+  search?: string // Keyword search over the full-text fields
+  filters?: ProductFilters
+  sort: ProductSort
+  limit: number
+  offset: number
+}
+
+export interface FacetCount {
+  value: string
+  count: number
+}
+
+// Vendor/brand and tag/category counts for the storefront's filter sidebar
+export interface ProductFacets {
+  vendors: FacetCount[]
+  tags: FacetCount[]
+}
+
+// Searches the product collection; documents follow the seeded Item or migrated MongoProduct shape
+export interface ProductCatalog {
+  count(): Promise<number>
+  // Semantic search: [document, score] pairs, best match first
+  vectorSearch(query: string, n: number, filters?: ProductFilters): Promise<[Document, number][]>
+  // Keyword fallback: raw product documents matching the query
+  textSearch(query: string, n: number, filters?: ProductFilters): Promise<Record<string, any>[]>
+  // Ranked full-text search (Atlas `text_index`): product documents with a `score`, best match first
+  keywordSearch(query: string, n: number, filters?: ProductFilters): Promise<Record<string, any>[]>
+  // Product whose sku, handle, item_id or one of its variant skus equals the identifier exactly
+  findExact(identifier: string): Promise<Record<string, any> | null>
+  // One page of products (without embeddings) plus the total number matching
+  list(query: ProductListQuery): Promise<{ products: Record<string, any>[]; total: number }>
+  // Nearest neighbours of a product by its stored embedding, best first; null if the product doesn't exist
+  similar(identifier: string, n: number): Promise<Record<string, any>[] | null>
+  // Vendor and tag counts across the catalog, most common first
+  facets(): Promise<ProductFacets>
+}
+
+// Fields searched by the keyword fallback
+const TEXT_SEARCH_FIELDS = ["item_name", "item_description", "categories", "embedding_text"]
+
+// Name of the Atlas Search (full-text) index that sits next to `vector_index`
+export const TEXT_INDEX_NAME = "text_index"
+
+// Fields ranked by full-text search, with title-like fields boosted
+const KEYWORD_FIELDS = {
+  boosted: ["title", "item_name", "sku", "handle"],
+  regular: ["description", "item_description", "vendor", "brand", "tags", "categories", "embedding_text"],
+}
+
+// Definition of the full-text search index over the keyword fields
+export function textSearchIndexDefinition() {
+  const fields: Record<string, any> = {}
+  for (const field of [...KEYWORD_FIELDS.boosted, ...KEYWORD_FIELDS.regular]) {
+    fields[field] = { type: "string" }
+  }
+  return { mappings: { dynamic: false, fields } }
+}
+
+// Stable identity for a product across result lists (seeded items use item_id, migrated products sku)
+export function productKey(product: Record<string, any>): string {
+  return String(product.sku ?? product.item_id ?? product.handle ?? product._id)
+}
+
+// Identifier fields matched exactly by findExact; a variant's sku finds its product too
+const IDENTIFIER_FIELDS = ["sku", "handle", "item_id"]
+
+function identifierFilter(identifier: string) {
+  const clauses = [...IDENTIFIER_FIELDS.map((field) => ({ [field]: identifier })), { "variants.sku": identifier }]
+  return { $or: clauses, ...ACTIVE_PRODUCT_FILTER }
+}
+
+// In-memory equivalent of identifierFilter
+function matchesIdentifier(product: Record<string, any>, identifier: string): boolean {
+  return (
+    isActiveProduct(product) &&
+    (IDENTIFIER_FIELDS.some((field) => product[field] === identifier) ||
+      (product.variants ?? []).some((variant: Record<string, any>) => variant.sku === identifier))
+  )
+}
+
+// The Atlas $search stage behind keywordSearch and the listing's keyword search
+function keywordSearchStage(query: string) {
+  return {
+    $search: {
+      index: TEXT_INDEX_NAME,
+      compound: {
+        should: [
+          { text: { query, path: KEYWORD_FIELDS.boosted, score: { boost: { value: 3 } } } },
+          { text: { query, path: KEYWORD_FIELDS.regular, fuzzy: { maxEdits: 1 } } },
+        ],
+        minimumShouldMatch: 1,
+      },
+    },
+  }
+}
+
+// Sort keys that work for both product shapes: price or the seeded sale price, title or item_name
+function productPrice(product: Record<string, any>): number | undefined {
+  return product.price ?? product.prices?.sale_price
+}
+
+function productTitle(product: Record<string, any>): string {
+  return String(product.title ?? product.item_name ?? "")
+}
+
+const SORT_STAGES: Record<Exclude<ProductSort, "relevance">, Record<string, 1 | -1>> = {
+  price_asc: { sort_price: 1, _id: 1 },
+  price_desc: { sort_price: -1, _id: 1 },
+  title_asc: { sort_title: 1, _id: 1 },
+  title_desc: { sort_title: -1, _id: 1 },
+}
+
+// Facet counts ordered most common first, then alphabetically
+function sortFacetCounts(counts: FacetCount[]): FacetCount[] {
+  return counts.sort((a, b) => b.count - a.count || a.value.localeCompare(b.value))
+}
+
+function countValues(values: unknown[]): FacetCount[] {
+  const counts = new Map<string, number>()
+  for (const value of values) {
+    if (value === undefined || value === null || value === "") continue
+    counts.set(String(value), (counts.get(String(value)) ?? 0) + 1)
+  }
+  return sortFacetCounts([...counts.entries()].map(([value, count]) => ({ value, count })))
+}
+
+// Catalog backed by the `items` collection and its Atlas `vector_index` (or the active versioned index)
+export class MongoProductCatalog implements ProductCatalog {
+  private vectorStores = new Map<string, MongoDBAtlasVectorSearch>() // One per vector index
+
+  // Without `versions` the catalog always searches version 1 (`embedding` in `vector_index`) with `embeddings`
+  constructor(
+    private collection: Collection,
+    private embeddings: EmbeddingsInterface,
+    private versions?: ActiveEmbeddingResolver
+  ) {}
+
+  // Vector field, index and query embeddings of the embedding version being searched
+  private async vectorTarget(): Promise<{ field: string; index: string; embeddings: EmbeddingsInterface }> {
+    if (!this.versions) return { ...versionNames(1), embeddings: this.embeddings }
+    const { version, embeddings } = await this.versions.resolve()
+    return { field: version.field, index: version.index, embeddings }
+  }
+
+  // Projection leaving out every embedding version's vector and hash fields, not just the active one's
+  private async withoutVectors(): Promise<Record<string, 0>> {
+    const fields = this.versions ? await this.versions.vectorFields() : vectorFields(1)
+    return Object.fromEntries(fields.map((field) => [field, 0 as const]))
+  }
+
+  private async vectorStore(): Promise<MongoDBAtlasVectorSearch> {
+    const { field, index, embeddings } = await this.vectorTarget()
+    if (!this.vectorStores.has(index)) {
+      this.vectorStores.set(index, new MongoDBAtlasVectorSearch(embeddings, {
+        collection: this.collection,     // MongoDB collection to search
+        indexName: index,                // Name of the vector search index
+        textKey: "embedding_text",       // Field containing the text used for embeddings
+        embeddingKey: field,             // Field containing the vector embeddings
+      }))
+    }
+    return this.vectorStores.get(index)
+  }
+
+  count(): Promise<number> {
+    return this.collection.countDocuments(ACTIVE_PRODUCT_FILTER)
+  }
+
+  async vectorSearch(query: string, n: number, filters?: ProductFilters): Promise<[Document, number][]> {
+    // Filters run as an Atlas pre-filter, so the n results all satisfy them
+    const preFilter = buildMongoFilter(filters)
+    return (await this.vectorStore()).similaritySearchWithScore(query, n, { preFilter })
+  }
+
+  textSearch(query: string, n: number, filters?: ProductFilters): Promise<Record<string, any>[]> {
+    // Case-insensitive regular expression match on any of the text fields
+    const textMatch = { $or: TEXT_SEARCH_FIELDS.map((field) => ({ [field]: { $regex: query, $options: "i" } })) }
+    const filter = buildMongoFilter(filters)
+    return this.collection
+      .find({ $and: [textMatch, filter] })
+      .limit(n)
+      .toArray()
+  }
+
+  async keywordSearch(query: string, n: number, filters?: ProductFilters): Promise<Record<string, any>[]> {
+    const filter = buildMongoFilter(filters)
+    return this.collection
+      .aggregate([
+        keywordSearchStage(query),
+        // Structured filters are applied after ranking, then the list is cut to size
+        { $match: filter },
+        { $limit: n },
+        { $set: { score: { $meta: "searchScore" } } },
+        { $project: await this.withoutVectors() },
+      ])
+      .toArray()
+  }
+
+  async findExact(identifier: string): Promise<Record<string, any> | null> {
+    return this.collection.findOne(
+      identifierFilter(identifier),
+      { projection: await this.withoutVectors() }
+    )
+  }
+
+  async list({ search, filters, sort, limit, offset }: ProductListQuery): Promise<{ products: Record<string, any>[]; total: number }> {
+    const filter = buildMongoFilter(filters)
+    const withoutVectors = await this.withoutVectors()
+    const [page] = await this.collection
+      .aggregate([
+        ...(search ? [keywordSearchStage(search)] : []),
+        { $match: filter },
+        {
+          $set: {
+            sort_price: { $ifNull: ["$price", "$prices.sale_price"] },
+            sort_title: { $ifNull: ["$title", "$item_name"] },
+            ...(search ? { score: { $meta: "searchScore" } } : {}),
+          },
+        },
+        // $search already returns the best matches first
+        ...(sort === "relevance" ? [] : [{ $sort: SORT_STAGES[sort] }]),
+        {
+          $facet: {
+            products: [{ $skip: offset }, { $limit: limit }, { $project: { ...withoutVectors, sort_price: 0, sort_title: 0 } }],
+            total: [{ $count: "count" }],
+          },
+        },
+      ])
+      .toArray()
+    return { products: page.products, total: page.total[0]?.count ?? 0 }
+  }
+
+  async similar(identifier: string, n: number): Promise<Record<string, any>[] | null> {
+    const { field, index } = await this.vectorTarget()
+    const product = await this.collection.findOne(
+      identifierFilter(identifier),
+      { projection: { [field]: 1 } }
+    )
+    if (!product) return null
+    if (!Array.isArray(product[field])) return []
+    // Search with the product's own stored vector; it is its own best match, so ask for one extra and drop it
+    return this.collection
+      .aggregate([
+        {
+          $vectorSearch: {
+            index,
+            path: field,
+            queryVector: product[field],
+            numCandidates: Math.max(100, (n + 1) * 10),
+            limit: n + 1,
+            filter: ACTIVE_PRODUCT_FILTER,
+          },
+        },
+        { $match: { _id: { $ne: product._id } } },
+        { $limit: n },
+        { $set: { score: { $meta: "vectorSearchScore" } } },
+        { $project: await this.withoutVectors() },
+      ])
+      .toArray()
+  }
+
+  async facets(): Promise<ProductFacets> {
+    const [facets] = await this.collection
+      .aggregate([
+        { $match: ACTIVE_PRODUCT_FILTER },
+        {
+          $facet: {
+            vendors: [
+              { $group: { _id: { $ifNull: ["$vendor", "$brand"] }, count: { $sum: 1 } } },
+              { $match: { _id: { $nin: [null, ""] } } },
+            ],
+            tags: [
+              { $project: { tag: { $concatArrays: [{ $ifNull: ["$tags", []] }, { $ifNull: ["$categories", []] }] } } },
+              { $unwind: "$tag" },
+              { $group: { _id: "$tag", count: { $sum: 1 } } },
+              { $match: { _id: { $nin: [null, ""] } } },
+            ],
+          },
+        },
+      ])
+      .toArray()
+    const toCounts = (groups: { _id: unknown; count: number }[]) =>
+      sortFacetCounts(groups.map(({ _id, count }) => ({ value: String(_id), count })))
+    return { vendors: toCounts(facets.vendors), tags: toCounts(facets.tags) }
+  }
+}
+
+// Cosine similarity of two vectors, for in-memory vector search
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0
+  let normA = 0
+  let normB = 0
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i]
+    normA += a[i] * a[i]
+    normB += b[i] * b[i]
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB)
+}
+
+// Catalog held in process memory; can be saved to and loaded from a JSON file
+export class InMemoryProductCatalog implements ProductCatalog {
+  private products: Record<string, any>[] = []
+
+  constructor(private embeddings: EmbeddingsInterface) {}
+
+  // Load a catalog previously written by save()
+  static load(filePath: string, embeddings: EmbeddingsInterface): InMemoryProductCatalog {
+    const catalog = new InMemoryProductCatalog(embeddings)
+    catalog.products = JSON.parse(fs.readFileSync(filePath, "utf8"))
+    return catalog
+  }
+
+  save(filePath: string): void {
+    fs.writeFileSync(filePath, JSON.stringify(this.products, null, 2))
+  }
+
+  // Add products, embedding `embedding_text` for any that don't carry a vector yet
+  async addProducts(products: Record<string, any>[]): Promise<void> {
+    const missing = products.filter((p) => !p.embedding)
+    const vectors = await this.embeddings.embedDocuments(missing.map((p) => p.embedding_text ?? ""))
+    missing.forEach((p, i) => (p.embedding = vectors[i]))
+    this.products.push(...products)
+  }
+
+  clear(): void {
+    this.products = []
+  }
+
+  async count(): Promise<number> {
+    return this.products.filter(isActiveProduct).length
+  }
+
+  async vectorSearch(query: string, n: number, filters?: ProductFilters): Promise<[Document, number][]> {
+    const queryVector = await this.embeddings.embedQuery(query)
+    return this.products
+      .filter((p) => Array.isArray(p.embedding) && matchesFilters(p, filters))
+      // Rescale cosine from [-1, 1] to [0, 1], matching Atlas vectorSearchScore
+      .map((p) => [p, (1 + cosineSimilarity(queryVector, p.embedding)) / 2] as [Record<string, any>, number])
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, n)
+      .map(([{ embedding, embedding_text, ...metadata }, score]) => [
+        new Document({ pageContent: embedding_text ?? "", metadata }),
+        score,
+      ])
+  }
+
+  async textSearch(query: string, n: number, filters?: ProductFilters): Promise<Record<string, any>[]> {
+    const pattern = new RegExp(query, "i") // Same semantics as a $regex with the "i" option
+    const matches = (value: unknown) =>
+      Array.isArray(value) ? value.some((v) => pattern.test(String(v))) : value != null && pattern.test(String(value))
+    return this.products
+      .filter((p) => matchesFilters(p, filters) && TEXT_SEARCH_FIELDS.some((field) => matches(p[field])))
+      .slice(0, n)
+  }
+
+  // Term-frequency ranking standing in for Atlas $search; boosted fields count three times
+  async keywordSearch(query: string, n: number, filters?: ProductFilters): Promise<Record<string, any>[]> {
+    const terms: string[] = query.toLowerCase().match(/[a-z0-9]+/g) ?? []
+    const countTerms = (value: unknown) => {
+      const tokens = String(Array.isArray(value) ? value.join(" ") : value ?? "").toLowerCase().match(/[a-z0-9]+/g) ?? []
+      return tokens.filter((token) => terms.includes(token)).length
+    }
+    return this.products
+      .filter((p) => matchesFilters(p, filters))
+      .map((p) => {
+        const score =
+          3 * KEYWORD_FIELDS.boosted.reduce((sum, field) => sum + countTerms(p[field]), 0) +
+          KEYWORD_FIELDS.regular.reduce((sum, field) => sum + countTerms(p[field]), 0)
+        const { embedding, ...product } = p
+        return { ...product, score }
+      })
+      .filter((p) => p.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, n)
+  }
+
+  async findExact(identifier: string): Promise<Record<string, any> | null> {
+    const match = this.products.find((p) => matchesIdentifier(p, identifier))
+    if (!match) return null
+    const { embedding, ...product } = match
+    return product
+  }
+
+  async list({ search, filters, sort, limit, offset }: ProductListQuery): Promise<{ products: Record<string, any>[]; total: number }> {
+    const matches = search
+      ? await this.keywordSearch(search, this.products.length, filters) // Already best match first
+      : this.products.filter((p) => matchesFilters(p, filters)).map(({ embedding, ...product }) => product)
+    if (sort !== "relevance") {
+      const direction = sort.endsWith("_desc") ? -1 : 1
+      const key = (p: Record<string, any>) => (sort.startsWith("price") ? productPrice(p) ?? Infinity : productTitle(p))
+      matches.sort((a, b) => {
+        const [x, y] = [key(a), key(b)]
+        return direction * (typeof x === "number" && typeof y === "number" ? x - y : String(x).localeCompare(String(y)))
+      })
+    }
+    return { products: matches.slice(offset, offset + limit), total: matches.length }
+  }
+
+  async similar(identifier: string, n: number): Promise<Record<string, any>[] | null> {
+    const product = this.products.find((p) => matchesIdentifier(p, identifier))
+    if (!product) return null
+    if (!Array.isArray(product.embedding)) return []
+    return this.products
+      .filter((p) => p !== product && isActiveProduct(p) && Array.isArray(p.embedding))
+      .map((p) => ({ p, score: (1 + cosineSimilarity(product.embedding, p.embedding)) / 2 }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, n)
+      .map(({ p: { embedding, ...rest }, score }) => ({ ...rest, score }))
+  }
+
+  async facets(): Promise<ProductFacets> {
+    const active = this.products.filter(isActiveProduct)
+    return {
+      vendors: countValues(active.map((p) => p.vendor ?? p.brand)),
+      tags: countValues(active.flatMap((p) => [...(p.tags ?? []), ...(p.categories ?? [])])),
+    }
+  }
+}
@@ -0,0 +1,72 @@
+// Structured parts of a chat reply for the widget: product cards from the turn's item_lookup results, the actions
+// each card offers and a few quick replies to continue the conversation
+import { ProductResult } from "./product-results"
+
+// A product card; built from item_lookup results, so fields excluded by PRODUCT_RESULT_FIELDS are missing
+export interface ChatProduct {
+  sku: string          // sku (migrated products) or item_id (seeded items), as accepted by the cart routes
+  title: string
+  price: number | null // What the shopper pays now: the sale price when there is one
+  compare_at_price?: number // Regular price, when the product is on sale
+  currency?: string
+  image_url?: string
+  product_url?: string
+  in_stock?: boolean
+  has_variants?: boolean // Options must be chosen before it can go in the cart
+}
+
+// Something a card lets the shopper do without typing
+export type ChatAction =
+  | { type: "add_to_cart"; label: string; sku: string } // POST /cart/:threadId with { productId: sku }
+  | { type: "view_product"; label: string; sku: string; url: string }
+
+// Most quick replies offered per turn
+export const MAX_SUGGESTED_REPLIES = 3
+
+// Product cards for item_lookup results, in the order they were returned; a product found twice is shown once
+export function chatProducts(results: ProductResult[]): ChatProduct[] {
+  const products = new Map<string, ChatProduct>()
+  for (const result of results) {
+    if (!result?.id || products.has(result.id)) continue
+    const onSale = result.sale_price !== undefined && (result.price === undefined || result.sale_price < result.price)
+    products.set(result.id, {
+      sku: result.id,
+      title: result.title,
+      price: (onSale ? result.sale_price : result.price) ?? null,
+      ...(onSale && result.price !== undefined ? { compare_at_price: result.price } : {}),
+      ...(result.currency ? { currency: result.currency } : {}),
+      ...(result.image ? { image_url: result.image } : {}),
+      ...(result.url ? { product_url: result.url } : {}),
+      ...(result.in_stock !== undefined ? { in_stock: result.in_stock } : {}),
+      ...(result.variants?.length ? { has_variants: true } : {}),
+    })
+  }
+  return [...products.values()]
+}
+
+// View and add-to-cart actions for each card. Products that are out of stock, or whose options still have to be
+// chosen, can only be viewed.
+export function chatActions(products: ChatProduct[]): ChatAction[] {
+  return products.flatMap((product): ChatAction[] => [
+    ...(product.in_stock !== false && !product.has_variants
+      ? [{ type: "add_to_cart" as const, label: "Add to cart", sku: product.sku }]
+      : []),
+    ...(product.product_url
+      ? [{ type: "view_product" as const, label: "View product", sku: product.sku, url: product.product_url }]
+      : []),
+  ])
+}
+
+// Quick replies that follow from what the turn showed: compare or ask about the products found, or get a
+// recommendation once they have been compared
+export function suggestedReplies(products: ChatProduct[], compared: boolean): string[] {
+  const [first, second] = products
+  const replies = compared
+    ? ["Which one would you recommend?", first && `What do reviewers say about the ${first.title}?`]
+    : [
+        second && `Compare the ${first.title} and the ${second.title}`,
+        first && `What do reviewers say about the ${first.title}?`,
+        first?.price != null && "Show me something cheaper",
+      ]
+  return replies.filter((reply): reply is string => typeof reply === "string").slice(0, MAX_SUGGESTED_REPLIES)
+}
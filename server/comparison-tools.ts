@@ -0,0 +1,32 @@
+// LangGraph tool that lets the agent answer "what's the difference between these?" with a structured table
+import { tool } from "@langchain/core/tools"
+import { z } from "zod"
+import { ProductCatalog } from "./catalog"
+import { MAX_COMPARED_PRODUCTS, MIN_COMPARED_PRODUCTS, compareProducts } from "./comparison"
+import { ReviewService } from "./reviews"
+
+// Ratings come from the review store when one is configured
+export function createComparisonTools(catalog: ProductCatalog, reviews?: ReviewService) {
+  const compareProductsTool = tool(
+    async ({ productIds }) => {
+      try {
+        return JSON.stringify(await compareProducts(catalog, productIds, reviews))
+      } catch (error: any) {
+        console.error("Error in compare_products:", error.message)
+        return JSON.stringify({ error: error.message, productIds })
+      }
+    },
+    {
+      name: "compare_products",
+      description: "Compares two to four products side by side: price, sale price, brand, materials, review ratings, " +
+        "tags and stock. Use the product ids (sku or item_id) from item_lookup results. The customer sees the table, " +
+        "so summarize the differences that matter rather than repeating every value.",
+      schema: z.object({
+        productIds: z.array(z.string()).min(MIN_COMPARED_PRODUCTS).max(MAX_COMPARED_PRODUCTS)
+          .describe("The products' skus or item_ids"),
+      }),
+    }
+  )
+
+  return [compareProductsTool]
+}
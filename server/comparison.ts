@@ -0,0 +1,146 @@
+// Side-by-side product comparison for the compare_products tool: a normalized attribute table over both product
+// shapes (seeded `Item`s and migrated `MongoProduct`s) that clients can render as a grid
+import { ProductCatalog } from "./catalog"
+import { ProductResult, toProductResult } from "./product-results"
+import { RatingStats, ReviewService, ratingStats } from "./reviews"
+
+// Column header for one compared product
+export interface ComparedProduct {
+  id: string
+  title: string
+  currency?: string
+  url?: string
+  image?: string
+}
+
+export type ComparisonAttribute = "price" | "sale_price" | "brand" | "materials" | "rating" | "tags" | "in_stock"
+
+// One row of the table: a value per product, in the order of `products` (null when unknown)
+export interface ComparisonRow {
+  attribute: ComparisonAttribute
+  label: string
+  values: (number | string | string[] | boolean | RatingStats | null)[]
+  differs: boolean // Whether the products differ on this attribute
+}
+
+export interface ProductComparison {
+  products: ComparedProduct[]
+  rows: ComparisonRow[]
+  notFound: string[] // Requested ids that matched no product
+}
+
+export const MIN_COMPARED_PRODUCTS = 2
+export const MAX_COMPARED_PRODUCTS = 4
+
+// Materials recognised in titles, descriptions and notes: the name reported, and the pattern that finds it
+const MATERIALS: [string, RegExp][] = [
+  ["oak", /\boak\b/i],
+  ["walnut", /\bwalnut\b/i],
+  ["teak", /\bteak\b/i],
+  ["pine", /\bpine\b/i],
+  ["birch", /\bbirch\b/i],
+  ["maple", /\bmaple\b/i],
+  ["ash", /\bash(?:wood)?\b/i],
+  ["acacia", /\bacacia\b/i],
+  ["beech", /\bbeech\b/i],
+  ["mango wood", /\bmango\b/i],
+  ["bamboo", /\bbamboo\b/i],
+  ["plywood", /\bplywood\b/i],
+  ["MDF", /\bmdf\b/i],
+  ["rattan", /\brattan\b/i],
+  ["wicker", /\bwicker\b/i],
+  ["steel", /\bsteel\b/i],
+  ["iron", /\biron\b/i],
+  ["aluminium", /\balumin(?:i)?um\b/i],
+  ["brass", /\bbrass\b/i],
+  ["glass", /\bglass\b/i],
+  ["marble", /\bmarble\b/i],
+  ["stone", /\bstone\b/i],
+  ["concrete", /\bconcrete\b/i],
+  ["ceramic", /\bceramic\b/i],
+  ["leather", /\bleather\b/i],
+  ["velvet", /\bvelvet\b/i],
+  ["linen", /\blinen\b/i],
+  ["cotton", /\bcotton\b/i],
+  ["wool", /\bwool\b/i],
+  ["bouclé", /\bboucl[eé](?![a-z])/i],
+  ["mesh", /\bmesh\b/i],
+  ["foam", /\bfoam\b/i],
+  ["plastic", /\bplastic\b/i],
+]
+
+// Materials mentioned in the product's title, description, notes and variant names (e.g. "Navy Blue Velvet")
+export function parseMaterials(doc: Record<string, any>): string[] {
+  const variantNames = (doc.variants ?? []).map((variant: any) => variant.title)
+  const text = [doc.title, doc.item_name, doc.description, doc.item_description, doc.notes, ...variantNames]
+    .filter(Boolean)
+    .join(" ")
+  return MATERIALS.filter(([, pattern]) => pattern.test(text)).map(([name]) => name)
+}
+
+// Table rows in display order, each read from the raw document, its ProductResult or its rating statistics
+const ROWS: {
+  attribute: ComparisonAttribute
+  label: string
+  value: (doc: Record<string, any>, result: ProductResult, rating: RatingStats | null) => ComparisonRow["values"][number]
+}[] = [
+  { attribute: "price", label: "Price", value: (_, { price }) => price ?? null },
+  {
+    attribute: "sale_price",
+    label: "Sale price", // Only when it is actually lower than the price
+    value: (_, { price, sale_price }) =>
+      sale_price !== undefined && (price === undefined || sale_price < price) ? sale_price : null,
+  },
+  { attribute: "brand", label: "Brand", value: (_, { vendor }) => vendor ?? null },
+  { attribute: "materials", label: "Materials", value: (doc) => parseMaterials(doc) },
+  { attribute: "rating", label: "Rating", value: (_, __, rating) => rating },
+  { attribute: "tags", label: "Tags", value: (_, { tags }) => tags ?? [] },
+  { attribute: "in_stock", label: "In stock", value: (_, { in_stock }) => in_stock ?? null },
+]
+
+// Build the comparison table for products that have already been loaded. Ratings come from the review store when
+// given, falling back to each document's own `user_reviews`.
+export function buildComparison(
+  docs: Record<string, any>[],
+  notFound: string[] = [],
+  ratings: (RatingStats | null)[] = []
+): ProductComparison {
+  const results = docs.map(toProductResult)
+  const products = results.map(({ id, title, currency, url, image }) => ({ id, title, currency, url, image }))
+  const rows = ROWS.map(({ attribute, label, value }) => {
+    const values = docs.map((doc, i) => value(doc, results[i], ratings[i] ?? ratingStats(doc.user_reviews)))
+    const distinct = new Set(values.map((v) => JSON.stringify(v)))
+    return { attribute, label, values, differs: distinct.size > 1 }
+  })
+  return { products, rows, notFound }
+}
+
+// Load two to four products by sku, item_id, handle or variant sku and compare them.
+// Duplicates (including two variants of one product) are compared once.
+export async function compareProducts(
+  catalog: ProductCatalog,
+  ids: string[],
+  reviews?: ReviewService
+): Promise<ProductComparison> {
+  const requested = [...new Set(ids.map((id) => id.trim()).filter(Boolean))]
+  if (requested.length < MIN_COMPARED_PRODUCTS || requested.length > MAX_COMPARED_PRODUCTS) {
+    throw new Error(`Compare between ${MIN_COMPARED_PRODUCTS} and ${MAX_COMPARED_PRODUCTS} different products`)
+  }
+
+  const found = await Promise.all(requested.map((id) => catalog.findExact(id)))
+  const docs: Record<string, any>[] = []
+  const notFound: string[] = []
+  found.forEach((doc, i) => {
+    if (!doc) notFound.push(requested[i])
+    else if (!docs.some((d) => toProductResult(d).id === toProductResult(doc).id)) docs.push(doc)
+  })
+  if (docs.length < MIN_COMPARED_PRODUCTS) {
+    throw new Error(
+      notFound.length > 0
+        ? `Products not found: ${notFound.join(", ")}; look them up with item_lookup first`
+        : "Those ids are all the same product (or its variants)"
+    )
+  }
+  const ratings = reviews ? await Promise.all(docs.map((doc) => reviews.stats(toProductResult(doc).id))) : []
+  return buildComparison(docs, notFound, ratings)
+}
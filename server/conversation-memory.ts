@@ -0,0 +1,140 @@
+// Conversation memory: keeps the history sent to the chat model bounded. Tool results from older turns are trimmed
+// to the products they mentioned, and once the history passes a token threshold the older turns are folded into a
+// running summary. The most recent turns always stay verbatim.
+import { BaseMessage, HumanMessage, SystemMessage, ToolMessage } from "@langchain/core/messages"
+import { contentToText } from "./message-content"
+import { estimateTokens } from "./product-results"
+
+export interface ConversationMemoryOptions {
+  maxTokens: number     // Estimated history size (summary included) that triggers summarization; 0 disables it
+  keepTurns: number     // Most recent turns (a customer message and everything after it) kept verbatim
+  summaryTokens: number // Approximate ceiling on the running summary
+}
+
+// Read CONVERSATION_MAX_TOKENS, CONVERSATION_KEEP_TURNS and CONVERSATION_SUMMARY_TOKENS from the environment
+export function loadConversationMemoryOptions(env: NodeJS.ProcessEnv = process.env): ConversationMemoryOptions {
+  return {
+    maxTokens: Number(env.CONVERSATION_MAX_TOKENS ?? 8000),
+    keepTurns: Math.max(1, Number(env.CONVERSATION_KEEP_TURNS ?? 4)),
+    summaryTokens: Number(env.CONVERSATION_SUMMARY_TOKENS ?? 400),
+  }
+}
+
+// Split the history before the last `keepTurns` customer messages. Turns are never split, so every tool
+// result stays next to the assistant message that requested it.
+export function splitTurns(messages: BaseMessage[], keepTurns: number): { older: BaseMessage[]; recent: BaseMessage[] } {
+  const turnStarts = messages.flatMap((message, i) => (message.getType() === "human" ? [i] : []))
+  if (turnStarts.length <= keepTurns) return { older: [], recent: messages }
+  const boundary = turnStarts[turnStarts.length - keepTurns]
+  return { older: messages.slice(0, boundary), recent: messages.slice(boundary) }
+}
+
+// Messages not yet folded into the running summary: those after the message with id `summarizedThrough`
+export function unsummarizedMessages(messages: BaseMessage[], summarizedThrough: string): BaseMessage[] {
+  const i = summarizedThrough ? messages.findIndex((message) => message.id === summarizedThrough) : -1
+  return messages.slice(i + 1)
+}
+
+// The history sent to the chat model: the messages not yet summarized, with tool results from all but the last
+// `keepTurns` turns trimmed. Only the model input is trimmed; the checkpoint keeps every message as it was.
+export function modelHistory(
+  messages: BaseMessage[],
+  summarizedThrough: string,
+  keepTurns: number
+): { older: BaseMessage[]; recent: BaseMessage[] } {
+  const { older, recent } = splitTurns(unsummarizedMessages(messages, summarizedThrough), keepTurns)
+  return {
+    older: older.map((message) => (message.getType() === "tool" ? trimToolMessage(message as ToolMessage) : message)),
+    recent,
+  }
+}
+
+// Rough token estimate of the history plus the running summary
+export function estimateHistoryTokens(messages: BaseMessage[], summary = ""): number {
+  return messages.reduce(
+    (sum, message) => sum + estimateTokens(contentToText(message.content) + JSON.stringify((message as any).tool_calls ?? [])),
+    estimateTokens(summary)
+  )
+}
+
+// Products a tool result mentioned: item_lookup results, compared products, cart lines and order line items
+function productReferences(result: any): { id: string; title?: string }[] {
+  const refs = [
+    ...(Array.isArray(result.products) ? result.products.map((p: any) => ({ id: p.id, title: p.title })) : []),
+    ...(Array.isArray(result.results) ? result.results.map((r: any) => ({ id: r.id, title: r.title })) : []),
+    ...(Array.isArray(result.lines) ? result.lines.map((l: any) => ({ id: l.product_id, title: l.title })) : []),
+    ...(Array.isArray(result.line_items) ? result.line_items.map((l: any) => ({ id: l.sku, title: l.title })) : []),
+    ...(result.product_id ? [{ id: result.product_id, title: result.title }] : []), // product_reviews summaries
+  ]
+  return refs.filter((ref) => ref.id !== undefined)
+}
+
+// A tool result cut down to the products it mentioned (plus its count or error), e.g.
+// {"trimmed":true,"count":5,"products":[{"id":"SOFA-001","title":"Harbor Three-Seat Sofa"}, ...]}.
+// Returns the message unchanged when it is already trimmed or small enough.
+export function trimToolMessage(message: ToolMessage): ToolMessage {
+  const content = contentToText(message.content)
+  let trimmed: string
+  try {
+    const result = JSON.parse(content)
+    if (result.trimmed) return message
+    const orderNumber = result.order_number ?? result.orderNumber // order_lookup results and errors
+    trimmed = JSON.stringify({
+      trimmed: true,
+      ...(typeof result.count === "number" ? { count: result.count } : {}),
+      ...(result.error ? { error: result.error } : {}),
+      ...(orderNumber ? { order_number: orderNumber } : {}),
+      products: productReferences(result),
+    })
+  } catch {
+    trimmed = content.length > 200 ? `${content.slice(0, 200)}…` : content // Not JSON: keep the start
+  }
+  if (trimmed.length >= content.length) return message
+  // Same id and tool_call_id, so the model still sees it as the answer to its tool call
+  return new ToolMessage({ id: message.id, content: trimmed, tool_call_id: message.tool_call_id, name: message.name })
+}
+
+// One line per message for the summarizer
+function renderTurns(messages: BaseMessage[]): string {
+  return messages
+    .map((message) => {
+      const content = contentToText(message.content)
+      switch (message.getType()) {
+        case "human":
+          return `Customer: ${content}`
+        case "ai": {
+          const calls = ((message as any).tool_calls ?? []).map((call: any) => `${call.name}(${JSON.stringify(call.args)})`)
+          return [content && `Assistant: ${content}`, ...calls.map((call: string) => `Assistant called ${call}`)]
+            .filter(Boolean)
+            .join("\n")
+        }
+        case "tool":
+          return `Result of ${message.name}: ${content}`
+        default:
+          return ""
+      }
+    })
+    .filter(Boolean)
+    .join("\n")
+}
+
+// Prompt asking the chat model to merge older turns into the running summary
+export function summaryPrompt(summary: string, older: BaseMessage[], options: ConversationMemoryOptions): BaseMessage[] {
+  return [
+    new SystemMessage(
+      "You keep a running summary of a conversation between a customer and a furniture store's shopping assistant. " +
+        "Merge the existing summary and the new messages into one summary of at most " +
+        `${Math.round(options.summaryTokens * 0.75)} words. Keep what the customer is looking for (rooms, styles, budget, ` +
+        "sizes, colours), the products discussed with their ids, cart changes and order numbers. Drop small talk. " +
+        "Reply with the summary only."
+    ),
+    new HumanMessage(`Existing summary:\n${summary || "(none)"}\n\nNew messages:\n${renderTurns(older)}`),
+  ]
+}
+
+// Hard cap on the summary the model returned, in case it ignored the requested length
+export function clampSummary(text: string, options: ConversationMemoryOptions): string {
+  const summary = text.trim()
+  const maxChars = options.summaryTokens * 4
+  return summary.length > maxChars ? `${summary.slice(0, maxChars)}…` : summary
+}
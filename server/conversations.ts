@@ -0,0 +1,199 @@
+// Conversation history: transcripts, thread listing and deletion on top of the LangGraph checkpointer
+import { BaseMessage } from "@langchain/core/messages"
+import { MemorySaver } from "@langchain/langgraph"
+import { Collection, Db } from "mongodb"
+import type { Agent } from "./agent"
+import { contentToText } from "./message-content"
+
+// One entry of a thread's transcript, as returned by GET /chat/:threadId/messages
+export interface TranscriptMessage {
+  role: "user" | "assistant" | "tool"
+  content: string
+  toolCalls?: { name: string; args: Record<string, any> }[] // Tools the assistant decided to call
+  tool?: string                                              // Tool that produced this message
+}
+
+export interface ThreadSummary {
+  threadId: string
+  updatedAt?: string  // Time of the latest checkpoint
+  messageCount: number
+  preview: string     // Start of the first user message
+}
+
+// Which session owns a thread, and when the thread was last used
+export interface ThreadRecord {
+  thread_id: string
+  session_id: string
+  created_at: Date
+  updated_at: Date
+}
+
+// Tracks thread ownership and lists/deletes threads, which the checkpointer interface itself can't do
+export interface ThreadStore {
+  // Record activity on a thread, claiming it for the session if it is new
+  saveThread(threadId: string, sessionId: string): Promise<void>
+  // Session that owns the thread, or null for an unknown thread
+  ownerOf(threadId: string): Promise<string | null>
+  // A session's thread ids, most recently used first
+  listThreadIds(sessionId: string, limit: number, offset: number): Promise<{ threadIds: string[]; total: number }>
+  // Remove the thread with every checkpoint (and pending write); false if it didn't exist
+  deleteThread(threadId: string): Promise<boolean>
+}
+
+// Thread records in `threads`; checkpoints are the MongoDBSaver's default `checkpoints` and `checkpoint_writes`
+export class MongoThreadStore implements ThreadStore {
+  private threads: Collection<ThreadRecord>
+
+  constructor(
+    private db: Db,
+    private checkpointCollectionName = "checkpoints",
+    private checkpointWritesCollectionName = "checkpoint_writes"
+  ) {
+    this.threads = db.collection<ThreadRecord>("threads")
+  }
+
+  // One record per thread; listing is by session, newest first
+  async ensureIndexes(): Promise<void> {
+    await this.threads.createIndex({ thread_id: 1 }, { unique: true })
+    await this.threads.createIndex({ session_id: 1, updated_at: -1 })
+  }
+
+  async saveThread(threadId: string, sessionId: string): Promise<void> {
+    const now = new Date()
+    await this.threads.updateOne(
+      { thread_id: threadId },
+      { $set: { updated_at: now }, $setOnInsert: { session_id: sessionId, created_at: now } },
+      { upsert: true }
+    )
+  }
+
+  async ownerOf(threadId: string): Promise<string | null> {
+    const record = await this.threads.findOne({ thread_id: threadId })
+    return record?.session_id ?? null
+  }
+
+  async listThreadIds(sessionId: string, limit: number, offset: number): Promise<{ threadIds: string[]; total: number }> {
+    const [records, total] = await Promise.all([
+      this.threads.find({ session_id: sessionId }).sort({ updated_at: -1 }).skip(offset).limit(limit).toArray(),
+      this.threads.countDocuments({ session_id: sessionId }),
+    ])
+    return { threadIds: records.map((record) => record.thread_id), total }
+  }
+
+  async deleteThread(threadId: string): Promise<boolean> {
+    const { deletedCount } = await this.threads.deleteOne({ thread_id: threadId })
+    await this.db.collection(this.checkpointCollectionName).deleteMany({ thread_id: threadId })
+    await this.db.collection(this.checkpointWritesCollectionName).deleteMany({ thread_id: threadId })
+    return deletedCount > 0
+  }
+}
+
+// Thread records in memory, with checkpoints held by an offline MemorySaver
+export class InMemoryThreadStore implements ThreadStore {
+  private threads = new Map<string, ThreadRecord>()
+
+  constructor(private saver: MemorySaver) {}
+
+  async saveThread(threadId: string, sessionId: string): Promise<void> {
+    const now = new Date()
+    const record = this.threads.get(threadId)
+    if (record) {
+      record.updated_at = now
+    } else {
+      this.threads.set(threadId, { thread_id: threadId, session_id: sessionId, created_at: now, updated_at: now })
+    }
+  }
+
+  async ownerOf(threadId: string): Promise<string | null> {
+    return this.threads.get(threadId)?.session_id ?? null
+  }
+
+  async listThreadIds(sessionId: string, limit: number, offset: number): Promise<{ threadIds: string[]; total: number }> {
+    const records = [...this.threads.values()]
+      .filter((record) => record.session_id === sessionId)
+      .sort((a, b) => b.updated_at.getTime() - a.updated_at.getTime())
+    return { threadIds: records.slice(offset, offset + limit).map((record) => record.thread_id), total: records.length }
+  }
+
+  async deleteThread(threadId: string): Promise<boolean> {
+    if (!this.threads.delete(threadId)) return false
+    delete this.saver.storage[threadId]
+    // Pending writes are keyed by JSON.stringify([threadId, namespace, checkpointId])
+    for (const key of Object.keys(this.saver.writes)) {
+      if (JSON.parse(key)[0] === threadId) delete this.saver.writes[key]
+    }
+    return true
+  }
+}
+
+// Tool output is JSON for every tool; keep only a one-line outcome instead of the full payload
+function summarizeToolResult(content: string): string {
+  try {
+    const result = JSON.parse(content)
+    if (result.error) return `Error: ${result.error}`
+    if (typeof result.count === "number") return `${result.count} results`
+    return "Completed"
+  } catch {
+    return content.slice(0, 200)
+  }
+}
+
+// Convert checkpointed messages into a role-tagged transcript
+export function toTranscript(messages: BaseMessage[]): TranscriptMessage[] {
+  const transcript: TranscriptMessage[] = []
+  for (const message of messages) {
+    const content = contentToText(message.content)
+    switch (message.getType()) {
+      case "human":
+        transcript.push({ role: "user", content })
+        break
+      case "ai": {
+        const toolCalls = ((message as any).tool_calls ?? []).map(({ name, args }: any) => ({ name, args }))
+        transcript.push({ role: "assistant", content, ...(toolCalls.length > 0 ? { toolCalls } : {}) })
+        break
+      }
+      case "tool":
+        transcript.push({ role: "tool", tool: message.name, content: summarizeToolResult(content) })
+        break
+      // System prompts are rebuilt on every call and never checkpointed; anything else is skipped
+    }
+  }
+  return transcript
+}
+
+// A thread's full transcript, or null if the thread has no checkpoints. A long conversation also returns the
+// running summary the model is given in place of its older turns.
+export async function getTranscript(
+  agent: Agent,
+  threadId: string
+): Promise<{ messages: TranscriptMessage[]; summary?: string } | null> {
+  const state = await agent.getState({ configurable: { thread_id: threadId } })
+  const messages: BaseMessage[] | undefined = state.values.messages
+  if (!messages?.length) return null
+  return { messages: toTranscript(messages), ...(state.values.summary ? { summary: state.values.summary } : {}) }
+}
+
+// One page of a session's threads, most recently used first
+export async function listThreads(
+  agent: Agent,
+  store: ThreadStore,
+  sessionId: string,
+  limit: number,
+  offset: number
+): Promise<{ threads: ThreadSummary[]; total: number; limit: number; offset: number }> {
+  const { threadIds, total } = await store.listThreadIds(sessionId, limit, offset)
+  const threads = await Promise.all(
+    threadIds.map(async (threadId) => {
+      const state = await agent.getState({ configurable: { thread_id: threadId } })
+      const messages: BaseMessage[] = state.values.messages ?? []
+      const firstUserMessage = messages.find((message) => message.getType() === "human")
+      return {
+        threadId,
+        updatedAt: state.createdAt,
+        messageCount: messages.length,
+        preview: firstUserMessage ? contentToText(firstUserMessage.content).slice(0, 100) : "",
+      }
+    })
+  )
+  return { threads, total, limit, offset }
+}
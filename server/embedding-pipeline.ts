@@ -0,0 +1,157 @@
+// Shared embedding pipeline for the catalog scripts: token-aware batches embedded with embedDocuments,
+// a limited number of calls in flight, 429 backoff with jitter, and an optional sink for finished batches
+import { EmbeddingsInterface } from "@langchain/core/embeddings"
+import { estimateTokens } from "./product-results"
+
+export interface EmbeddingPipelineOptions {
+  maxBatchSize: number   // Texts per embedDocuments call
+  maxBatchTokens: number // Approximate tokens per call; a single longer text still goes alone
+  concurrency: number    // embedDocuments calls in flight at once
+  maxRetries: number     // Retries of a rate-limited (429) call before its batch fails
+  baseDelayMs: number    // First backoff delay; doubles on every retry, with full jitter
+  maxDelayMs: number
+}
+
+// Read EMBEDDING_BATCH_SIZE, EMBEDDING_BATCH_TOKENS, EMBEDDING_CONCURRENCY and EMBEDDING_MAX_RETRIES from the environment
+export function loadEmbeddingPipelineOptions(env: NodeJS.ProcessEnv = process.env): EmbeddingPipelineOptions {
+  return {
+    maxBatchSize: Number(env.EMBEDDING_BATCH_SIZE ?? 64),
+    maxBatchTokens: Number(env.EMBEDDING_BATCH_TOKENS ?? 8000),
+    concurrency: Number(env.EMBEDDING_CONCURRENCY ?? 4),
+    maxRetries: Number(env.EMBEDDING_MAX_RETRIES ?? 6),
+    baseDelayMs: 1000,
+    maxDelayMs: 60000,
+  }
+}
+
+export type Embedded<T> = T & { embedding: number[] }
+
+// Receives each batch as soon as it is embedded (e.g. a ProductSink from ingestion.ts)
+export interface EmbeddingSink<T> {
+  write(items: Embedded<T>[]): Promise<void>
+}
+
+// Totals across every run() of a pipeline
+export interface EmbeddingSummary {
+  total: number           // Items submitted
+  embedded: number        // Items embedded (and written, when there is a sink)
+  failed: number
+  batches: number         // embedDocuments calls that succeeded
+  retries: number         // Calls retried after a 429
+  estimatedTokens: number // Tokens sent, estimated at four characters per token
+  durationMs: number      // Time spent inside run()
+  itemsPerSecond: number
+  failures: { id: string; error: string }[]
+}
+
+interface PipelineConfig<T> {
+  embeddings: EmbeddingsInterface
+  text: (item: T) => string // Text to embed
+  id: (item: T) => string   // Identifies failed items in the summary
+  sink?: EmbeddingSink<T>
+  options?: EmbeddingPipelineOptions
+}
+
+function isRateLimited(error: any): boolean {
+  return error?.status === 429 || error?.response?.status === 429 || /\b429\b|rate limit/i.test(error?.message ?? "")
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+// Split items into batches of at most maxBatchSize texts and maxBatchTokens estimated tokens, keeping their order
+export function planBatches<T>(items: T[], text: (item: T) => string, options: EmbeddingPipelineOptions): T[][] {
+  const batches: T[][] = []
+  let batch: T[] = []
+  let tokens = 0
+  for (const item of items) {
+    const cost = estimateTokens(text(item))
+    if (batch.length > 0 && (batch.length >= options.maxBatchSize || tokens + cost > options.maxBatchTokens)) {
+      batches.push(batch)
+      batch = []
+      tokens = 0
+    }
+    batch.push(item)
+    tokens += cost
+  }
+  if (batch.length > 0) batches.push(batch)
+  return batches
+}
+
+export class EmbeddingPipeline<T> {
+  private options: EmbeddingPipelineOptions
+  private totals: Omit<EmbeddingSummary, "itemsPerSecond"> = {
+    total: 0,
+    embedded: 0,
+    failed: 0,
+    batches: 0,
+    retries: 0,
+    estimatedTokens: 0,
+    durationMs: 0,
+    failures: [],
+  }
+
+  constructor(private config: PipelineConfig<T>) {
+    this.options = config.options ?? loadEmbeddingPipelineOptions()
+  }
+
+  // Embed the items and hand each finished batch to the sink. Returns the items that were embedded
+  // (in completion order); a batch that still fails after its retries is recorded in the summary instead.
+  async run(items: T[]): Promise<Embedded<T>[]> {
+    const started = Date.now()
+    const batches = planBatches(items, this.config.text, this.options)
+    const results: Embedded<T>[] = []
+    this.totals.total += items.length
+
+    // A fixed number of workers take batches off the shared queue
+    let next = 0
+    const worker = async () => {
+      while (next < batches.length) {
+        const batch = batches[next++]
+        try {
+          const embedded = await this.embedBatch(batch)
+          await this.config.sink?.write(embedded)
+          results.push(...embedded)
+          this.totals.embedded += embedded.length
+        } catch (error: any) {
+          this.totals.failed += batch.length
+          const message = error?.message ?? String(error)
+          this.totals.failures.push(...batch.map((item) => ({ id: this.config.id(item), error: message })))
+        }
+      }
+    }
+    await Promise.all(Array.from({ length: Math.max(1, Math.min(this.options.concurrency, batches.length)) }, worker))
+
+    this.totals.durationMs += Date.now() - started
+    return results
+  }
+
+  summary(): EmbeddingSummary {
+    const { durationMs, embedded } = this.totals
+    return {
+      ...this.totals,
+      failures: [...this.totals.failures],
+      itemsPerSecond: durationMs > 0 ? Math.round((embedded / durationMs) * 1000 * 10) / 10 : 0,
+    }
+  }
+
+  private async embedBatch(batch: T[]): Promise<Embedded<T>[]> {
+    const texts = batch.map(this.config.text)
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const vectors = await this.config.embeddings.embedDocuments(texts)
+        if (vectors.length !== batch.length) {
+          throw new Error(`Expected ${batch.length} embeddings, got ${vectors.length}`)
+        }
+        this.totals.batches++
+        this.totals.estimatedTokens += texts.reduce((sum, text) => sum + estimateTokens(text), 0)
+        return batch.map((item, i) => ({ ...item, embedding: vectors[i] }))
+      } catch (error) {
+        if (!isRateLimited(error) || attempt >= this.options.maxRetries) throw error
+        // Full jitter: a random wait up to the exponential ceiling, so parallel workers don't retry in lockstep
+        const ceiling = Math.min(this.options.maxDelayMs, this.options.baseDelayMs * 2 ** attempt)
+        this.totals.retries++
+        await sleep(Math.random() * ceiling)
+      }
+    }
+  }
+}
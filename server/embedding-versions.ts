@@ -0,0 +1,196 @@
+// Versioned embeddings: every embedding model the catalog has been indexed with is a version with its own vector
+// field and Atlas vector index. The reindex command builds a new version next to the live one; which version the
+// server searches is one document in `search_config`, so switching to it and rolling back are single atomic updates.
+import { EmbeddingsInterface } from "@langchain/core/embeddings"
+import { Collection, Filter } from "mongodb"
+import { ACTIVE_PRODUCT_FILTER, VECTOR_FILTER_FIELDS, vectorIndexDefinition } from "./product-filters"
+import { ProviderConfig, ProviderName, createEmbeddings } from "./providers"
+
+export interface EmbeddingVersion {
+  version: number
+  field: string      // Vector field on each product: "embedding" for version 1, then "embedding_v2", ...
+  index: string      // Atlas vector index over that field: "vector_index", then "vector_index_v2", ...
+  provider: ProviderName
+  model: string
+  dimensions: number
+  created_at: Date
+}
+
+// The single `search_config` document
+export interface EmbeddingSettings {
+  _id: "embeddings"
+  active: EmbeddingVersion    // Searched by item_lookup and written by the catalog sync
+  previous?: EmbeddingVersion // What rollback returns to
+  pending?: EmbeddingVersion  // Being built by the reindex command, not yet searched
+  switched_at?: Date
+}
+
+// Field and index names of a version; version 1 keeps the original unversioned names
+export function versionNames(version: number): { field: string; index: string } {
+  return version === 1
+    ? { field: "embedding", index: "vector_index" }
+    : { field: `embedding_v${version}`, index: `vector_index_v${version}` }
+}
+
+// Version 1: the `embedding` field and `vector_index` written by seed and migrate before versions existed,
+// embedded with the configured model
+export function initialVersion(config: Pick<ProviderConfig, "embeddings">): EmbeddingVersion {
+  const { provider, model, dimensions } = config.embeddings
+  return { version: 1, ...versionNames(1), provider, model, dimensions, created_at: new Date(0) }
+}
+
+// Embedding model for searching (or writing) a version
+export function versionEmbeddings(version: EmbeddingModel): EmbeddingsInterface {
+  const { provider, model, dimensions } = version
+  return createEmbeddings({ embeddings: { provider, model, dimensions } })
+}
+
+// The embedding model of a version
+export type EmbeddingModel = Pick<EmbeddingVersion, "provider" | "model" | "dimensions">
+
+// Whether two versions were embedded with the same model (their vectors are comparable)
+export function sameModel(a: EmbeddingModel, b: EmbeddingModel): boolean {
+  return a.provider === b.provider && a.model === b.model && a.dimensions === b.dimensions
+}
+
+// ---- Vector fields and indexes of a version ----
+
+// Field recording which content_hash a version's vector was built from; written with the vector by reindex and sync.
+// A sync re-embeds the active version only, so the other versions' vectors of changed products show up as stale.
+export function vectorHashField(version: Pick<EmbeddingVersion, "field">): string {
+  return `${version.field}_hash`
+}
+
+// Every vector field, with its hash field, that versions 1 to `highest` may have left on products. Versions are
+// numbered in order and old vectors are never removed, so these are all the fields responses must leave out.
+export function vectorFields(highest: number): string[] {
+  return Array.from({ length: highest }, (_, i) => versionNames(i + 1).field).flatMap((field) => [
+    field,
+    vectorHashField({ field }),
+  ])
+}
+
+// Live products whose vector for this version is missing, or was built from text that has since changed.
+// Items seeded before content hashes were stored have none, so for them only a missing vector counts.
+export function staleVectorFilter(version: EmbeddingVersion): Filter<any> {
+  return {
+    ...ACTIVE_PRODUCT_FILTER,
+    $or: [
+      { [version.field]: { $exists: false } },
+      { content_hash: { $exists: true }, $expr: { $ne: [`$${vectorHashField(version)}`, "$content_hash"] } },
+    ],
+  }
+}
+
+// Create a version's vector index, or add any filter fields missing from an existing one
+export async function ensureVectorIndex(collection: Collection<any>, version: EmbeddingVersion): Promise<void> {
+  const definition = vectorIndexDefinition(version.dimensions, version.field)
+  const [existing]: any[] = await collection.listSearchIndexes(version.index).toArray()
+
+  if (existing) {
+    // Older indexes were created without filter fields
+    const fields = existing.latestDefinition?.fields ?? []
+    const missingFilters = VECTOR_FILTER_FIELDS.filter(
+      (path) => !fields.some((field: any) => field.type === "filter" && field.path === path)
+    )
+    if (missingFilters.length > 0) {
+      console.log(`Updating vector search index ${version.index} with filter fields: ${missingFilters.join(", ")}`)
+      await collection.updateSearchIndex(version.index, definition)
+    } else {
+      console.log(`Vector search index ${version.index} already exists`)
+    }
+    return
+  }
+
+  console.log(`Creating vector search index ${version.index}...`)
+  await collection.createSearchIndex({ name: version.index, type: "vectorSearch", definition })
+  console.log(`Successfully created vector search index ${version.index}`)
+}
+
+// Atlas builds search indexes asynchronously; queryable once the first build has finished
+export async function isIndexQueryable(collection: Collection<any>, name: string): Promise<boolean> {
+  const [index]: any[] = await collection.listSearchIndexes(name).toArray()
+  return index?.queryable === true
+}
+
+// ---- Which version is active ----
+
+export class EmbeddingVersionStore {
+  constructor(private collection: Collection<EmbeddingSettings>) {}
+
+  get(): Promise<EmbeddingSettings | null> {
+    return this.collection.findOne({ _id: "embeddings" })
+  }
+
+  // The active version; `fallback` (normally version 1) until the first reindex creates the settings
+  async active(fallback: EmbeddingVersion): Promise<EmbeddingVersion> {
+    return (await this.get())?.active ?? fallback
+  }
+
+  // Record the version a reindex is building; the active version is stored too if this is the first reindex
+  async setPending(pending: EmbeddingVersion, active: EmbeddingVersion): Promise<void> {
+    await this.collection.updateOne(
+      { _id: "embeddings" },
+      { $set: { pending }, $setOnInsert: { active } },
+      { upsert: true }
+    )
+  }
+
+  // Make the pending version active and keep the old one for rollback. Conditional on the pending version still
+  // being the one that was verified, so a concurrent reindex can't be switched to unverified. Returns false if not.
+  async activatePending(version: number): Promise<boolean> {
+    const result = await this.collection.updateOne({ _id: "embeddings", "pending.version": version }, [
+      { $set: { previous: "$active", active: "$pending", switched_at: "$$NOW" } },
+      { $unset: "pending" },
+    ])
+    return result.modifiedCount === 1
+  }
+
+  // Swap the active and previous versions. Conditional on `version` still being the previous one, the one whose
+  // coverage was checked. Returns the version now active, or null if the previous version has changed meanwhile.
+  async rollback(version: number): Promise<EmbeddingVersion | null> {
+    const settings = await this.collection.findOneAndUpdate(
+      { _id: "embeddings", "previous.version": version },
+      [{ $set: { active: "$previous", previous: "$active", switched_at: "$$NOW" } }],
+      { returnDocument: "after" }
+    )
+    return settings?.active ?? null
+  }
+}
+
+// How often a running server re-reads the active version, i.e. how long a switch or rollback takes to reach it
+export const ACTIVE_VERSION_REFRESH_MS = 30000
+
+// The version a server searches plus its query embedding model, re-read every `refreshMs`
+// so running servers follow a switch or rollback without a restart
+export class ActiveEmbeddingResolver {
+  private cached?: { version: EmbeddingVersion; embeddings: EmbeddingsInterface }
+  private highestVersion = 1 // Of the active, previous and pending versions
+  private checkedAt = 0
+
+  constructor(
+    private store: EmbeddingVersionStore,
+    private fallback: { version: EmbeddingVersion; embeddings: EmbeddingsInterface },
+    private refreshMs = ACTIVE_VERSION_REFRESH_MS
+  ) {}
+
+  async resolve(): Promise<{ version: EmbeddingVersion; embeddings: EmbeddingsInterface }> {
+    if (this.cached && Date.now() - this.checkedAt < this.refreshMs) return this.cached
+    const settings = await this.store.get()
+    const version = settings?.active ?? this.fallback.version
+    this.highestVersion = Math.max(version.version, settings?.previous?.version ?? 1, settings?.pending?.version ?? 1)
+    this.checkedAt = Date.now()
+    if (this.cached?.version.version !== version.version) {
+      // Reuse the configured embeddings when they are the version's model; otherwise create that model
+      const embeddings = sameModel(version, this.fallback.version) ? this.fallback.embeddings : versionEmbeddings(version)
+      if (this.cached) console.log(`Switched vector search to embedding version ${version.version} (${version.index})`)
+      this.cached = { version, embeddings }
+    }
+    return this.cached
+  }
+  // Vector fields of every version so far (see vectorFields), re-read along with the active version
+  async vectorFields(): Promise<string[]> {
+    await this.resolve()
+    return vectorFields(this.highestVersion)
+  }
+}
@@ -0,0 +1,109 @@
+// Typed API errors and the error envelope every route responds with
+import { NextFunction, Request, Response } from "express"
+
+export type ErrorCode =
+  | "VALIDATION_ERROR"   // Request body, params or query failed validation
+  | "UNAUTHORIZED"       // Missing or invalid session token
+  | "FORBIDDEN"          // Resource belongs to another session
+  | "NOT_FOUND"
+  | "CONFLICT"           // The request clashes with existing data (e.g. a second review of one product)
+  | "PAYLOAD_TOO_LARGE"
+  | "RATE_LIMITED"       // Too many requests (ours or the model provider's)
+  | "UPSTREAM_AUTH"      // The model provider rejected our credentials
+  | "UPSTREAM_ERROR"     // The model provider failed in some other way
+  | "AGENT_TIMEOUT"      // The agent run took longer than AGENT_TIMEOUT_MS
+  | "INTERNAL_ERROR"
+
+const STATUS_BY_CODE: Record<ErrorCode, number> = {
+  VALIDATION_ERROR: 400,
+  UNAUTHORIZED: 401,
+  FORBIDDEN: 403,
+  NOT_FOUND: 404,
+  CONFLICT: 409,
+  PAYLOAD_TOO_LARGE: 413,
+  RATE_LIMITED: 429,
+  UPSTREAM_AUTH: 502,
+  UPSTREAM_ERROR: 502,
+  AGENT_TIMEOUT: 504,
+  INTERNAL_ERROR: 500,
+}
+
+// Code for a client error status, for domain errors that are created with just a status
+export function codeForStatus(status: number): ErrorCode {
+  const codes: Record<number, ErrorCode> = {
+    401: "UNAUTHORIZED",
+    403: "FORBIDDEN",
+    404: "NOT_FOUND",
+    409: "CONFLICT",
+    413: "PAYLOAD_TOO_LARGE",
+    429: "RATE_LIMITED",
+  }
+  return codes[status] ?? (status >= 500 ? "INTERNAL_ERROR" : "VALIDATION_ERROR")
+}
+
+// Body of every error response: { error: { code, message, details?, retryAfter? } }
+export interface ErrorEnvelope {
+  error: {
+    code: ErrorCode
+    message: string
+    details?: unknown   // e.g. the failing fields of a VALIDATION_ERROR
+    retryAfter?: number // Seconds; also sent as the Retry-After header
+  }
+}
+
+// Error that knows how it should be reported to the client
+export class ApiError extends Error {
+  status: number
+  details?: unknown
+  retryAfter?: number
+
+  constructor(
+    public code: ErrorCode,
+    message: string,
+    options: { status?: number; details?: unknown; retryAfter?: number } = {}
+  ) {
+    super(message)
+    this.name = "ApiError"
+    this.status = options.status ?? STATUS_BY_CODE[code]
+    this.details = options.details
+    this.retryAfter = options.retryAfter
+  }
+}
+
+// Normalize anything thrown by a route into an ApiError
+export function toApiError(error: any): ApiError {
+  if (error instanceof ApiError) return error
+  // Errors raised by express.json() while reading the body
+  if (error?.type === "entity.too.large") {
+    return new ApiError("PAYLOAD_TOO_LARGE", "Request body is too large")
+  }
+  if (error?.type === "entity.parse.failed") {
+    return new ApiError("VALIDATION_ERROR", "Request body is not valid JSON")
+  }
+  return new ApiError("INTERNAL_ERROR", error?.message ?? String(error))
+}
+
+// The envelope for an error; internal error messages are not shown to clients
+export function toErrorEnvelope(error: ApiError): ErrorEnvelope {
+  return {
+    error: {
+      code: error.code,
+      message: error.code === "INTERNAL_ERROR" ? "Internal server error" : error.message,
+      ...(error.details !== undefined ? { details: error.details } : {}),
+      ...(error.retryAfter !== undefined ? { retryAfter: error.retryAfter } : {}),
+    },
+  }
+}
+
+// Central Express error middleware: register after every route
+export function errorHandler(err: any, req: Request, res: Response, next: NextFunction) {
+  if (res.headersSent) return next(err) // Too late to send an error response (e.g. an SSE stream)
+  const error = toApiError(err)
+  if (error.status >= 500) {
+    console.error(`Error handling ${req.method} ${req.path}:`, err)
+  }
+  if (error.retryAfter !== undefined) {
+    res.setHeader("Retry-After", String(error.retryAfter))
+  }
+  res.status(error.status).json(toErrorEnvelope(error))
+}
@@ -0,0 +1,165 @@
+// Local, deterministic stand-ins for the hosted models (no network, no API keys)
+import { CallbackManagerForLLMRun } from "@langchain/core/callbacks/manager"
+import { Embeddings } from "@langchain/core/embeddings"
+import { BaseChatModel, BaseChatModelParams } from "@langchain/core/language_models/chat_models"
+import { AIMessage, AIMessageChunk, BaseMessage } from "@langchain/core/messages"
+import { ChatGenerationChunk, ChatResult } from "@langchain/core/outputs"
+
+// Hash a token with 32-bit FNV-1a so the same word always lands in the same bucket
+function hashToken(token: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < token.length; i++) {
+    hash ^= token.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+// Embeddings built from hashed word counts: identical text gives identical vectors,
+// and texts that share words score higher under cosine similarity
+export class DeterministicEmbeddings extends Embeddings {
+  constructor(private readonly dimensions = 768) {
+    super({})
+  }
+
+  async embedDocuments(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => this.embed(text))
+  }
+
+  async embedQuery(text: string): Promise<number[]> {
+    return this.embed(text)
+  }
+
+  private embed(text: string): number[] {
+    const vector = new Array(this.dimensions).fill(0)
+    const tokens = text.toLowerCase().match(/[a-z0-9]+/g) ?? []
+    for (const token of tokens) {
+      const hash = hashToken(token)
+      // Low bits pick the bucket, the top bit picks the sign
+      vector[hash % this.dimensions] += hash & 0x80000000 ? -1 : 1
+    }
+    // Normalize to unit length (leave the zero vector for empty text)
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0))
+    return norm === 0 ? vector : vector.map((v) => v / norm)
+  }
+}
+
+// Pull a readable name out of a seeded item or a migrated Shopify product
+function productName(product: any): string | undefined {
+  return product?.item_name ?? product?.title ?? product?.metadata?.item_name ?? product?.metadata?.title
+}
+
+// Default policy of the scripted model: look products up, then summarize what the tool returned
+function defaultReply(messages: BaseMessage[], toolNames: string[]): AIMessage {
+  const last = messages[messages.length - 1]
+  const text = typeof last?.content === "string" ? last.content : JSON.stringify(last?.content ?? "")
+
+  // After a tool round-trip, describe the results
+  if (last?._getType() === "tool") {
+    let parsed: any = {}
+    try {
+      parsed = JSON.parse(text)
+    } catch {
+      return new AIMessage(text)
+    }
+    if (parsed.error) return new AIMessage(`Sorry, I couldn't search the inventory: ${parsed.error}`)
+    // Vector results are [document, score] tuples; text results are plain documents
+    const names = (parsed.results ?? [])
+      .map((result: any) => productName(Array.isArray(result) ? result[0] : result))
+      .filter(Boolean)
+    if (names.length === 0) return new AIMessage("I couldn't find any matching items in the inventory.")
+    return new AIMessage(`I found ${names.length} matching items: ${names.join(", ")}.`)
+  }
+
+  // A new customer question: search the inventory if the lookup tool is available
+  if (last?._getType() === "human" && toolNames.includes("item_lookup")) {
+    return new AIMessage({
+      content: "",
+      tool_calls: [{ name: "item_lookup", args: { query: text, n: 5 }, id: `call_${messages.length}`, type: "tool_call" }],
+    })
+  }
+
+  return new AIMessage(`You said: ${text}`)
+}
+
+// Rough token usage (four characters per token), so offline runs exercise the daily budget
+function estimateUsage(messages: BaseMessage[], reply: AIMessage) {
+  const chars = (content: unknown) => (typeof content === "string" ? content : JSON.stringify(content)).length
+  const input_tokens = Math.ceil(messages.reduce((sum, m) => sum + chars(m.content), 0) / 4)
+  const output_tokens = Math.ceil((chars(reply.content) + JSON.stringify(reply.tool_calls ?? []).length) / 4)
+  return { input_tokens, output_tokens, total_tokens: input_tokens + output_tokens }
+}
+
+export interface ScriptedChatModelFields extends BaseChatModelParams {
+  script?: AIMessage[] // Replies returned in order before falling back to the default policy
+}
+
+// Chat model for offline runs: plays back a script of replies (which may contain tool calls),
+// then falls back to calling item_lookup for questions and summarizing its results
+export class ScriptedChatModel extends BaseChatModel {
+  private script: AIMessage[]
+  private toolNames: string[] = []
+
+  constructor({ script = [], ...rest }: ScriptedChatModelFields = {}) {
+    super(rest)
+    this.script = [...script]
+  }
+
+  _llmType(): string {
+    return "fake-scripted"
+  }
+
+  // Remember which tools are available; the bound model shares this instance's script
+  bindTools(tools: { name: string }[]): this {
+    const bound = Object.create(this)
+    bound.toolNames = tools.map((t) => t.name)
+    return bound
+  }
+
+  private nextReply(messages: BaseMessage[]): AIMessage {
+    return this.script.shift() ?? defaultReply(messages, this.toolNames)
+  }
+
+  async _generate(messages: BaseMessage[]): Promise<ChatResult> {
+    const reply = this.nextReply(messages)
+    const message = new AIMessage({
+      content: reply.content,
+      tool_calls: reply.tool_calls,
+      usage_metadata: reply.usage_metadata ?? estimateUsage(messages, reply),
+    })
+    return { generations: [{ text: typeof message.content === "string" ? message.content : "", message }] }
+  }
+
+  // Stream the reply word by word so streamed runs see token deltas; tool calls arrive in one chunk
+  async *_streamResponseChunks(
+    messages: BaseMessage[],
+    _options: this["ParsedCallOptions"],
+    runManager?: CallbackManagerForLLMRun
+  ): AsyncGenerator<ChatGenerationChunk> {
+    const message = this.nextReply(messages)
+    const text = typeof message.content === "string" ? message.content : ""
+    for (const word of text.match(/\S+\s*/g) ?? []) {
+      const chunk = new ChatGenerationChunk({ text: word, message: new AIMessageChunk({ content: word }) })
+      yield chunk
+      await runManager?.handleLLMNewToken(word, undefined, undefined, undefined, undefined, { chunk })
+    }
+    if (message.tool_calls?.length) {
+      const chunk = new AIMessageChunk({
+        content: "",
+        tool_call_chunks: message.tool_calls.map((call, index) => ({
+          name: call.name,
+          args: JSON.stringify(call.args),
+          id: call.id,
+          index,
+          type: "tool_call_chunk" as const,
+        })),
+      })
+      yield new ChatGenerationChunk({ text: "", message: chunk })
+    }
+    // Usage arrives last, as with real providers
+    yield new ChatGenerationChunk({
+      text: "",
+      message: new AIMessageChunk({ content: "", usage_metadata: message.usage_metadata ?? estimateUsage(messages, message) }),
+    })
+  }
+}
@@ -0,0 +1,99 @@
+// Hybrid retrieval: vector search and full-text search run in parallel, merged with reciprocal rank fusion
+import { ProductCatalog, productKey } from "./catalog"
+import { ProductFilters } from "./product-filters"
+
+export type SearchMode = "hybrid" | "vector"
+
+export interface HybridSearchOptions {
+  mode: SearchMode
+  vectorWeight: number // Weight of the $vectorSearch ranking in the fused score
+  textWeight: number   // Weight of the full-text $search ranking in the fused score
+  rrfK: number         // RRF smoothing constant; larger values flatten the gap between ranks
+  candidates: number   // How many results to pull from each list per requested result
+}
+
+// Read tuning knobs from the environment (SEARCH_MODE, HYBRID_VECTOR_WEIGHT, ...)
+export function loadHybridSearchOptions(env: NodeJS.ProcessEnv = process.env): HybridSearchOptions {
+  return {
+    mode: env.SEARCH_MODE === "vector" ? "vector" : "hybrid",
+    vectorWeight: Number(env.HYBRID_VECTOR_WEIGHT ?? 1),
+    textWeight: Number(env.HYBRID_TEXT_WEIGHT ?? 1),
+    rrfK: Number(env.HYBRID_RRF_K ?? 60),
+    candidates: Number(env.HYBRID_CANDIDATES ?? 2),
+  }
+}
+
+export interface RankedList {
+  name: string                    // Label recorded in each result's `matchedBy`
+  weight: number
+  results: Record<string, any>[]  // Best match first
+}
+
+// Weighted reciprocal rank fusion: score(d) = sum over lists of weight / (k + rank)
+export function reciprocalRankFusion(lists: RankedList[], k = 60): Record<string, any>[] {
+  const fused = new Map<string, { doc: Record<string, any>; score: number; matchedBy: string[] }>()
+  for (const list of lists) {
+    list.results.forEach((doc, index) => {
+      const key = productKey(doc)
+      const entry = fused.get(key) ?? { doc, score: 0, matchedBy: [] }
+      entry.score += list.weight / (k + index + 1) // Ranks are 1-based
+      entry.matchedBy.push(list.name)
+      fused.set(key, entry)
+    })
+  }
+  return [...fused.values()]
+    .sort((a, b) => b.score - a.score)
+    .map(({ doc, score, matchedBy }) => ({ ...doc, score, matchedBy }))
+}
+
+// Queries that look like a single identifier (SKU, handle, item_id) are tried as exact matches first
+function looksLikeIdentifier(query: string): boolean {
+  return /^[A-Za-z0-9][A-Za-z0-9._\-\/]*$/.test(query.trim()) && /[\d\-_]/.test(query)
+}
+
+export interface HybridSearchResult {
+  searchType: "exact" | "hybrid" | "vector"
+  results: Record<string, any>[]
+}
+
+export async function hybridSearch(
+  catalog: ProductCatalog,
+  query: string,
+  n: number,
+  filters: ProductFilters,
+  options: HybridSearchOptions
+): Promise<HybridSearchResult> {
+  // Exact SKU/handle short-circuit: skip ranking entirely
+  if (looksLikeIdentifier(query)) {
+    const exact = await catalog.findExact(query.trim())
+    if (exact) return { searchType: "exact", results: [{ ...exact, score: 1, matchedBy: ["exact"] }] }
+  }
+
+  const candidates = Math.max(n, Math.ceil(n * options.candidates))
+  // Vector results come back as [document, score]; flatten them to plain product documents
+  const vectorSearch = catalog
+    .vectorSearch(query, candidates, filters)
+    .then((results) => results.map(([doc, score]) => ({ ...doc.metadata, embedding_text: doc.pageContent, score })))
+
+  if (options.mode === "vector") {
+    return { searchType: "vector", results: (await vectorSearch).slice(0, n) }
+  }
+
+  const [vectorResults, textResults] = await Promise.all([
+    vectorSearch,
+    catalog.keywordSearch(query, candidates, filters).catch((error) => {
+      // A missing text index shouldn't take search down; fall back to vector ranking alone
+      console.error("Full-text search failed, using vector results only:", error.message)
+      return [] as Record<string, any>[]
+    }),
+  ])
+
+  const fused = reciprocalRankFusion(
+    [
+      { name: "vector", weight: options.vectorWeight, results: vectorResults },
+      { name: "text", weight: options.textWeight, results: textResults },
+    ],
+    options.rrfK
+  )
+  return { searchType: "hybrid", results: fused.slice(0, n) }
+}
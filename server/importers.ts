@@ -0,0 +1,430 @@
+// Feed importers: Shopify products.json exports, Google Merchant Center XML/TSV feeds and CSV files with a
+// column mapping, read as product sources for the migrate and export scripts. Everything works on local files.
+import fs from "fs"
+import path from "path"
+import {
+  CsvProductSource,
+  JsonProductSource,
+  ProductSource,
+  RawProduct,
+  SqliteProductSource,
+  parseCsv,
+} from "./ingestion"
+import { ProductOption, ProductVariant, totalInventory } from "./variants"
+
+// ---- Shared helpers (pure) ----
+
+const ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", nbsp: " " }
+
+// Decode XML/HTML character references
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === "#") {
+      const code = entity[1].toLowerCase() === "x" ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10)
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match
+    }
+    return ENTITIES[entity.toLowerCase()] ?? match
+  })
+}
+
+// Plain text from an HTML description (Shopify body_html)
+export function stripHtml(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<(br|\/p|\/div|\/li|\/h\d)\b[^>]*>/gi, " ")
+      .replace(/<[^>]+>/g, "")
+  )
+    .replace(/\s+/g, " ")
+    .trim()
+}
+
+function toNumber(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === "") return undefined
+  const number = Number(value)
+  return Number.isFinite(number) ? number : undefined
+}
+
+// Options in first-seen value order, from the variants' option values
+export function optionsFromVariants(variants: ProductVariant[]): ProductOption[] {
+  const options = new Map<string, string[]>()
+  for (const variant of variants) {
+    for (const [name, value] of Object.entries(variant.options)) {
+      const values = options.get(name) ?? []
+      if (!values.includes(value)) values.push(value)
+      options.set(name, values)
+    }
+  }
+  return [...options].map(([name, values]) => ({ name, values }))
+}
+
+function unique(values: (string | undefined)[]): string[] {
+  return [...new Set(values.filter((value): value is string => !!value))]
+}
+
+// ---- Shopify products.json ----
+
+// The parts of a Shopify product we read. The Admin API export has tags as a comma-separated string and
+// inventory_quantity on each variant; the storefront /products.json has a tags array and `available` instead.
+interface ShopifyProduct {
+  id: number
+  title: string
+  handle: string
+  body_html?: string | null
+  vendor?: string
+  product_type?: string
+  tags?: string | string[]
+  options?: { name: string; position?: number; values?: string[] }[]
+  variants?: {
+    id: number
+    title: string
+    sku?: string | null
+    price: string | number
+    compare_at_price?: string | number | null
+    option1?: string | null
+    option2?: string | null
+    option3?: string | null
+    inventory_quantity?: number
+    available?: boolean
+    image_id?: number | null
+    barcode?: string | null
+  }[]
+  images?: { id: number; src: string; position?: number }[]
+  image?: { src: string } | null
+}
+
+export interface ShopifyImportOptions {
+  storeUrl?: string // e.g. "https://easymart.example.com", used to build product_url from the handle
+  currency?: string // products.json carries no currency
+}
+
+// Map one Shopify product to a raw product with its variants, options, images and inventory
+export function fromShopifyProduct(product: ShopifyProduct, options: ShopifyImportOptions = {}): RawProduct {
+  const images = [...(product.images ?? [])].sort((a, b) => (a.position ?? 0) - (b.position ?? 0))
+  const imageById = new Map(images.map((image) => [image.id, image.src]))
+  const optionNames = (product.options ?? [])
+    .sort((a, b) => (a.position ?? 0) - (b.position ?? 0))
+    .map((option) => option.name)
+
+  const variants: ProductVariant[] = (product.variants ?? []).map((variant) => {
+    const values = [variant.option1, variant.option2, variant.option3]
+    const variantOptions: Record<string, string> = {}
+    optionNames.forEach((name, i) => {
+      // Shopify gives single-variant products a placeholder "Title: Default Title" option
+      if (values[i] && values[i] !== "Default Title") variantOptions[name] = values[i]
+    })
+    const compareAt = toNumber(variant.compare_at_price)
+    const price = toNumber(variant.price) ?? 0
+    return {
+      sku: variant.sku || String(variant.id),
+      title: variant.title,
+      price,
+      ...(compareAt !== undefined && compareAt > price ? { compare_at_price: compareAt } : {}),
+      options: variantOptions,
+      ...(variant.inventory_quantity !== undefined ? { inventory_quantity: variant.inventory_quantity } : {}),
+      ...(variant.available !== undefined ? { available: variant.available } : {}),
+      ...(variant.image_id && imageById.has(variant.image_id) ? { image_url: imageById.get(variant.image_id) } : {}),
+      ...(variant.barcode ? { barcode: variant.barcode } : {}),
+    }
+  })
+
+  const productOptions = optionsFromVariants(variants)
+  const storeUrl = options.storeUrl?.replace(/\/$/, "")
+  return {
+    // A single-variant product is identified by its variant's sku; a multi-variant one by its handle
+    sku: (variants.length === 1 && variants[0].sku) || product.handle || String(product.id),
+    handle: product.handle,
+    title: product.title,
+    description: stripHtml(product.body_html ?? ""),
+    vendor: product.vendor,
+    // The lowest variant price is what the product is listed "from"
+    price: variants.length > 0 ? Math.min(...variants.map((v) => v.price)) : 0,
+    currency: options.currency,
+    image_url: images[0]?.src ?? product.image?.src,
+    product_url: storeUrl ? `${storeUrl}/products/${product.handle}` : undefined,
+    tags: product.tags,
+    search_content: product.product_type,
+    images: unique([...images.map((image) => image.src), product.image?.src]),
+    options: productOptions,
+    variants,
+    inventory_quantity: totalInventory(variants),
+  }
+}
+
+// A Shopify `products.json` export: { "products": [...] } from the Admin API or a storefront
+export class ShopifyProductsSource implements ProductSource {
+  constructor(private filePath: string, private options: ShopifyImportOptions = {}) {}
+
+  get description(): string {
+    return `Shopify products.json ${this.filePath}`
+  }
+
+  async read(): Promise<RawProduct[]> {
+    const data = JSON.parse(await fs.promises.readFile(this.filePath, "utf8"))
+    if (!Array.isArray(data?.products)) throw new Error(`${this.filePath} has no "products" array`)
+    return data.products.map((product: ShopifyProduct) => fromShopifyProduct(product, this.options))
+  }
+}
+
+// ---- Google Merchant Center feeds ----
+
+// One feed item: attribute name (without the g: prefix) to its values; additional_image_link may repeat
+export type MerchantItem = Record<string, string[]>
+
+// Items of an RSS 2.0 (<item>) or Atom (<entry>) Merchant Center feed
+export function parseMerchantXml(xml: string): MerchantItem[] {
+  const items: MerchantItem[] = []
+  for (const [, , body] of xml.matchAll(/<(item|entry)\b[^>]*>([\s\S]*?)<\/\1>/g)) {
+    const item: MerchantItem = {}
+    for (const [, name, value] of body.matchAll(/<(?:g:)?([A-Za-z_]+)\b[^>]*>([\s\S]*?)<\/(?:g:)?\1>/g)) {
+      const text = value.replace(/^\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*$/, "$1")
+      ;(item[name] ??= []).push(value === text ? decodeEntities(text).trim() : text.trim())
+    }
+    items.push(item)
+  }
+  return items
+}
+
+// Items of a tab-separated Merchant Center feed; list attributes such as additional_image_link are comma-separated
+export function parseMerchantTsv(tsv: string): MerchantItem[] {
+  const [header, ...lines] = tsv.split(/\r?\n/).filter((line) => line.trim() !== "")
+  if (!header) return []
+  const columns = header.split("\t").map((column) => column.replace(/^\uFEFF/, "").trim().replace(/^g:/, ""))
+  return lines.map((line) => {
+    const values = line.split("\t")
+    const item: MerchantItem = {}
+    columns.forEach((column, i) => {
+      const value = values[i]?.trim()
+      if (!value) return
+      item[column] = column === "additional_image_link" ? value.split(",").map((v) => v.trim()).filter(Boolean) : [value]
+    })
+    return item
+  })
+}
+
+// "15.00 USD" to { amount: 15, currency: "USD" }
+export function parseMerchantPrice(price: string | undefined): { amount?: number; currency?: string } {
+  const match = price?.match(/([\d.,]+)\s*([A-Z]{3})?/)
+  if (!match) return {}
+  return { amount: toNumber(match[1].replace(/,/g, "")), currency: match[2] }
+}
+
+// Variant attributes in a Merchant feed and the option names they become
+const MERCHANT_OPTIONS: Record<string, string> = {
+  color: "Color",
+  size: "Size",
+  material: "Material",
+  pattern: "Pattern",
+  age_group: "Age group",
+  gender: "Gender",
+}
+
+// Group feed items into products: items sharing an item_group_id are the variants of one product
+export function fromMerchantItems(items: MerchantItem[]): RawProduct[] {
+  const first = (item: MerchantItem, name: string) => item[name]?.[0]
+  const groups = new Map<string, MerchantItem[]>()
+  for (const item of items) {
+    const key = first(item, "item_group_id") ?? first(item, "id") ?? ""
+    groups.set(key, [...(groups.get(key) ?? []), item])
+  }
+
+  return [...groups].map(([key, group]) => {
+    const main = group[0]
+    const variants: ProductVariant[] = group.map((item) => {
+      const regular = parseMerchantPrice(first(item, "price"))
+      const sale = parseMerchantPrice(first(item, "sale_price"))
+      const options: Record<string, string> = {}
+      for (const [attribute, name] of Object.entries(MERCHANT_OPTIONS)) {
+        const value = first(item, attribute)
+        if (value) options[name] = value
+      }
+      const quantity = toNumber(first(item, "quantity") ?? first(item, "sell_on_google_quantity"))
+      const availability = first(item, "availability")?.toLowerCase().replace(/_/g, " ")
+      return {
+        sku: first(item, "id") ?? key,
+        title: Object.values(options).join(" / ") || (first(item, "title") ?? ""),
+        price: sale.amount ?? regular.amount ?? 0,
+        ...(sale.amount !== undefined && regular.amount !== undefined && regular.amount > sale.amount
+          ? { compare_at_price: regular.amount }
+          : {}),
+        options,
+        ...(quantity !== undefined ? { inventory_quantity: quantity } : {}),
+        ...(availability ? { available: availability === "in stock" } : {}),
+        ...(first(item, "image_link") ? { image_url: first(item, "image_link") } : {}),
+        ...(first(item, "gtin") ? { barcode: first(item, "gtin") } : {}),
+      }
+    })
+
+    // product_type is a breadcrumb such as "Home & Garden > Furniture > Chairs"
+    const tags = unique((first(main, "product_type") ?? "").split(">").map((part) => part.trim()))
+    const productOptions = optionsFromVariants(variants)
+    return {
+      sku: key,
+      title: first(main, "title") ?? "",
+      description: stripHtml(first(main, "description") ?? ""),
+      vendor: first(main, "brand"),
+      price: Math.min(...variants.map((v) => v.price)),
+      currency: parseMerchantPrice(first(main, "price")).currency,
+      product_url: first(main, "link"),
+      tags,
+      search_content: first(main, "google_product_category"),
+      images: unique(group.flatMap((item) => [...(item.image_link ?? []), ...(item.additional_image_link ?? [])])),
+      options: productOptions,
+      variants,
+      inventory_quantity: totalInventory(variants),
+    }
+  })
+}
+
+// A Google Merchant Center feed: RSS/Atom XML or tab-separated text
+export class MerchantFeedSource implements ProductSource {
+  constructor(private filePath: string) {}
+
+  get description(): string {
+    return `Google Merchant feed ${this.filePath}`
+  }
+
+  async read(): Promise<RawProduct[]> {
+    const text = await fs.promises.readFile(this.filePath, "utf8")
+    const items = text.trimStart().startsWith("<") ? parseMerchantXml(text) : parseMerchantTsv(text)
+    return fromMerchantItems(items)
+  }
+}
+
+// ---- CSV with a column mapping ----
+
+// Which CSV columns hold which product fields; every value is a column name. With `group_by`, consecutive
+// rows sharing that column's value (e.g. a Shopify CSV export's Handle) are the variants of one product,
+// and product fields are taken from the first row of the group that has them.
+export interface CsvColumnMapping {
+  sku: string
+  title: string
+  price: string
+  handle?: string
+  description?: string
+  vendor?: string
+  currency?: string
+  image_url?: string
+  product_url?: string
+  tags?: string
+  search_content?: string
+  group_by?: string
+  compare_at_price?: string
+  inventory_quantity?: string
+  barcode?: string
+  images?: string[]                // Image URL columns, main image first
+  options?: Record<string, string> // Option name to the column holding its value, e.g. { "Size": "Option1 Value" }
+  separator?: string               // Splits multi-value cells (tags, images); default ","
+}
+
+// Map CSV records to raw products using a column mapping
+export function fromMappedCsv(records: Record<string, string>[], mapping: CsvColumnMapping): RawProduct[] {
+  const separator = mapping.separator ?? ","
+  const cell = (record: Record<string, string>, column?: string) => (column ? record[column]?.trim() || undefined : undefined)
+  const firstCell = (group: Record<string, string>[], column?: string) =>
+    group.map((record) => cell(record, column)).find((value) => value !== undefined)
+  const split = (value?: string) => (value ? value.split(separator).map((v) => v.trim()).filter(Boolean) : [])
+
+  // Group consecutive rows, as in Shopify's CSV export where later rows carry only variant columns
+  const groups: Record<string, string>[][] = []
+  for (const record of records) {
+    const key = cell(record, mapping.group_by)
+    const current = groups[groups.length - 1]
+    if (mapping.group_by && current && key !== undefined && cell(current[0], mapping.group_by) === key) current.push(record)
+    else groups.push([record])
+  }
+
+  return groups.map((group) => {
+    const variants: ProductVariant[] = group
+      .filter((record) => cell(record, mapping.sku) || cell(record, mapping.price))
+      .map((record) => {
+        const options: Record<string, string> = {}
+        for (const [name, column] of Object.entries(mapping.options ?? {})) {
+          const value = cell(record, column)
+          if (value && value !== "Default Title") options[name] = value
+        }
+        const price = toNumber(cell(record, mapping.price)) ?? 0
+        const compareAt = toNumber(cell(record, mapping.compare_at_price))
+        const quantity = toNumber(cell(record, mapping.inventory_quantity))
+        return {
+          sku: cell(record, mapping.sku) ?? "",
+          title: Object.values(options).join(" / "),
+          price,
+          ...(compareAt !== undefined && compareAt > price ? { compare_at_price: compareAt } : {}),
+          options,
+          ...(quantity !== undefined ? { inventory_quantity: quantity } : {}),
+          ...(cell(record, mapping.barcode) ? { barcode: cell(record, mapping.barcode) } : {}),
+        }
+      })
+
+    const productOptions = optionsFromVariants(variants)
+    const price = firstCell(group, mapping.price)
+    return {
+      // A single-variant product is identified by its variant's sku; a multi-variant one by its group
+      sku: (variants.length <= 1 && variants[0]?.sku) || firstCell(group, mapping.group_by) || "",
+      handle: firstCell(group, mapping.handle),
+      title: firstCell(group, mapping.title) ?? "",
+      description: stripHtml(firstCell(group, mapping.description) ?? ""),
+      vendor: firstCell(group, mapping.vendor),
+      price: variants.length > 1 ? Math.min(...variants.map((v) => v.price)) : price ?? "",
+      currency: firstCell(group, mapping.currency),
+      image_url: firstCell(group, mapping.image_url),
+      product_url: firstCell(group, mapping.product_url),
+      tags: split(firstCell(group, mapping.tags)),
+      search_content: firstCell(group, mapping.search_content),
+      images: unique(group.flatMap((record) => (mapping.images ?? []).flatMap((column) => split(cell(record, column))))),
+      options: productOptions,
+      variants,
+      inventory_quantity: totalInventory(variants),
+    }
+  })
+}
+
+// A CSV file read through a column mapping (a JSON file holding a CsvColumnMapping)
+export class MappedCsvSource implements ProductSource {
+  constructor(private filePath: string, private mapping: CsvColumnMapping) {}
+
+  static load(filePath: string, mappingPath: string): MappedCsvSource {
+    const mapping: CsvColumnMapping = JSON.parse(fs.readFileSync(mappingPath, "utf8"))
+    for (const field of ["sku", "title", "price"] as const) {
+      if (!mapping[field]) throw new Error(`${mappingPath} must map the "${field}" column`)
+    }
+    return new MappedCsvSource(filePath, mapping)
+  }
+
+  get description(): string {
+    return `CSV ${this.filePath} (mapped)`
+  }
+
+  async read(): Promise<RawProduct[]> {
+    return fromMappedCsv(parseCsv(await fs.promises.readFile(this.filePath, "utf8")), this.mapping)
+  }
+}
+
+// ---- Choosing a source ----
+
+export interface SourceOptions extends ShopifyImportOptions {
+  mappingPath?: string // Column mapping for a CSV file
+}
+
+// Pick the source for a file: SQLite (.db/.sqlite/.sqlite3), a Merchant feed (.xml/.tsv), CSV (mapped when a
+// mapping is given), or JSON: a Shopify export when it holds { "products": [...] }, else an array of raw products
+export function createProductSource(filePath: string, options: SourceOptions = {}): ProductSource {
+  switch (path.extname(filePath).toLowerCase()) {
+    case ".db":
+    case ".sqlite":
+    case ".sqlite3":
+      return new SqliteProductSource(filePath)
+    case ".xml":
+    case ".tsv":
+      return new MerchantFeedSource(filePath)
+    case ".csv":
+      return options.mappingPath ? MappedCsvSource.load(filePath, options.mappingPath) : new CsvProductSource(filePath)
+    case ".json": {
+      // Look at the top level only to tell a Shopify export from a plain array
+      const isShopify = !fs.readFileSync(filePath, "utf8").trimStart().startsWith("[")
+      return isShopify ? new ShopifyProductsSource(filePath, options) : new JsonProductSource(filePath)
+    }
+    default:
+      throw new Error(`Unsupported product source ${filePath}: expected .db, .sqlite, .json, .csv, .xml or .tsv`)
+  }
+}
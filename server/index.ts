@@ -1,79 +1,405 @@
 // Load environment variables from .env file (must be first import)
 import 'dotenv/config'
 // Import Express framework for creating web server
-import express, { Express, Request, Response } from "express"
+import express, { Express, NextFunction, Request, Response } from "express"
 // Import MongoDB client for database connection
 import { MongoClient } from "mongodb"
 // Import our custom AI agent function
-import { callAgent } from './agent'
+import { callAgent, streamAgent, createAgent, createDefaultAgentDependencies, AgentDependencies, AgentStreamEvent } from './agent'
+// Import the model provider registry
+import { loadProviderConfig, requireProviderCredentials } from './providers'
+// Import offline mode helpers (fake models, in-memory catalog and checkpointer)
+import { isOfflineMode, createOfflineAgentDependencies } from './offline'
+// Import the typed error envelope and the central error middleware
+import { ApiError, errorHandler, toApiError, toErrorEnvelope } from './errors'
+// Import request schemas and the validation middleware
+import {
+  MAX_BODY_SIZE,
+  ProductListQueryParams,
+  cartItemBodySchema,
+  cartItemParamsSchema,
+  chatBodySchema,
+  productListQuerySchema,
+  productParamsSchema,
+  reviewBodySchema,
+  reviewListQuerySchema,
+  similarProductsQuerySchema,
+  threadListQuerySchema,
+  threadParamsSchema,
+  validateRequest,
+} from './request-schemas'
+// Import conversation history helpers (transcripts, thread listing)
+import { getTranscript, listThreads } from './conversations'
+// Import anonymous session helpers (signed tokens, random thread ids, ownership checks)
+import {
+  issueSessionToken,
+  loadSessionSecret,
+  newThreadId,
+  requireSession,
+  requireThreadOwner,
+  setSessionCookie,
+} from './sessions'
+// Import the per-IP/per-session rate limiter
+import { InMemoryRateLimitStore, loadRateLimitOptions, rateLimit } from './rate-limit'
+// Import the product projections shared with item_lookup (never includes embeddings)
+import { toProductResult, toProductSummary } from './product-results'
 
-// Create Express application instance
-const app: Express = express()
 // Import CORS middleware for handling cross-origin requests
 import cors from 'cors'
-// Enable CORS for all routes (allows frontend to call this API)
-app.use(cors())
-// Enable JSON parsing for incoming requests (req.body will contain parsed JSON)
-app.use(express.json())
 
-// Create MongoDB client using connection string from environment variables
-const client = new MongoClient(process.env.MONGODB_ATLAS_URI as string)
+// Build the Express app and every route around the given dependencies.
+// Exported so tests can exercise the API without a listening server.
+export function createApp(agentDependencies: AgentDependencies): Express {
+  // Create Express application instance
+  const app: Express = express()
+  // Enable CORS for all routes (allows frontend to call this API)
+  app.use(cors())
+  // Behind a load balancer or reverse proxy, trust that many hops so req.ip (used for rate limiting) is the client's IP
+  if (process.env.TRUST_PROXY) app.set('trust proxy', Number(process.env.TRUST_PROXY))
+  // Enable JSON parsing for incoming requests (req.body will contain parsed JSON); larger bodies are rejected
+  app.use(express.json({ limit: MAX_BODY_SIZE }))
 
-// Async function to initialize and start the server
-async function startServer() {
-  try {
-    // Establish connection to MongoDB Atlas
-    await client.connect()
-    // Ping MongoDB to verify connection is working
-    await client.db("admin").command({ ping: 1 })
-    // Log successful connection
-    console.log("You successfully connected to MongoDB!")
-
-    // Define root endpoint (GET /) - simple health check
-    app.get('/', (req: Request, res: Response) => {
-      // Send simple response to confirm server is running
-      res.send('LangGraph Agent Server')
+  // Build and compile the agent graph once; it is reused for every conversation thread
+  const agent = createAgent(agentDependencies)
+
+  // Every conversation belongs to the anonymous session that started it
+  const threads = agentDependencies.threads
+  const sessionSecret = loadSessionSecret()
+  const withSession = requireSession(sessionSecret)
+  const ownsThread = requireThreadOwner(threads)
+
+  // Limit how often one IP address or session may start sessions and send chat messages
+  const limitRate = rateLimit(agentDependencies.rateLimitStore ?? new InMemoryRateLimitStore(), loadRateLimitOptions())
+
+  // Request validation for each kind of route
+  const validChat = validateRequest({ body: chatBodySchema })
+  const validThreadChat = validateRequest({ params: threadParamsSchema, body: chatBodySchema })
+  const validThread = validateRequest({ params: threadParamsSchema })
+
+  // Define root endpoint (GET /) - simple health check
+  app.get('/', (req: Request, res: Response) => {
+    // Send simple response to confirm server is running
+    res.send('LangGraph Agent Server')
+  })
+
+  // Define endpoint for starting an anonymous session (POST /session)
+  // Returns a signed token for the Authorization: Bearer header and also sets it as a cookie
+  app.post('/session', limitRate, (req: Request, res: Response) => {
+    const { token } = issueSessionToken(sessionSecret)
+    setSessionCookie(res, token)
+    res.status(201).json({ token })
+  })
+
+  // Helper that runs the agent and streams its events to the client as Server-Sent Events
+  async function streamChat(req: Request, res: Response, next: NextFunction, threadId: string, message: string) {
+    try {
+      // Claim a new thread for the caller's session, or mark an existing one as used
+      await threads.saveThread(threadId, res.locals.sessionId)
+    } catch (error) {
+      return next(error) // Headers aren't sent yet, so the error middleware can still respond
+    }
+
+    // Switch the response into SSE mode and send headers right away
+    res.setHeader('Content-Type', 'text/event-stream')
+    res.setHeader('Cache-Control', 'no-cache')
+    res.setHeader('Connection', 'keep-alive')
+    res.flushHeaders()
+
+    // Write a single SSE frame: event name plus JSON payload
+    const send = (event: string, data: unknown) => {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+    }
+
+    // Stop the agent run if the client goes away before we finish
+    const controller = new AbortController()
+    res.on('close', () => {
+      if (!res.writableEnded) controller.abort()
+    })
+
+    try {
+      await streamAgent(agent, message, threadId, (event: AgentStreamEvent) => {
+        const { type, ...data } = event
+        send(type, data)
+      }, controller.signal, res.locals.sessionId)
+    } catch (error: any) {
+      // Headers are already sent, so report the failure as an SSE event carrying the error envelope
+      if (!controller.signal.aborted) {
+        console.error('Error streaming chat:', error)
+        send('error', toErrorEnvelope(toApiError(error)))
+      }
+    } finally {
+      res.end()
+    }
+  }
+
+  // Define streaming endpoint for starting new conversations (POST /chat/stream)
+  // Registered before /chat/:threadId so "stream" is not treated as a thread ID
+  app.post('/chat/stream', withSession, limitRate, validChat, async (req: Request, res: Response, next: NextFunction) => {
+    // Generate an unguessable thread ID owned by the caller's session
+    const threadId = newThreadId()
+    await streamChat(req, res, next, threadId, req.body.message)
+  })
+
+  // Define streaming endpoint for continuing existing conversations (POST /chat/:threadId/stream)
+  app.post('/chat/:threadId/stream', withSession, limitRate, validThreadChat, ownsThread, async (req: Request, res: Response, next: NextFunction) => {
+    await streamChat(req, res, next, req.params.threadId, req.body.message)
+  })
+
+  // Define endpoint for starting new conversations (POST /chat)
+  app.post('/chat', withSession, limitRate, validChat, async (req: Request, res: Response, next: NextFunction) => {
+    // Extract user message from request body
+    const initialMessage = req.body.message
+    // Generate an unguessable thread ID owned by the caller's session
+    const threadId = newThreadId()
+    // Log the incoming message for debugging
+    console.log(initialMessage)
+    try {
+      // Record the new thread as belonging to this session
+      await threads.saveThread(threadId, res.locals.sessionId)
+      // Call our AI agent with the message and new thread ID
+      const reply = await callAgent(agent, initialMessage, threadId, res.locals.sessionId)
+      // Send successful response with thread ID and AI response (plus any comparison table)
+      res.json({ threadId, ...reply })
+    } catch (error) {
+      // Hand agent errors (rate limits, timeouts, ...) to the error middleware
+      next(error)
+    }
+  })
+
+  // Define endpoint for continuing existing conversations (POST /chat/:threadId)
+  app.post('/chat/:threadId', withSession, limitRate, validThreadChat, ownsThread, async (req: Request, res: Response, next: NextFunction) => {
+    // Extract thread ID from URL parameters
+    const { threadId } = req.params
+    // Extract user message from request body
+    const { message } = req.body
+    try {
+      // Mark the thread as recently used
+      await threads.saveThread(threadId, res.locals.sessionId)
+      // Call AI agent with message and existing thread ID (continues conversation)
+      const reply = await callAgent(agent, message, threadId, res.locals.sessionId)
+      // Send AI response (no need to send threadId again since it's continuing)
+      res.json(reply)
+    } catch (error) {
+      // Hand agent errors (rate limits, timeouts, ...) to the error middleware
+      next(error)
+    }
+  })
+
+  // Define endpoint for reading a conversation's transcript (GET /chat/:threadId/messages)
+  app.get('/chat/:threadId/messages', withSession, validThread, ownsThread, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const transcript = await getTranscript(agent, req.params.threadId)
+      if (!transcript) throw new ApiError('NOT_FOUND', 'Conversation not found')
+      res.json({ threadId: req.params.threadId, ...transcript })
+    } catch (error) {
+      next(error)
+    }
+  })
+
+  // Define endpoint for deleting a conversation's checkpoints and cart (DELETE /chat/:threadId)
+  app.delete('/chat/:threadId', withSession, validThread, ownsThread, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const deleted = await threads.deleteThread(req.params.threadId)
+      if (!deleted) throw new ApiError('NOT_FOUND', 'Conversation not found')
+      await agentDependencies.cart?.clear(req.params.threadId)
+      res.status(204).end()
+    } catch (error) {
+      next(error)
+    }
+  })
+
+  // Define endpoint for listing the caller's conversations, most recent first (GET /threads?limit=20&offset=0)
+  app.get('/threads', withSession, validateRequest({ query: threadListQuerySchema }), async (req: Request, res: Response, next: NextFunction) => {
+    // limit and offset were coerced to numbers (with defaults) by the query schema
+    const { limit, offset } = req.query as unknown as { limit: number; offset: number }
+    try {
+      res.json(await listThreads(agent, threads, res.locals.sessionId, limit, offset))
+    } catch (error) {
+      next(error)
+    }
+  })
+
+  const preferences = agentDependencies.preferences
+
+  // Preference routes, when preferences are configured
+  if (preferences) {
+    // Define endpoint for viewing what the assistant remembers about the caller (GET /preferences)
+    app.get('/preferences', withSession, async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        // Null when nothing has been remembered yet
+        res.json({ preferences: await preferences.get(res.locals.sessionId) })
+      } catch (error) {
+        next(error)
+      }
+    })
+
+    // Define endpoint for erasing everything the assistant remembers about the caller (DELETE /preferences)
+    app.delete('/preferences', withSession, async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        await preferences.erase(res.locals.sessionId)
+        res.status(204).end()
+      } catch (error) {
+        next(error)
+      }
+    })
+  }
+
+  const cart = agentDependencies.cart
+
+  // Cart routes, when a cart service is configured
+  if (cart) {
+    // Define endpoint for reading a thread's cart (GET /cart/:threadId)
+    app.get('/cart/:threadId', withSession, validThread, ownsThread, async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        res.json(await cart.getCart(req.params.threadId))
+      } catch (error) {
+        next(error) // Cart errors carry their own status and code
+      }
+    })
+
+    // Define endpoint for adding a product to a thread's cart (POST /cart/:threadId)
+    // Body: { productId: sku or item_id, quantity?: number }
+    app.post('/cart/:threadId', withSession, validateRequest({ params: threadParamsSchema, body: cartItemBodySchema }), ownsThread, async (req: Request, res: Response, next: NextFunction) => {
+      const { productId, quantity } = req.body
+      try {
+        res.json(await cart.addItem(req.params.threadId, productId, quantity))
+      } catch (error) {
+        next(error) // Cart errors carry their own status and code
+      }
+    })
+
+    // Define endpoint for removing one product from a thread's cart (DELETE /cart/:threadId/items/:productId)
+    app.delete('/cart/:threadId/items/:productId', withSession, validateRequest({ params: cartItemParamsSchema }), ownsThread, async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        res.json(await cart.removeItem(req.params.threadId, req.params.productId))
+      } catch (error) {
+        next(error) // Cart errors carry their own status and code
+      }
+    })
+
+    // Define endpoint for emptying a thread's cart (DELETE /cart/:threadId)
+    app.delete('/cart/:threadId', withSession, validThread, ownsThread, async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        await cart.clear(req.params.threadId)
+        res.status(204).end()
+      } catch (error) {
+        next(error) // Cart errors carry their own status and code
+      }
     })
+  }
+
+  const catalog = agentDependencies.catalog
+
+  // Define endpoint for browsing the catalog (GET /products?q=&sort=&minPrice=&maxPrice=&vendor=&tags=a,b&inStock=&limit=24&offset=0)
+  // Public and read-only: no session needed
+  app.get('/products', validateRequest({ query: productListQuerySchema }), async (req: Request, res: Response, next: NextFunction) => {
+    // Numbers, booleans and the tag list were parsed by the query schema
+    const { q, sort, limit, offset, ...filters } = req.query as unknown as ProductListQueryParams
+    try {
+      const { products, total } = await catalog.list({
+        search: q,
+        filters,
+        sort: sort ?? (q ? 'relevance' : 'title_asc'),
+        limit,
+        offset,
+      })
+      res.json({ products: products.map(toProductSummary), total, limit, offset })
+    } catch (error) {
+      next(error)
+    }
+  })
+
+  // Define endpoint for one product by sku, handle or item_id (GET /products/:sku)
+  app.get('/products/:sku', validateRequest({ params: productParamsSchema }), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const product = await catalog.findExact(req.params.sku)
+      if (!product) throw new ApiError('NOT_FOUND', `No product ${req.params.sku} in the catalog`)
+      res.json({ product: toProductResult(product) })
+    } catch (error) {
+      next(error)
+    }
+  })
 
-    // Define endpoint for starting new conversations (POST /chat)
-    app.post('/chat', async (req: Request, res: Response) => {
-      // Extract user message from request body
-      const initialMessage = req.body.message
-      // Generate unique thread ID using current timestamp
-      const threadId = Date.now().toString()
-      // Log the incoming message for debugging
-      console.log(initialMessage)
+  // Define endpoint for products similar to one product, by its stored embedding (GET /products/:sku/similar?limit=6)
+  app.get('/products/:sku/similar', validateRequest({ params: productParamsSchema, query: similarProductsQuerySchema }), async (req: Request, res: Response, next: NextFunction) => {
+    const { limit } = req.query as unknown as { limit: number }
+    try {
+      const similar = await catalog.similar(req.params.sku, limit)
+      if (!similar) throw new ApiError('NOT_FOUND', `No product ${req.params.sku} in the catalog`)
+      res.json({ products: similar.map(toProductSummary) })
+    } catch (error) {
+      next(error)
+    }
+  })
+
+  const reviews = agentDependencies.reviews
+
+  // Review routes, when reviews are configured
+  if (reviews) {
+    // Define endpoint for a product's reviews, newest first, with its rating statistics (GET /products/:sku/reviews?limit=10&offset=0)
+    // Public and read-only: no session needed
+    app.get('/products/:sku/reviews', validateRequest({ params: productParamsSchema, query: reviewListQuerySchema }), async (req: Request, res: Response, next: NextFunction) => {
+      const { limit, offset } = req.query as unknown as { limit: number; offset: number }
       try {
-        // Call our AI agent with the message and new thread ID
-        const response = await callAgent(client, initialMessage, threadId)
-        // Send successful response with thread ID and AI response
-        res.json({ threadId, response })
+        res.json(await reviews.list(req.params.sku, limit, offset))
       } catch (error) {
-        // Log any errors that occur during agent execution
-        console.error('Error starting conversation:', error)
-        // Send error response with 500 status code
-        res.status(500).json({ error: 'Internal server error' })
+        next(error) // Review errors carry their own status and code
       }
     })
 
-    // Define endpoint for continuing existing conversations (POST /chat/:threadId)
-    app.post('/chat/:threadId', async (req: Request, res: Response) => {
-      // Extract thread ID from URL parameters
-      const { threadId } = req.params
-      // Extract user message from request body
-      const { message } = req.body
+    // Define endpoint for reviewing a product, once per session (POST /products/:sku/reviews)
+    // Body: { rating: 1-5, comment: string, author?: string }
+    app.post('/products/:sku/reviews', withSession, limitRate, validateRequest({ params: productParamsSchema, body: reviewBodySchema }), async (req: Request, res: Response, next: NextFunction) => {
       try {
-        // Call AI agent with message and existing thread ID (continues conversation)
-        const response = await callAgent(client, message, threadId)
-        // Send AI response (no need to send threadId again since it's continuing)
-        res.json({ response })
+        res.status(201).json({ review: await reviews.submit(req.params.sku, req.body, res.locals.sessionId) })
       } catch (error) {
-        // Log any errors that occur during agent execution
-        console.error('Error in chat:', error)
-        // Send error response with 500 status code
-        res.status(500).json({ error: 'Internal server error' })
+        next(error) // Review errors carry their own status and code
       }
     })
+  }
+
+  // Define endpoint for the vendor and tag counts behind the storefront's filters (GET /facets)
+  app.get('/facets', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      res.json(await catalog.facets())
+    } catch (error) {
+      next(error)
+    }
+  })
+
+  // Central error middleware: turns every error into the typed error envelope (must be registered last)
+  app.use(errorHandler)
+
+  return app
+}
+
+// Async function to initialize and start the server
+async function startServer() {
+  // Create MongoDB client using connection string from environment variables (not needed offline)
+  const client = isOfflineMode() ? null : new MongoClient(process.env.MONGODB_ATLAS_URI as string)
+  try {
+    let agentDependencies: AgentDependencies
+    if (client) {
+      // Establish connection to MongoDB Atlas
+      await client.connect()
+      // Ping MongoDB to verify connection is working
+      await client.db("admin").command({ ping: 1 })
+      // Log successful connection
+      console.log("You successfully connected to MongoDB!")
+
+      // Resolve which chat/embedding providers to use (the dependencies check the embeddings fit the vector index)
+      const providerConfig = loadProviderConfig()
+      requireProviderCredentials(providerConfig)
+      agentDependencies = await createDefaultAgentDependencies(client, providerConfig)
+      console.log(`Using chat model ${providerConfig.chat.provider}/${providerConfig.chat.model}`)
+    } else {
+      // Offline mode: scripted model, in-memory catalog and checkpointer, no network
+      agentDependencies = createOfflineAgentDependencies()
+      console.log("Running in offline mode (fake models, in-memory data)")
+    }
+
+    // Build the API around the dependencies
+    const app = createApp(agentDependencies)
 
     // Get port from environment variable or default to 8000
     const PORT = process.env.PORT || 8000
@@ -90,5 +416,5 @@ async function startServer() {
   }
 }
 
-// Start the server (entry point of the application)
-startServer()
\ No newline at end of file
+// Start the server when run directly (entry point of the application), not when imported by tests
+if (require.main === module) startServer()
\ No newline at end of file
@@ -0,0 +1,355 @@
+// Catalog ingestion shared by the migrate and export scripts: product types, pure transforms,
+// sources (SQLite, JSON, CSV) and sinks (MongoDB, JSON file, NDJSON stream)
+import Database from "better-sqlite3"
+import { AnyBulkWriteOperation, Collection } from "mongodb"
+import { createHash } from "crypto"
+import fs from "fs"
+import path from "path"
+import { ProductOption, ProductVariant, describeVariants, isVariantInStock, productVariants, tracksStock } from "./variants"
+import { EmbeddingVersion, vectorHashField, versionNames } from "./embedding-versions"
+
+// A product as it comes out of a source, before transformation. easymart.db columns; JSON and CSV
+// files use the same names. CSV values are all strings, and tags may be a JSON array or comma-separated.
+// The feed importers (importers.ts) also fill in images, options, variants and inventory.
+export interface RawProduct {
+  sku: string
+  handle?: string
+  title: string
+  description?: string
+  vendor?: string
+  price: number | string
+  currency?: string
+  image_url?: string
+  product_url?: string
+  tags?: string | string[]
+  search_content?: string
+  images?: string[]           // Every image URL, main image first
+  options?: ProductOption[]
+  variants?: ProductVariant[]
+  inventory_quantity?: number // Total across variants
+}
+
+// MongoDB document structure for products in `inventory_database.items`
+export interface MongoProduct {
+  sku: string
+  handle: string
+  title: string
+  description: string
+  vendor: string
+  price: number
+  currency: string
+  image_url: string
+  product_url: string
+  tags: string[]
+  search_content: string
+  images?: string[]
+  options?: ProductOption[]
+  variants: ProductVariant[] // At least one; a source without variants gets a default one (see variants.ts)
+  inventory_quantity?: number
+  in_stock?: boolean     // Only set when the source reports inventory or availability
+  embedding_text: string // Comprehensive searchable summary
+  content_hash: string   // Hash of embedding_text; stored only together with the embedding generated from it
+  embedding?: number[]   // 768-dimensional vector (added during embedding generation)
+  deleted?: boolean      // Set by the catalog sync when the product disappears from its source
+  deleted_at?: Date
+  synced_at?: Date
+}
+
+// ---- Transforms (pure) ----
+
+// Tags as stored in easymart.db: a JSON array, a single JSON value, or a comma-separated list
+export function parseTags(tags: RawProduct["tags"]): string[] {
+  if (Array.isArray(tags)) return tags.map(String)
+  if (!tags) return []
+  try {
+    const parsed = JSON.parse(tags)
+    return Array.isArray(parsed) ? parsed.map(String) : [String(parsed)]
+  } catch {
+    return tags
+      .split(",")
+      .map((tag) => tag.trim())
+      .filter((tag) => tag.length > 0)
+  }
+}
+
+// Comprehensive text for embedding and search, including the variants and their stock when there is a choice
+// or stock is known (products without either keep the text, and so the embedding, they had before variants)
+export function generateEmbeddingText(product: RawProduct, tags: string[]): string {
+  const basicInfo = `${product.title} ${product.description || ""} from ${product.vendor}`
+  const pricing = `Price: ${product.price} ${product.currency}`
+  const tagText = tags.length > 0 ? `Tags: ${tags.join(", ")}` : ""
+  const searchContent = product.search_content || ""
+  const variantText = describeVariants(productVariants(product), product.currency)
+
+  const text = `${basicInfo}. ${pricing}. ${tagText}. ${searchContent}`.trim()
+  return variantText ? `${text.replace(/\.$/, "")}. ${variantText}.` : text
+}
+
+// Hash of the text an embedding is generated from; a product is re-embedded only when it changes
+export function contentHash(embeddingText: string): string {
+  return createHash("sha256").update(embeddingText).digest("hex")
+}
+
+// Why a raw product can't be ingested, or null if it can
+export function validateRawProduct(product: RawProduct): string | null {
+  if (!product.sku || !String(product.sku).trim()) return "missing sku"
+  if (!product.title || !String(product.title).trim()) return "missing title"
+  if (product.price === undefined || product.price === "" || !Number.isFinite(Number(product.price))) return "invalid price"
+  return null
+}
+
+// Whether a product can be bought: from its inventory count, else from its variants' stock
+export function inStock(product: RawProduct): boolean | undefined {
+  if (product.inventory_quantity !== undefined) return product.inventory_quantity > 0
+  const variants = product.variants ?? []
+  return tracksStock(variants) ? variants.some(isVariantInStock) : undefined
+}
+
+// Transform a raw product to the MongoDB schema
+export function transformProduct(product: RawProduct): MongoProduct {
+  const tags = parseTags(product.tags)
+  const embedding_text = generateEmbeddingText(product, tags)
+  const in_stock = inStock(product)
+  const sku = String(product.sku).trim()
+  const price = Number(product.price)
+
+  return {
+    sku,
+    handle: product.handle || "",
+    title: product.title,
+    description: product.description || "",
+    vendor: product.vendor || "",
+    price,
+    currency: product.currency || "",
+    image_url: product.image_url || product.images?.[0] || "",
+    product_url: product.product_url || "",
+    tags,
+    search_content: product.search_content || "",
+    variants: productVariants({ ...product, sku, price }),
+    // Feed-only fields are left out entirely for sources without them
+    ...(product.images?.length ? { images: product.images } : {}),
+    ...(product.options?.length ? { options: product.options } : {}),
+    ...(product.inventory_quantity !== undefined ? { inventory_quantity: product.inventory_quantity } : {}),
+    ...(in_stock !== undefined ? { in_stock } : {}),
+    embedding_text,
+    content_hash: contentHash(embedding_text),
+  }
+}
+
+// Sort by sku, so a sync can checkpoint how far it got
+export function sortBySku<T extends { sku: string }>(products: T[]): T[] {
+  return [...products].sort((a, b) => (a.sku < b.sku ? -1 : a.sku > b.sku ? 1 : 0))
+}
+
+// Parse CSV text (RFC 4180: quoted fields may hold commas, newlines and "" escapes) into one record per row,
+// keyed by the header row
+export function parseCsv(text: string): Record<string, string>[] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ""
+  let quoted = false
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ",") {
+      row.push(field)
+      field = ""
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ""
+    } else {
+      field += char
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  const [header, ...records] = rows.filter((r) => r.some((value) => value !== ""))
+  if (!header) return []
+  // Excel prefixes the first column name with a byte order mark
+  const columns = header.map((column) => column.replace(/^\uFEFF/, "").trim())
+  return records.map((values) => Object.fromEntries(columns.map((column, i) => [column, values[i] ?? ""])))
+}
+
+// Value of a `--name value` option passed to the migrate and export scripts
+export function argValue(name: string, argv: string[] = process.argv): string | undefined {
+  const i = argv.indexOf(`--${name}`)
+  return i >= 0 ? argv[i + 1] : undefined
+}
+
+// ---- Sources ----
+
+export interface ProductSource {
+  description: string // For log output, e.g. "SQLite easymart.db"
+  read(): Promise<RawProduct[]>
+}
+
+// The `products` table of a SQLite database such as easymart.db
+export class SqliteProductSource implements ProductSource {
+  constructor(private dbPath: string) {}
+
+  get description(): string {
+    return `SQLite ${this.dbPath}`
+  }
+
+  async read(): Promise<RawProduct[]> {
+    const db = new Database(this.dbPath, { readonly: true })
+    try {
+      const query = `SELECT sku, handle, title, description, vendor, price, currency,
+                            image_url, product_url, tags, search_content
+                     FROM products`
+      return db.prepare(query).all() as RawProduct[]
+    } finally {
+      db.close()
+    }
+  }
+}
+
+// A JSON file holding an array of raw products
+export class JsonProductSource implements ProductSource {
+  constructor(private filePath: string) {}
+
+  get description(): string {
+    return `JSON ${this.filePath}`
+  }
+
+  async read(): Promise<RawProduct[]> {
+    const products = JSON.parse(await fs.promises.readFile(this.filePath, "utf8"))
+    if (!Array.isArray(products)) throw new Error(`${this.filePath} must contain a JSON array of products`)
+    return products
+  }
+}
+
+// A CSV file with a header row naming the RawProduct fields
+export class CsvProductSource implements ProductSource {
+  constructor(private filePath: string) {}
+
+  get description(): string {
+    return `CSV ${this.filePath}`
+  }
+
+  async read(): Promise<RawProduct[]> {
+    return parseCsv(await fs.promises.readFile(this.filePath, "utf8")) as unknown as RawProduct[]
+  }
+}
+
+// Read a source and transform every valid product; invalid rows are skipped and reported
+export async function loadProducts(source: ProductSource): Promise<{ products: MongoProduct[]; skipped: { row: number; reason: string }[] }> {
+  const products: MongoProduct[] = []
+  const skipped: { row: number; reason: string }[] = []
+  ;(await source.read()).forEach((raw, i) => {
+    const reason = validateRawProduct(raw)
+    if (reason) skipped.push({ row: i + 1, reason })
+    else products.push(transformProduct(raw))
+  })
+  return { products, skipped }
+}
+
+// ---- Sinks ----
+
+// Receives transformed products in batches (the embedding pipeline calls write() as batches finish)
+export interface ProductSink {
+  write(products: MongoProduct[]): Promise<void>
+  close(): Promise<void>
+}
+
+// Upsert one product by sku; a product without an embedding keeps the one already stored.
+// The embedding is stored in the active embedding version's field (see embedding-versions.ts), together with the
+// content_hash it was built from, so reindex verify can tell current vectors from stale ones.
+export function upsertOperation(
+  product: MongoProduct,
+  syncedAt: Date,
+  version: Pick<EmbeddingVersion, "field"> = versionNames(1)
+): AnyBulkWriteOperation<MongoProduct> {
+  const { embedding, ...fields } = product
+  const vector = embedding ? { [version.field]: embedding, [vectorHashField(version)]: product.content_hash } : {}
+  return {
+    updateOne: {
+      filter: { sku: product.sku },
+      update: {
+        $set: { ...fields, ...vector, synced_at: syncedAt },
+        // A product that comes back after being soft-deleted is live again
+        $unset: { deleted: "", deleted_at: "" },
+      },
+      upsert: true,
+    },
+  }
+}
+
+// Upserts each batch into the products collection with one unordered bulkWrite
+export class MongoProductSink implements ProductSink {
+  constructor(
+    private collection: Collection<MongoProduct>,
+    private syncedAt = new Date(),
+    private version: Pick<EmbeddingVersion, "field"> = versionNames(1)
+  ) {}
+
+  async write(products: MongoProduct[]): Promise<void> {
+    if (products.length === 0) return
+    const operations = products.map((p) => upsertOperation(p, this.syncedAt, this.version))
+    await this.collection.bulkWrite(operations, { ordered: false })
+  }
+
+  async close(): Promise<void> {}
+}
+
+// Collects every product and writes them as one pretty-printed JSON array on close (for Compass imports)
+export class JsonFileSink implements ProductSink {
+  private products: MongoProduct[] = []
+
+  constructor(private filePath: string) {}
+
+  async write(products: MongoProduct[]): Promise<void> {
+    this.products.push(...products)
+  }
+
+  async close(): Promise<void> {
+    await fs.promises.writeFile(this.filePath, JSON.stringify(this.products, null, 2))
+  }
+}
+
+// Streams one JSON document per line as batches arrive (for mongoimport or large catalogs)
+export class NdjsonSink implements ProductSink {
+  private stream: fs.WriteStream
+
+  constructor(filePath: string) {
+    this.stream = fs.createWriteStream(filePath)
+  }
+
+  async write(products: MongoProduct[]): Promise<void> {
+    const chunk = products.map((p) => JSON.stringify(p)).join("\n")
+    if (!chunk) return
+    // Respect backpressure so a big catalog isn't buffered in memory
+    if (!this.stream.write(chunk + "\n")) {
+      await new Promise<void>((resolve) => this.stream.once("drain", () => resolve()))
+    }
+  }
+
+  close(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.stream.once("error", reject)
+      this.stream.end(() => resolve())
+    })
+  }
+}
+
+// Pick the file sink by extension: .ndjson/.jsonl streams, anything else is one JSON array
+export function createFileSink(filePath: string): ProductSink {
+  const extension = path.extname(filePath).toLowerCase()
+  return extension === ".ndjson" || extension === ".jsonl" ? new NdjsonSink(filePath) : new JsonFileSink(filePath)
+}
@@ -0,0 +1,11 @@
+// Plain text of LangChain message contents, shared by the agent, conversation memory and transcripts.
+// Imports nothing from the project, so any module can use it without an import cycle.
+
+// Extract plain text from a message or chunk content (string or array of content parts)
+export function contentToText(content: any): string {
+  if (typeof content === "string") return content
+  if (Array.isArray(content)) {
+    return content.map((part) => (typeof part === "string" ? part : part?.text ?? "")).join("")
+  }
+  return ""
+}
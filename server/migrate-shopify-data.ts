@@ -1,301 +1,162 @@
-// Migration script to transfer Shopify products from SQLite to MongoDB with vector embeddings
-import Database from "better-sqlite3"
+// Migration CLI: sync products from easymart.db (or a JSON/CSV file or product feed) into MongoDB with vector embeddings.
+// The sync is incremental (see catalog-sync.ts): only changed products are re-embedded, products missing from
+// the source are soft-deleted, and an interrupted run resumes from its checkpoint.
+//   npm run migrate [-- --source <file> [--mapping mapping.json] [--store-url <url>] [--currency USD]] [-- --restart]
 import { MongoClient } from "mongodb"
-import { GoogleGenerativeAIEmbeddings } from "@langchain/google-genai"
-import { MongoDBAtlasVectorSearch } from "@langchain/mongodb"
+import {
+  createEmbeddings,
+  loadProviderConfig,
+  requireProviderCredentials,
+  verifyEmbeddingDimensions,
+} from "./providers"
+import { TEXT_INDEX_NAME, textSearchIndexDefinition } from "./catalog"
+import {
+  EmbeddingVersion,
+  EmbeddingVersionStore,
+  ensureVectorIndex,
+  initialVersion,
+  sameModel,
+  versionEmbeddings,
+} from "./embedding-versions"
+import { isOfflineMode, offlineStorePath } from "./offline"
+import { argValue, loadProducts } from "./ingestion"
+import { createProductSource } from "./importers"
+import { SyncResult, syncToMongo, syncToOfflineStore } from "./catalog-sync"
 import path from "path"
 import "dotenv/config"
 
-// SQLite product structure from easymart.db
-interface SQLiteProduct {
-  sku: string
-  handle: string
-  title: string
-  description: string
-  vendor: string
-  price: number
-  currency: string
-  image_url: string
-  product_url: string
-  tags: string // JSON string or comma-separated
-  search_content: string
-}
-
-// MongoDB document structure for products
-interface MongoProduct {
-  sku: string
-  handle: string
-  title: string
-  description: string
-  vendor: string
-  price: number
-  currency: string
-  image_url: string
-  product_url: string
-  tags: string[]
-  search_content: string
-  embedding_text: string // Comprehensive searchable summary
-  embedding?: number[] // 768-dimensional vector (added during embedding generation)
-}
-
-// Utility function to handle API rate limits with exponential backoff
-async function retryWithBackoff<T>(
-  fn: () => Promise<T>,
-  maxRetries = 3
-): Promise<T> {
-  for (let attempt = 1; attempt <= maxRetries; attempt++) {
-    try {
-      return await fn()
-    } catch (error: any) {
-      if (error.status === 429 && attempt < maxRetries) {
-        const delay = Math.min(1000 * Math.pow(2, attempt), 30000)
-        console.log(`Rate limit hit. Retrying in ${delay / 1000} seconds...`)
-        await new Promise((resolve) => setTimeout(resolve, delay))
-        continue
-      }
-      throw error
-    }
-  }
-  throw new Error("Max retries exceeded")
-}
-
-// Extract products from SQLite database
-function extractProductsFromSQLite(dbPath: string): SQLiteProduct[] {
-  console.log(`Opening SQLite database: ${dbPath}`)
-  const db = new Database(dbPath, { readonly: true })
-
+// Create the active embedding version's vector index if it doesn't exist (or add missing filter fields)
+async function ensureVectorSearchIndex(client: MongoClient, version: EmbeddingVersion): Promise<void> {
   try {
-    // Query all products from the database
-    const query = `SELECT sku, handle, title, description, vendor, price, currency, 
-                          image_url, product_url, tags, search_content 
-                   FROM products`
-    const products = db.prepare(query).all() as SQLiteProduct[]
-
-    console.log(`Extracted ${products.length} products from SQLite`)
-    return products
+    // Vector field plus the filter fields used by item_lookup's structured filters
+    await ensureVectorIndex(client.db("inventory_database").collection("items"), version)
   } catch (error) {
-    console.error("Error reading from SQLite:", error)
-    throw error
-  } finally {
-    db.close()
-  }
-}
-
-// Transform SQLite product to MongoDB schema
-function transformProductToMongoSchema(sqliteProduct: SQLiteProduct): MongoProduct {
-  // Parse tags - handle both JSON array and comma-separated strings
-  let tags: string[] = []
-  if (sqliteProduct.tags) {
-    try {
-      // Try parsing as JSON first
-      tags = JSON.parse(sqliteProduct.tags)
-      if (!Array.isArray(tags)) {
-        // If parsed but not an array, convert to array
-        tags = [String(tags)]
-      }
-    } catch {
-      // If JSON parse fails, treat as comma-separated string
-      tags = sqliteProduct.tags
-        .split(",")
-        .map((tag) => tag.trim())
-        .filter((tag) => tag.length > 0)
-    }
-  }
-
-  // Generate comprehensive searchable text summary
-  const embedding_text = generateEmbeddingText(sqliteProduct, tags)
-
-  return {
-    sku: sqliteProduct.sku,
-    handle: sqliteProduct.handle,
-    title: sqliteProduct.title,
-    description: sqliteProduct.description || "",
-    vendor: sqliteProduct.vendor,
-    price: sqliteProduct.price,
-    currency: sqliteProduct.currency,
-    image_url: sqliteProduct.image_url,
-    product_url: sqliteProduct.product_url,
-    tags: tags,
-    search_content: sqliteProduct.search_content || "",
-    embedding_text: embedding_text,
-  }
-}
-
-// Generate comprehensive text for embedding and search
-function generateEmbeddingText(product: SQLiteProduct, tags: string[]): string {
-  const basicInfo = `${product.title} ${product.description || ""} from ${product.vendor}`
-  const pricing = `Price: ${product.price} ${product.currency}`
-  const tagText = tags.length > 0 ? `Tags: ${tags.join(", ")}` : ""
-  const searchContent = product.search_content || ""
-
-  return `${basicInfo}. ${pricing}. ${tagText}. ${searchContent}`.trim()
-}
-
-// Process products in batches to generate embeddings
-async function generateEmbeddingsForBatch(
-  products: MongoProduct[],
-  embeddings: GoogleGenerativeAIEmbeddings
-): Promise<MongoProduct[]> {
-  const productsWithEmbeddings: MongoProduct[] = []
-
-  for (const product of products) {
-    try {
-      console.log(`Generating embedding for: ${product.sku} - ${product.title}`)
-
-      // Generate embedding with retry logic
-      const embedding = await retryWithBackoff(async () => {
-        return await embeddings.embedQuery(product.embedding_text)
-      })
-
-      productsWithEmbeddings.push({
-        ...product,
-        embedding: embedding,
-      })
-
-      console.log(`✓ Successfully generated embedding for ${product.sku}`)
-    } catch (error) {
-      console.error(`✗ Failed to generate embedding for ${product.sku}:`, error)
-      // Continue with next product instead of failing entire batch
-    }
+    console.error("Error managing vector search index:", error)
+    // Don't throw - index might already exist or need to be created via Atlas UI
+    console.log("Note: If index creation failed, you may need to create it via MongoDB Atlas UI")
   }
-
-  return productsWithEmbeddings
 }
 
-// Create vector search index if it doesn't exist
-async function ensureVectorSearchIndex(client: MongoClient): Promise<void> {
+// Create the full-text search index used by hybrid search if it doesn't exist
+async function ensureTextSearchIndex(client: MongoClient): Promise<void> {
   try {
-    const db = client.db("inventory_database")
-    const collection = db.collection("items")
-
-    // Check if index already exists
-    const indexes = await collection.listSearchIndexes().toArray()
-    const vectorIndexExists = indexes.some((idx: any) => idx.name === "vector_index")
+    const collection = client.db("inventory_database").collection("items")
 
-    if (vectorIndexExists) {
-      console.log("Vector search index already exists")
+    const indexes = await collection.listSearchIndexes(TEXT_INDEX_NAME).toArray()
+    if (indexes.length > 0) {
+      console.log("Text search index already exists")
       return
     }
 
-    console.log("Creating vector search index...")
-    const vectorSearchIdx = {
-      name: "vector_index",
-      type: "vectorSearch",
-      definition: {
-        fields: [
-          {
-            type: "vector",
-            path: "embedding",
-            numDimensions: 768,
-            similarity: "cosine",
-          },
-        ],
-      },
-    }
-
-    await collection.createSearchIndex(vectorSearchIdx)
-    console.log("Successfully created vector search index")
+    console.log("Creating text search index...")
+    await collection.createSearchIndex({
+      name: TEXT_INDEX_NAME,
+      type: "search",
+      definition: textSearchIndexDefinition(),
+    })
+    console.log("Successfully created text search index")
   } catch (error) {
-    console.error("Error managing vector search index:", error)
-    // Don't throw - index might already exist or need to be created via Atlas UI
-    console.log("Note: If index creation failed, you may need to create it via MongoDB Atlas UI")
+    console.error("Error managing text search index:", error)
+    console.log("Note: Without the text index, item_lookup falls back to vector-only ranking")
   }
 }
 
-// Insert products into MongoDB
-async function insertProductsToMongo(
-  client: MongoClient,
-  products: MongoProduct[]
-): Promise<{ success: number; failed: number }> {
-  const db = client.db("inventory_database")
-  const collection = db.collection("items")
-
-  let success = 0
-  let failed = 0
-
-  console.log(`\nInserting ${products.length} products into MongoDB...`)
-
-  for (const product of products) {
-    try {
-      await collection.insertOne(product)
-      success++
-      console.log(`✓ Inserted: ${product.sku} - ${product.title}`)
-    } catch (error: any) {
-      failed++
-      if (error.code === 11000) {
-        console.log(`⚠ Duplicate SKU (skipped): ${product.sku}`)
-      } else {
-        console.error(`✗ Failed to insert ${product.sku}:`, error.message)
-      }
-    }
-  }
-
-  return { success, failed }
-}
-
-// Verify migration results
-async function verifyMigration(client: MongoClient): Promise<void> {
+// Verify migration results (embeddings are counted in the active embedding version's field)
+async function verifyMigration(client: MongoClient, embeddingField: string): Promise<void> {
   const db = client.db("inventory_database")
   const collection = db.collection("items")
 
-  const totalCount = await collection.countDocuments()
+  const totalCount = await collection.countDocuments({ deleted: { $ne: true } })
   const withEmbeddings = await collection.countDocuments({
-    embedding: { $exists: true, $ne: null },
+    deleted: { $ne: true },
+    [embeddingField]: { $exists: true, $ne: null },
   })
+  const deletedCount = await collection.countDocuments({ deleted: true })
 
   console.log(`\n📊 Migration Verification:`)
-  console.log(`   Total documents: ${totalCount}`)
+  console.log(`   Live documents: ${totalCount}`)
   console.log(`   With embeddings: ${withEmbeddings}`)
   console.log(`   Missing embeddings: ${totalCount - withEmbeddings}`)
+  console.log(`   Soft-deleted: ${deletedCount}`)
 
   // Get a sample product
-  const sample = await collection.findOne({})
+  const sample = await collection.findOne({ deleted: { $ne: true } })
   if (sample) {
     console.log(`\n📄 Sample product:`)
     console.log(`   SKU: ${sample.sku}`)
     console.log(`   Title: ${sample.title}`)
-    console.log(`   Has embedding: ${sample.embedding ? "Yes" : "No"}`)
-    console.log(`   Embedding dimensions: ${sample.embedding?.length || 0}`)
+    console.log(`   Has embedding: ${sample[embeddingField] ? "Yes" : "No"}`)
+    console.log(`   Embedding dimensions: ${sample[embeddingField]?.length || 0}`)
   }
 }
 
+
+// Print the sync counts and the embedding pipeline's summary
+function reportSync(result: SyncResult, startTime: number): void {
+  const duration = ((Date.now() - startTime) / 1000).toFixed(2)
+  console.log(`\n${"=".repeat(60)}`)
+  console.log("🎉 MIGRATION COMPLETE!")
+  console.log(`${"=".repeat(60)}`)
+  if (result.resumedFrom) console.log(`↪ Resumed after sku ${result.resumedFrom}`)
+  console.log(`✓ Embedded (new or changed): ${result.counts.embedded} products`)
+  console.log(`= Unchanged (embedding kept): ${result.counts.unchanged} products`)
+  console.log(`🗑️  Soft-deleted: ${result.softDeleted} products`)
+  console.log(`✗ Failed (retried next run): ${result.counts.failed} products`)
+  console.log(`⏱️  Total time: ${duration}s`)
+  console.log(`⏱️  Embedding summary (this run):\n${JSON.stringify(result.embedding, null, 2)}`)
+  console.log(`${"=".repeat(60)}\n`)
+}
+
 // Main migration function
 async function migrate(): Promise<void> {
   const startTime = Date.now()
   console.log("🚀 Starting Shopify product migration...\n")
 
   // Configuration
-  const BATCH_SIZE = 50 // Process 50 products at a time
-  const BATCH_DELAY = 2000 // 2 seconds delay between batches
-  const sqliteDbPath = path.join(__dirname, "..", "easymart.db")
+  const sourcePath = argValue("source") ?? path.join(__dirname, "..", "easymart.db")
+  const restart = process.argv.includes("--restart") // Ignore the checkpoint of an interrupted run
 
   // Validate environment variables
-  if (!process.env.MONGODB_ATLAS_URI) {
+  const offline = isOfflineMode()
+  if (!offline && !process.env.MONGODB_ATLAS_URI) {
     throw new Error("MONGODB_ATLAS_URI environment variable is required")
   }
-  if (!process.env.GOOGLE_API_KEY) {
-    throw new Error("GOOGLE_API_KEY environment variable is required")
-  }
+  const providerConfig = loadProviderConfig()
+  requireProviderCredentials(providerConfig)
 
   let mongoClient: MongoClient | null = null
 
   try {
-    // Step 1: Extract products from SQLite
-    console.log("📦 Step 1: Extracting products from SQLite...")
-    const sqliteProducts = extractProductsFromSQLite(sqliteDbPath)
+    // Step 1: Extract and transform products
+    const source = createProductSource(sourcePath, {
+      mappingPath: argValue("mapping"),
+      storeUrl: argValue("store-url"),
+      currency: argValue("currency"),
+    })
+    console.log(`📦 Step 1: Reading products from ${source.description}...`)
+    const { products, skipped } = await loadProducts(source)
+    console.log(`Transformed ${products.length} products`)
+    if (skipped.length > 0) console.log(`⚠ Skipped ${skipped.length} invalid rows:`, skipped)
 
-    if (sqliteProducts.length === 0) {
-      console.log("⚠ No products found in SQLite database. Exiting.")
+    if (products.length === 0) {
+      console.log("⚠ No products found in the source. Exiting.")
       return
     }
 
-    // Step 2: Transform products to MongoDB schema
-    console.log("\n🔄 Step 2: Transforming product schema...")
-    const mongoProducts = sqliteProducts.map(transformProductToMongoSchema)
-    console.log(`Transformed ${mongoProducts.length} products`)
+    // The checkpoint is per source file, so syncing another file doesn't resume this one's run
+    const checkpointId = `${path.parse(sourcePath).name}-products`
 
-    // Step 3: Connect to MongoDB
-    console.log("\n🔌 Step 3: Connecting to MongoDB Atlas...")
+    // Offline: sync the local JSON store instead of MongoDB Atlas
+    if (offline) {
+      console.log("\n💾 Offline mode: syncing products to the local store...")
+      const result = await syncToOfflineStore(offlineStorePath(), products, createEmbeddings(providerConfig))
+      console.log(`✓ Synced to ${offlineStorePath()}`)
+      reportSync(result, startTime)
+      return
+    }
+
+    // Step 2: Connect to MongoDB
+    console.log("\n🔌 Step 2: Connecting to MongoDB Atlas...")
     mongoClient = new MongoClient(process.env.MONGODB_ATLAS_URI, {
       serverApi: {
         version: '1' as any,
@@ -310,68 +171,38 @@ async function migrate(): Promise<void> {
     await mongoClient.db("admin").command({ ping: 1 })
     console.log("✓ Connected to MongoDB Atlas")
 
-    // Step 4: Ensure vector search index exists
-    console.log("\n🔍 Step 4: Checking vector search index...")
-    await ensureVectorSearchIndex(mongoClient)
-
-    // Step 5: Clear existing data (optional - comment out to append instead)
-    console.log("\n🗑️  Step 5: Clearing existing products...")
-    const db = mongoClient.db("inventory_database")
-    const collection = db.collection("items")
-    const deleteResult = await collection.deleteMany({})
-    console.log(`Deleted ${deleteResult.deletedCount} existing documents`)
-
-    // Step 6: Initialize embeddings model
-    console.log("\n🧠 Step 6: Initializing AI embeddings model...")
-    const embeddingsModel = new GoogleGenerativeAIEmbeddings({
-      apiKey: process.env.GOOGLE_API_KEY,
-      modelName: "text-embedding-004",
+    // Products are embedded with the model of the active embedding version (see `npm run reindex`),
+    // which is the configured model until the first reindex
+    const configured = initialVersion(providerConfig)
+    const version = await new EmbeddingVersionStore(mongoClient.db("inventory_database").collection("search_config"))
+      .active(configured)
+
+    // Step 3: Ensure vector and text search indexes exist
+    console.log("\n🔍 Step 3: Checking search indexes...")
+    await ensureVectorSearchIndex(mongoClient, version)
+    await ensureTextSearchIndex(mongoClient)
+
+    // Step 4: Initialize embeddings model
+    console.log("\n🧠 Step 4: Initializing AI embeddings model...")
+    const embeddingsModel = sameModel(version, configured) ? createEmbeddings(providerConfig) : versionEmbeddings(version)
+    await verifyEmbeddingDimensions(embeddingsModel, version.dimensions)
+    console.log(`✓ Embeddings model ready (${version.provider}/${version.model}, embedding version ${version.version})`)
+
+    // Step 5: Sync, embedding only new or changed products
+    console.log(`\n⚙️  Step 5: Syncing ${products.length} products...`)
+    const result = await syncToMongo(mongoClient.db("inventory_database"), products, embeddingsModel, {
+      checkpointId,
+      restart,
+      version,
+      onBatch: (done, total, counts) =>
+        console.log(`📦 ${done}/${total}: embedded ${counts.embedded}, unchanged ${counts.unchanged}, failed ${counts.failed}`),
     })
-    console.log("✓ Embeddings model ready")
-
-    // Step 7: Process products in batches
-    console.log(`\n⚙️  Step 7: Processing ${mongoProducts.length} products in batches of ${BATCH_SIZE}...`)
-    let totalSuccess = 0
-    let totalFailed = 0
-
-    for (let i = 0; i < mongoProducts.length; i += BATCH_SIZE) {
-      const batch = mongoProducts.slice(i, i + BATCH_SIZE)
-      const batchNum = Math.floor(i / BATCH_SIZE) + 1
-      const totalBatches = Math.ceil(mongoProducts.length / BATCH_SIZE)
-
-      console.log(`\n📦 Batch ${batchNum}/${totalBatches} (${batch.length} products)`)
-
-      // Generate embeddings for batch
-      const productsWithEmbeddings = await generateEmbeddingsForBatch(
-        batch,
-        embeddingsModel
-      )
-
-      // Insert batch into MongoDB
-      const result = await insertProductsToMongo(mongoClient, productsWithEmbeddings)
-      totalSuccess += result.success
-      totalFailed += result.failed
-
-      // Delay between batches to respect rate limits
-      if (i + BATCH_SIZE < mongoProducts.length) {
-        console.log(`⏳ Waiting ${BATCH_DELAY / 1000}s before next batch...`)
-        await new Promise((resolve) => setTimeout(resolve, BATCH_DELAY))
-      }
-    }
 
-    // Step 8: Verify migration
-    console.log("\n✅ Step 8: Verifying migration...")
-    await verifyMigration(mongoClient)
+    // Step 6: Verify migration
+    console.log("\n✅ Step 6: Verifying migration...")
+    await verifyMigration(mongoClient, version.field)
 
-    // Final report
-    const duration = ((Date.now() - startTime) / 1000).toFixed(2)
-    console.log(`\n${"=".repeat(60)}`)
-    console.log("🎉 MIGRATION COMPLETE!")
-    console.log(`${"=".repeat(60)}`)
-    console.log(`✓ Successfully migrated: ${totalSuccess} products`)
-    console.log(`✗ Failed: ${totalFailed} products`)
-    console.log(`⏱️  Total time: ${duration}s`)
-    console.log(`${"=".repeat(60)}\n`)
+    reportSync(result, startTime)
   } catch (error) {
     console.error("\n❌ Migration failed:", error)
     throw error
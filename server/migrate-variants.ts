@@ -0,0 +1,79 @@
+// Variants migration: give every product stored before variants existed a `variants` list (one default variant
+// with the product's own sku and price) and its stock fields. Documents that already have variants are left alone,
+// so the script can be re-run. Embedding text only changes when there are options or stock to describe, so
+// migrated documents keep their embeddings.
+//   npm run migrate:variants
+import { AnyBulkWriteOperation, MongoClient } from "mongodb"
+import fs from "fs"
+import { isOfflineMode, offlineStorePath } from "./offline"
+import { variantFields } from "./variants"
+import "dotenv/config"
+
+// Documents written per bulkWrite
+const BATCH_SIZE = 500
+
+// Offline: rewrite the local JSON store in place
+function migrateOfflineStore(storePath: string): number {
+  if (!fs.existsSync(storePath)) {
+    console.log(`No offline store at ${storePath}; nothing to migrate`)
+    return 0
+  }
+  const products: Record<string, any>[] = JSON.parse(fs.readFileSync(storePath, "utf8"))
+  let migrated = 0
+  const updated = products.map((product) => {
+    if (product.variants) return product
+    migrated++
+    return { ...product, ...variantFields(product) }
+  })
+  fs.writeFileSync(storePath, JSON.stringify(updated, null, 2))
+  return migrated
+}
+
+async function migrateMongo(client: MongoClient): Promise<number> {
+  const collection = client.db("inventory_database").collection("items")
+  const cursor = collection.find({ variants: { $exists: false } }, { projection: { embedding: 0 } })
+  let operations: AnyBulkWriteOperation[] = []
+  let migrated = 0
+
+  const flush = async () => {
+    if (operations.length === 0) return
+    await collection.bulkWrite(operations, { ordered: false })
+    migrated += operations.length
+    console.log(`✓ Migrated ${migrated} products`)
+    operations = []
+  }
+
+  for await (const product of cursor) {
+    operations.push({ updateOne: { filter: { _id: product._id }, update: { $set: variantFields(product) } } })
+    if (operations.length >= BATCH_SIZE) await flush()
+  }
+  await flush()
+  return migrated
+}
+
+async function migrate(): Promise<void> {
+  console.log("🚀 Adding variants to existing products...\n")
+
+  if (isOfflineMode()) {
+    const migrated = migrateOfflineStore(offlineStorePath())
+    console.log(`🎉 Migrated ${migrated} products in ${offlineStorePath()}`)
+    return
+  }
+
+  if (!process.env.MONGODB_ATLAS_URI) {
+    throw new Error("MONGODB_ATLAS_URI environment variable is required")
+  }
+  const client = new MongoClient(process.env.MONGODB_ATLAS_URI)
+  try {
+    await client.connect()
+    const migrated = await migrateMongo(client)
+    console.log(`🎉 Migrated ${migrated} products`)
+  } finally {
+    await client.close()
+  }
+}
+
+migrate().catch((error) => {
+  console.error("Fatal error:", error)
+  process.exit(1)
+})
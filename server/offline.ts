@@ -0,0 +1,94 @@
+// Offline mode: run the server and scripts with no Atlas cluster and no model API keys
+import { MemorySaver } from "@langchain/langgraph"
+import { EmbeddingsInterface } from "@langchain/core/embeddings"
+import type { AgentDependencies } from "./agent"
+import { InMemoryProductCatalog } from "./catalog"
+import { CartService, InMemoryCartStore } from "./cart"
+import { InMemoryOrderStore, OrderService } from "./orders"
+import { InMemoryThreadStore } from "./conversations"
+import { InMemoryUsageStore, UsageBudget, loadBudgetOptions } from "./budget"
+import { InMemoryPreferenceStore, PreferenceService } from "./preferences"
+import { InMemoryRateLimitStore } from "./rate-limit"
+import { InMemoryReviewStore, ReviewService } from "./reviews"
+import { DeterministicEmbeddings, ScriptedChatModel } from "./fakes"
+import fs from "fs"
+import path from "path"
+
+// Offline mode is enabled with OFFLINE_MODE=true (or 1)
+export function isOfflineMode(env: NodeJS.ProcessEnv = process.env): boolean {
+  return env.OFFLINE_MODE === "true" || env.OFFLINE_MODE === "1"
+}
+
+// JSON file the offline seed/migrate scripts write and the offline server reads
+export function offlineStorePath(env: NodeJS.ProcessEnv = process.env): string {
+  return path.resolve(env.OFFLINE_STORE_PATH || path.join(__dirname, "offline-store.json"))
+}
+
+// JSON file the offline order seed writes and the offline server reads
+export function offlineOrdersPath(env: NodeJS.ProcessEnv = process.env): string {
+  return path.resolve(env.OFFLINE_ORDERS_PATH || path.join(__dirname, "offline-orders.json"))
+}
+
+// JSON file the offline review seed writes and the offline server reads
+export function offlineReviewsPath(env: NodeJS.ProcessEnv = process.env): string {
+  return path.resolve(env.OFFLINE_REVIEWS_PATH || path.join(__dirname, "offline-reviews.json"))
+}
+
+// Synthetic furniture items used instead of asking a live model to generate them
+export const FIXTURE_ITEMS_PATH = path.join(__dirname, "fixtures", "furniture-items.json")
+
+// Sample orders for the fixture items, used by seed-orders.ts
+export const FIXTURE_ORDERS_PATH = path.join(__dirname, "fixtures", "orders.json")
+
+// Load the offline catalog, or start empty if no script has written one yet
+export function loadOfflineCatalog(embeddings: EmbeddingsInterface = new DeterministicEmbeddings()): InMemoryProductCatalog {
+  const storePath = offlineStorePath()
+  if (!fs.existsSync(storePath)) {
+    console.log(`No offline store at ${storePath}; run "OFFLINE_MODE=true npm run seed" to populate it`)
+    return new InMemoryProductCatalog(embeddings)
+  }
+  return InMemoryProductCatalog.load(storePath, embeddings)
+}
+
+// Load the offline orders, or start with none if they haven't been seeded
+export function loadOfflineOrders(): InMemoryOrderStore {
+  const ordersPath = offlineOrdersPath()
+  if (!fs.existsSync(ordersPath)) {
+    console.log(`No offline orders at ${ordersPath}; run "OFFLINE_MODE=true npm run seed:orders" to populate them`)
+    return new InMemoryOrderStore()
+  }
+  return InMemoryOrderStore.load(ordersPath)
+}
+
+// Load the offline reviews, or start with none if they haven't been seeded
+export function loadOfflineReviews(): InMemoryReviewStore {
+  const reviewsPath = offlineReviewsPath()
+  if (!fs.existsSync(reviewsPath)) {
+    console.log(`No offline reviews at ${reviewsPath}; run "OFFLINE_MODE=true npm run seed:reviews" to populate them`)
+    return new InMemoryReviewStore()
+  }
+  return InMemoryReviewStore.load(reviewsPath)
+}
+
+// Agent dependencies for offline runs: scripted model, deterministic embeddings,
+// in-memory catalog, carts, orders, preferences, reviews, checkpointer, usage budget and rate limit counters
+// (tests pass a catalog built in memory instead of the offline store)
+export function createOfflineAgentDependencies(
+  catalog: InMemoryProductCatalog = loadOfflineCatalog()
+): AgentDependencies {
+  const embeddings = new DeterministicEmbeddings()
+  const checkpointer = new MemorySaver()
+  return {
+    model: new ScriptedChatModel(),
+    embeddings,
+    catalog,
+    checkpointer,
+    cart: new CartService(new InMemoryCartStore(), catalog),
+    orders: new OrderService(loadOfflineOrders(), catalog),
+    preferences: new PreferenceService(new InMemoryPreferenceStore()),
+    reviews: new ReviewService(loadOfflineReviews(), catalog, embeddings),
+    threads: new InMemoryThreadStore(checkpointer),
+    budget: new UsageBudget(new InMemoryUsageStore(), loadBudgetOptions()),
+    rateLimitStore: new InMemoryRateLimitStore(),
+  }
+}
@@ -0,0 +1,29 @@
+// LangGraph tool that lets the agent answer "where is my order?"
+import { tool } from "@langchain/core/tools"
+import { z } from "zod"
+import { OrderService } from "./orders"
+
+export function createOrderTools(orders: OrderService) {
+  const orderLookupTool = tool(
+    async ({ orderNumber, email, postalCode }) => {
+      try {
+        return JSON.stringify(await orders.lookup(orderNumber, { email, postalCode }))
+      } catch (error: any) {
+        console.error("Error in order lookup:", error.message)
+        return JSON.stringify({ error: error.message, orderNumber })
+      }
+    },
+    {
+      name: "order_lookup",
+      description: "Looks up an order's status, items and shipment tracking. " +
+        "Requires the order number plus the email address or shipping postal code used for the order.",
+      schema: z.object({
+        orderNumber: z.string().describe("The order number, e.g. FS-10001"),
+        email: z.string().optional().describe("Email address the order was placed with"),
+        postalCode: z.string().optional().describe("Postal/ZIP code of the shipping address"),
+      }),
+    }
+  )
+
+  return [orderLookupTool]
+}
@@ -0,0 +1,164 @@
+// Customer orders and shipment tracking, stored in `inventory_database.orders`
+import { Collection } from "mongodb"
+import fs from "fs"
+import { ProductCatalog } from "./catalog"
+import { ApiError, codeForStatus } from "./errors"
+import { toProductResult } from "./product-results"
+
+export type OrderStatus = "processing" | "shipped" | "delivered" | "cancelled" | "returned"
+
+export interface OrderLineItem {
+  sku: string        // sku (migrated products) or item_id (seeded items) in the `items` collection
+  quantity: number
+  unit_price: number // Price paid per unit
+}
+
+// One carrier update, e.g. "in_transit" at a sorting facility
+export interface ShipmentEvent {
+  timestamp: string
+  status: string
+  location?: string
+  description?: string
+}
+
+export interface Shipment {
+  carrier: string
+  tracking_number: string
+  skus: string[]           // Line items travelling in this parcel
+  events: ShipmentEvent[]  // Oldest first
+}
+
+export interface Order {
+  order_number: string
+  email: string
+  shipping_address: {
+    name: string
+    street: string
+    city: string
+    state: string
+    postal_code: string
+    country: string
+  }
+  status: OrderStatus
+  placed_at: string
+  line_items: OrderLineItem[]
+  shipments: Shipment[]
+}
+
+// Line item joined with the product it refers to (absent if the product left the catalog)
+export interface OrderLineDetails extends OrderLineItem {
+  title?: string
+  url?: string
+  image?: string
+}
+
+// What the agent sees: no email or street address, only what's needed to answer "where is my order?"
+export interface OrderDetails {
+  order_number: string
+  status: OrderStatus
+  placed_at: string
+  ship_to: string // City, state and country
+  line_items: OrderLineDetails[]
+  shipments: (Shipment & { latest_event?: ShipmentEvent })[]
+  total: number
+}
+
+// API error with an HTTP status, so routes and tools can report it precisely
+export class OrderError extends ApiError {
+  constructor(message: string, status = 400) {
+    super(codeForStatus(status), message, { status })
+    this.name = "OrderError"
+  }
+}
+
+// Persistence for orders (MongoDB in production, memory offline)
+export interface OrderStore {
+  findByNumber(orderNumber: string): Promise<Order | null>
+}
+
+export class MongoOrderStore implements OrderStore {
+  constructor(private collection: Collection<Order>) {}
+
+  // Order numbers are unique
+  async ensureIndexes(): Promise<void> {
+    await this.collection.createIndex({ order_number: 1 }, { unique: true })
+  }
+
+  findByNumber(orderNumber: string): Promise<Order | null> {
+    return this.collection.findOne({ order_number: orderNumber }, { projection: { _id: 0 } })
+  }
+}
+
+// Orders held in process memory; can be loaded from a JSON file such as fixtures/orders.json
+export class InMemoryOrderStore implements OrderStore {
+  constructor(private orders: Order[] = []) {}
+
+  static load(filePath: string): InMemoryOrderStore {
+    return new InMemoryOrderStore(JSON.parse(fs.readFileSync(filePath, "utf8")))
+  }
+
+  async findByNumber(orderNumber: string): Promise<Order | null> {
+    const order = this.orders.find((o) => o.order_number === orderNumber)
+    return order ? structuredClone(order) : null
+  }
+}
+
+// Order numbers are matched case-insensitively and without surrounding "#" or whitespace
+export function normalizeOrderNumber(orderNumber: string): string {
+  return orderNumber.trim().replace(/^#/, "").toUpperCase()
+}
+
+// Postal codes compare without spaces or case ("m5v 2t6" matches "M5V2T6")
+function normalizePostalCode(postalCode: string): string {
+  return postalCode.replace(/\s+/g, "").toUpperCase()
+}
+
+// Order lookups for the agent's order_lookup tool
+export class OrderService {
+  constructor(private store: OrderStore, private catalog: ProductCatalog) {}
+
+  // Find an order the caller can prove is theirs: the email or shipping postal code must match.
+  // A wrong order number and a wrong email/postal code give the same error, so order numbers can't be probed.
+  async lookup(orderNumber: string, verification: { email?: string; postalCode?: string }): Promise<OrderDetails> {
+    const { email, postalCode } = verification
+    if (!email && !postalCode) {
+      throw new OrderError("An email address or shipping postal code is required to look up an order")
+    }
+
+    const order = await this.store.findByNumber(normalizeOrderNumber(orderNumber))
+    const verified =
+      (!email || order?.email.toLowerCase() === email.trim().toLowerCase()) &&
+      (!postalCode || normalizePostalCode(order?.shipping_address.postal_code ?? "") === normalizePostalCode(postalCode))
+    if (!order || !verified) {
+      throw new OrderError(`No order ${orderNumber} was found for those details`, 404)
+    }
+
+    return this.describe(order)
+  }
+
+  private async describe(order: Order): Promise<OrderDetails> {
+    // Join each line item with its product in the catalog by sku
+    const line_items = await Promise.all(
+      order.line_items.map(async (line) => {
+        const product = await this.catalog.findExact(line.sku)
+        if (!product) return line
+        const { title, url, image } = toProductResult(product)
+        return { ...line, title, url, image }
+      })
+    )
+    const total = order.line_items.reduce((sum, line) => sum + line.unit_price * line.quantity, 0)
+    const { city, state, country } = order.shipping_address
+    return {
+      order_number: order.order_number,
+      status: order.status,
+      placed_at: order.placed_at,
+      ship_to: [city, state, country].filter(Boolean).join(", "),
+      line_items,
+      shipments: order.shipments.map((shipment) => ({
+        ...shipment,
+        latest_event: shipment.events[shipment.events.length - 1],
+      })),
+      total: Math.round(total * 100) / 100,
+    }
+  }
+}
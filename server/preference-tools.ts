@@ -0,0 +1,60 @@
+// LangGraph tool that lets the agent remember the shopper's preferences across conversations
+import { tool } from "@langchain/core/tools"
+import { z } from "zod"
+import { PREFERENCE_TOPIC_NAMES, PreferenceService, sessionIdFrom } from "./preferences"
+
+export function createPreferenceTools(preferences: PreferenceService) {
+  const rememberPreferencesTool = tool(
+    async ({ minPrice, maxPrice, currency, inStockOnly, styles, materials, colors, rooms, space, brands, note, forget }, config) => {
+      try {
+        const sessionId = sessionIdFrom(config)
+        if (!sessionId) throw new Error("Preferences can only be remembered for a shopper session")
+        const profile = await preferences.record(
+          sessionId,
+          {
+            min_price: minPrice,
+            max_price: maxPrice,
+            currency: currency?.toUpperCase(),
+            in_stock_only: inStockOnly,
+            styles,
+            materials,
+            colors,
+            rooms,
+            space,
+            vendors: brands,
+            notes: note ? [note] : undefined,
+          },
+          forget
+        )
+        const { session_id, ...remembered } = profile
+        return JSON.stringify({ remembered })
+      } catch (error: any) {
+        console.error("Error in remember_preferences:", error.message)
+        return JSON.stringify({ error: error.message })
+      }
+    },
+    {
+      name: "remember_preferences",
+      description: "Remembers the shopper's stated preferences for future conversations: budget, style, materials, " +
+        "colours, rooms, available space and brands. Only record what the customer said, never guesses. " +
+        "Lists are added to; use forget to drop a preference the customer no longer has.",
+      schema: z.object({
+        minPrice: z.number().min(0).optional().describe("Lowest price the customer wants to pay"),
+        maxPrice: z.number().positive().optional().describe("The customer's budget, e.g. 800 for '$800'"),
+        currency: z.string().length(3).optional().describe("Three-letter currency code of the budget, e.g. USD"),
+        inStockOnly: z.boolean().optional().describe("True if the customer only wants items available right away"),
+        styles: z.array(z.string()).optional().describe("Styles, e.g. scandinavian, mid-century"),
+        materials: z.array(z.string()).optional().describe("Materials, e.g. oak, velvet"),
+        colors: z.array(z.string()).optional().describe("Colours"),
+        rooms: z.array(z.string()).optional().describe("Rooms being furnished, e.g. living room"),
+        space: z.string().optional().describe("Available space, e.g. 'small apartment' or '2m alcove'"),
+        brands: z.array(z.string()).optional().describe("Preferred brands"),
+        note: z.string().optional().describe("Anything else worth remembering, in a few words"),
+        forget: z.array(z.enum(PREFERENCE_TOPIC_NAMES)).optional()
+          .describe("Preferences to drop first, e.g. ['budget'] when the customer no longer has one"),
+      }),
+    }
+  )
+
+  return [rememberPreferencesTool]
+}
@@ -0,0 +1,179 @@
+// Shopper preferences remembered across conversations: budget, style, materials, room size, ... per session.
+// Threads are isolated, so this profile is what lets a returning shopper skip repeating themselves.
+import { RunnableConfig } from "@langchain/core/runnables"
+import { Collection } from "mongodb"
+import { ProductFilters } from "./product-filters"
+
+export interface ShopperPreferences {
+  session_id: string
+  min_price?: number        // Budget range, in `currency`
+  max_price?: number
+  currency?: string
+  in_stock_only?: boolean   // Only show products that can be bought right away
+  styles?: string[]         // e.g. "mid-century", "scandinavian"
+  materials?: string[]      // e.g. "oak", "velvet"
+  colors?: string[]
+  rooms?: string[]          // Rooms being furnished, e.g. "living room"
+  space?: string            // e.g. "small apartment", "3m wall"
+  vendors?: string[]        // Preferred brands
+  notes?: string[]          // Anything else worth remembering, in the shopper's words
+  updated_at: Date
+}
+
+export type PreferenceUpdate = Partial<Omit<ShopperPreferences, "session_id" | "updated_at">>
+
+// What a shopper can ask to be forgotten
+export const PREFERENCE_TOPIC_NAMES = [
+  "budget", "currency", "in_stock", "styles", "materials", "colors", "rooms", "space", "brands", "notes",
+] as const
+
+export type PreferenceTopic = (typeof PREFERENCE_TOPIC_NAMES)[number]
+
+// The stored fields each topic clears
+export const PREFERENCE_TOPICS: Record<PreferenceTopic, (keyof PreferenceUpdate)[]> = {
+  budget: ["min_price", "max_price"],
+  currency: ["currency"],
+  in_stock: ["in_stock_only"],
+  styles: ["styles"],
+  materials: ["materials"],
+  colors: ["colors"],
+  rooms: ["rooms"],
+  space: ["space"],
+  brands: ["vendors"],
+  notes: ["notes"],
+}
+
+// Preferences that are lists, added to rather than replaced
+const LIST_FIELDS = ["styles", "materials", "colors", "rooms", "vendors", "notes"] as const
+
+// Most values kept per list; the oldest are dropped first
+const MAX_LIST_LENGTH = 10
+
+// Persistence for preference profiles (MongoDB in production, memory offline)
+export interface PreferenceStore {
+  get(sessionId: string): Promise<ShopperPreferences | null>
+  save(preferences: ShopperPreferences): Promise<void>
+  // False if the session had no profile
+  delete(sessionId: string): Promise<boolean>
+}
+
+export class MongoPreferenceStore implements PreferenceStore {
+  constructor(private collection: Collection<ShopperPreferences>) {}
+
+  // One profile per session
+  async ensureIndexes(): Promise<void> {
+    await this.collection.createIndex({ session_id: 1 }, { unique: true })
+  }
+
+  get(sessionId: string): Promise<ShopperPreferences | null> {
+    return this.collection.findOne({ session_id: sessionId }, { projection: { _id: 0 } })
+  }
+
+  async save(preferences: ShopperPreferences): Promise<void> {
+    await this.collection.replaceOne({ session_id: preferences.session_id }, preferences, { upsert: true })
+  }
+
+  async delete(sessionId: string): Promise<boolean> {
+    const { deletedCount } = await this.collection.deleteOne({ session_id: sessionId })
+    return deletedCount > 0
+  }
+}
+
+export class InMemoryPreferenceStore implements PreferenceStore {
+  private profiles = new Map<string, ShopperPreferences>()
+
+  async get(sessionId: string): Promise<ShopperPreferences | null> {
+    const profile = this.profiles.get(sessionId)
+    return profile ? structuredClone(profile) : null
+  }
+
+  async save(preferences: ShopperPreferences): Promise<void> {
+    this.profiles.set(preferences.session_id, structuredClone(preferences))
+  }
+
+  async delete(sessionId: string): Promise<boolean> {
+    return this.profiles.delete(sessionId)
+  }
+}
+
+// Add new values to a list, ignoring case-insensitive duplicates and keeping the most recent MAX_LIST_LENGTH
+function mergeList(existing: string[] = [], added: string[] = []): string[] {
+  const merged = [...existing]
+  for (const value of added.map((v) => v.trim()).filter(Boolean)) {
+    const duplicate = merged.findIndex((v) => v.toLowerCase() === value.toLowerCase())
+    if (duplicate >= 0) merged.splice(duplicate, 1)
+    merged.push(value)
+  }
+  return merged.slice(-MAX_LIST_LENGTH)
+}
+
+// Preference operations shared by the agent (remember_preferences, prompt, item_lookup defaults) and the /preferences routes
+export class PreferenceService {
+  constructor(private store: PreferenceStore) {}
+
+  get(sessionId: string): Promise<ShopperPreferences | null> {
+    return this.store.get(sessionId)
+  }
+
+  // Merge newly stated preferences into the profile: single values are replaced, lists are added to.
+  // `forget` clears topics first, so a shopper who changed their mind can replace a list.
+  async record(sessionId: string, update: PreferenceUpdate, forget: PreferenceTopic[] = []): Promise<ShopperPreferences> {
+    const profile: ShopperPreferences = (await this.store.get(sessionId)) ?? { session_id: sessionId, updated_at: new Date() }
+    for (const topic of forget) {
+      for (const field of PREFERENCE_TOPICS[topic]) delete profile[field]
+    }
+    const { styles, materials, colors, rooms, vendors, notes, ...values } = update
+    Object.assign(profile, Object.fromEntries(Object.entries(values).filter(([, value]) => value !== undefined)))
+    for (const field of LIST_FIELDS) {
+      if (!update[field]?.length) continue
+      profile[field] = mergeList(profile[field], update[field])
+    }
+    profile.updated_at = new Date()
+    await this.store.save(profile)
+    return profile
+  }
+
+  erase(sessionId: string): Promise<boolean> {
+    return this.store.delete(sessionId)
+  }
+}
+
+// The shopper session the agent is running for (set by callAgent/streamAgent), if any
+export function sessionIdFrom(config: RunnableConfig | undefined): string | undefined {
+  return config?.configurable?.session_id
+}
+
+// Default item_lookup filters from a profile: budget and in-stock only. Styles and materials are preferences, not
+// constraints, so they only reach the model through the system prompt; neither does the currency, since seeded
+// items have no currency field to filter on.
+export function preferenceFilters(preferences: ShopperPreferences | null): ProductFilters {
+  if (!preferences) return {}
+  const filters: ProductFilters = {}
+  if (preferences.min_price !== undefined) filters.minPrice = preferences.min_price
+  if (preferences.max_price !== undefined) filters.maxPrice = preferences.max_price
+  if (preferences.in_stock_only) filters.inStock = true
+  return filters
+}
+
+// One line per remembered preference for the system prompt; empty when nothing is remembered
+export function describePreferences(preferences: ShopperPreferences | null): string {
+  if (!preferences) return ""
+  const { min_price, max_price, currency } = preferences
+  const money = (amount: number) => `${amount}${currency ? ` ${currency}` : ""}`
+  let budget: string | undefined
+  if (min_price !== undefined && max_price !== undefined) budget = `${money(min_price)} to ${money(max_price)}`
+  else if (max_price !== undefined) budget = `up to ${money(max_price)}`
+  else if (min_price !== undefined) budget = `from ${money(min_price)}`
+  const lines = [
+    budget && `Budget: ${budget}`,
+    preferences.in_stock_only && "Only wants products that are in stock",
+    preferences.styles?.length && `Styles: ${preferences.styles.join(", ")}`,
+    preferences.materials?.length && `Materials: ${preferences.materials.join(", ")}`,
+    preferences.colors?.length && `Colours: ${preferences.colors.join(", ")}`,
+    preferences.rooms?.length && `Rooms: ${preferences.rooms.join(", ")}`,
+    preferences.space && `Space: ${preferences.space}`,
+    preferences.vendors?.length && `Brands: ${preferences.vendors.join(", ")}`,
+    preferences.notes?.length && `Notes: ${preferences.notes.join("; ")}`,
+  ]
+  return lines.filter(Boolean).map((line) => `- ${line}`).join("\n")
+}
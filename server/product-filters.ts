@@ -0,0 +1,95 @@
+// Structured product filters shared by the item_lookup tool, Atlas vector search and the text fallback
+import { Filter } from "mongodb"
+
+// Optional filters the agent can combine with a search query
+export interface ProductFilters {
+  minPrice?: number
+  maxPrice?: number
+  vendor?: string   // Matches `vendor` (migrated products) or `brand` (seeded items)
+  tags?: string[]   // Matches any of `tags` (migrated products) or `categories` (seeded items)
+  currency?: string // e.g. "USD"
+  inStock?: boolean // Products without an `in_stock` flag count as in stock
+}
+
+// Fields declared as `filter` fields in the `vector_index` so $vectorSearch can pre-filter on them
+export const VECTOR_FILTER_FIELDS = [
+  "price",             // Migrated product price
+  "prices.sale_price", // Seeded item price customers actually pay
+  "vendor",
+  "brand",
+  "tags",
+  "categories",
+  "currency",
+  "in_stock",
+  "deleted",           // Soft-deleted by the catalog sync
+]
+
+// Products the catalog sync soft-deleted stay in the collection but are never returned
+export const ACTIVE_PRODUCT_FILTER = { deleted: { $ne: true } }
+
+export function isActiveProduct(product: Record<string, any>): boolean {
+  return product.deleted !== true
+}
+
+// Build the full `vector_index` definition: the embedding vector plus the filter fields
+// (versioned indexes built by the reindex command point at their own vector field, e.g. `embedding_v2`)
+export function vectorIndexDefinition(numDimensions: number, path = "embedding") {
+  return {
+    fields: [
+      {
+        type: "vector",
+        path,
+        numDimensions,
+        similarity: "cosine",
+      },
+      ...VECTOR_FILTER_FIELDS.map((path) => ({ type: "filter", path })),
+    ],
+  }
+}
+
+export function hasFilters(filters: ProductFilters = {}): boolean {
+  return Object.values(filters).some((value) => value !== undefined && !(Array.isArray(value) && value.length === 0))
+}
+
+// Translate filters into an MQL filter that also excludes soft-deleted products;
+// uses only operators $vectorSearch accepts in its `filter`
+export function buildMongoFilter(filters: ProductFilters = {}): Filter<any> {
+  const clauses: Filter<any>[] = [ACTIVE_PRODUCT_FILTER]
+
+  if (filters.minPrice !== undefined || filters.maxPrice !== undefined) {
+    const range: Record<string, number> = {}
+    if (filters.minPrice !== undefined) range.$gte = filters.minPrice
+    if (filters.maxPrice !== undefined) range.$lte = filters.maxPrice
+    clauses.push({ $or: [{ price: range }, { "prices.sale_price": range }] })
+  }
+  if (filters.vendor) {
+    clauses.push({ $or: [{ vendor: { $eq: filters.vendor } }, { brand: { $eq: filters.vendor } }] })
+  }
+  if (filters.tags?.length) {
+    clauses.push({ $or: [{ tags: { $in: filters.tags } }, { categories: { $in: filters.tags } }] })
+  }
+  if (filters.currency) {
+    clauses.push({ currency: { $eq: filters.currency } })
+  }
+  if (filters.inStock) {
+    clauses.push({ in_stock: { $ne: false } })
+  }
+
+  return clauses.length === 1 ? clauses[0] : { $and: clauses }
+}
+
+// Same filters applied in memory (offline catalog)
+export function matchesFilters(product: Record<string, any>, filters: ProductFilters = {}): boolean {
+  if (!isActiveProduct(product)) return false
+  const price = product.price ?? product.prices?.sale_price
+  if (filters.minPrice !== undefined && !(price >= filters.minPrice)) return false
+  if (filters.maxPrice !== undefined && !(price <= filters.maxPrice)) return false
+  if (filters.vendor && product.vendor !== filters.vendor && product.brand !== filters.vendor) return false
+  if (filters.tags?.length) {
+    const productTags: string[] = [...(product.tags ?? []), ...(product.categories ?? [])]
+    if (!filters.tags.some((tag) => productTags.includes(tag))) return false
+  }
+  if (filters.currency && product.currency !== filters.currency) return false
+  if (filters.inStock && product.in_stock === false) return false
+  return true
+}
@@ -0,0 +1,150 @@
+// Compact product projection returned to the model by item_lookup (no embeddings, no embedding_text)
+import { ProductVariant, isVariantInStock, productVariants, tracksStock, variantLabel } from "./variants"
+
+// One variant as the model sees it
+export interface VariantResult {
+  sku: string
+  title: string            // Option values, e.g. "Grey / Large"
+  price: number
+  compare_at_price?: number
+  in_stock?: boolean       // Omitted when the source doesn't track stock
+  inventory?: number
+}
+
+// One product as the model sees it; covers seeded `Item`s and migrated `MongoProduct`s
+export interface ProductResult {
+  id: string           // sku (migrated products) or item_id (seeded items)
+  title: string
+  price?: number       // Regular / full price
+  sale_price?: number  // Discounted price, when there is one
+  currency?: string
+  vendor?: string      // vendor or brand
+  url?: string
+  image?: string
+  tags?: string[]      // tags or categories
+  in_stock?: boolean   // Omitted when the source doesn't track stock
+  variants?: VariantResult[] // Only when there is more than one to choose from
+  description?: string // Shortened; not included by default
+  score?: number       // Search relevance
+}
+
+export type ProductResultField = keyof ProductResult
+
+// `id` and `title` are always returned; these are the other fields returned by default
+export const DEFAULT_RESULT_FIELDS: ProductResultField[] = [
+  "price",
+  "sale_price",
+  "currency",
+  "vendor",
+  "url",
+  "image",
+  "tags",
+  "in_stock",
+  "variants",
+  "score",
+]
+
+export interface ProductResultOptions {
+  fields: ProductResultField[]
+  tokenBudget: number          // Approximate token ceiling for the serialized results
+  maxDescriptionLength: number // Characters kept when `description` is among the fields
+}
+
+const ALL_FIELDS: ProductResultField[] = [
+  "id", "title", "price", "sale_price", "currency", "vendor", "url", "image", "tags", "in_stock", "variants",
+  "description", "score",
+]
+
+// Read PRODUCT_RESULT_FIELDS (comma-separated) and PRODUCT_RESULT_TOKEN_BUDGET from the environment
+export function loadProductResultOptions(env: NodeJS.ProcessEnv = process.env): ProductResultOptions {
+  const fields = env.PRODUCT_RESULT_FIELDS
+    ? env.PRODUCT_RESULT_FIELDS.split(",").map((f) => f.trim() as ProductResultField)
+    : DEFAULT_RESULT_FIELDS
+  const unknown = fields.filter((f) => !ALL_FIELDS.includes(f))
+  if (unknown.length > 0) {
+    throw new Error(`Unknown PRODUCT_RESULT_FIELDS: ${unknown.join(", ")}. Expected any of: ${ALL_FIELDS.join(", ")}`)
+  }
+  return {
+    fields,
+    tokenBudget: Number(env.PRODUCT_RESULT_TOKEN_BUDGET ?? 1500),
+    maxDescriptionLength: Number(env.PRODUCT_RESULT_DESCRIPTION_LENGTH ?? 200),
+  }
+}
+
+function toVariantResult(variant: ProductVariant, tracked: boolean): VariantResult {
+  return {
+    sku: variant.sku,
+    title: variantLabel(variant),
+    price: variant.price,
+    compare_at_price: variant.compare_at_price,
+    in_stock: tracked ? isVariantInStock(variant) : undefined,
+    inventory: variant.inventory_quantity,
+  }
+}
+
+// Map a raw product document (either shape) to the full ProductResult
+export function toProductResult(doc: Record<string, any>): ProductResult {
+  const isSeededItem = doc.prices !== undefined
+  const variants = productVariants(doc)
+  const tracked = tracksStock(variants)
+  return {
+    id: String(doc.sku ?? doc.item_id ?? doc._id),
+    title: doc.title ?? doc.item_name ?? "",
+    price: isSeededItem ? doc.prices.full_price : doc.price,
+    sale_price: isSeededItem ? doc.prices.sale_price : doc.sale_price,
+    currency: doc.currency ?? (isSeededItem ? "USD" : undefined), // Seeded prices are in USD
+    vendor: doc.vendor ?? doc.brand,
+    url: doc.product_url,
+    image: doc.image_url,
+    tags: doc.tags ?? doc.categories,
+    in_stock: doc.in_stock ?? (tracked ? variants.some(isVariantInStock) : undefined),
+    variants: variants.length > 1 ? variants.map((variant) => toVariantResult(variant, tracked)) : undefined,
+    description: doc.description ?? doc.item_description,
+    score: typeof doc.score === "number" ? Number(doc.score.toFixed(4)) : undefined,
+  }
+}
+
+// Listing-sized ProductResult for the storefront's catalog routes: everything except the description
+export function toProductSummary(doc: Record<string, any>): ProductResult {
+  const { description, ...summary } = toProductResult(doc)
+  return summary
+}
+
+// Keep only the configured fields (plus id and title), dropping empty values
+function pick(result: ProductResult, options: ProductResultOptions): ProductResult {
+  const picked: any = { id: result.id, title: result.title }
+  for (const field of options.fields) {
+    let value = result[field]
+    if (value === undefined || value === null || value === "") continue
+    if (field === "description" && typeof value === "string" && value.length > options.maxDescriptionLength) {
+      value = `${value.slice(0, options.maxDescriptionLength)}…`
+    }
+    picked[field] = value
+  }
+  return picked
+}
+
+// Rough token estimate for JSON text (about four characters per token)
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4)
+}
+
+// Project raw documents and keep as many (best-first) as fit in the token budget
+export function projectProductResults(
+  docs: Record<string, any>[],
+  options: ProductResultOptions
+): { results: ProductResult[]; truncated: boolean } {
+  const results: ProductResult[] = []
+  let used = 0
+  for (const doc of docs) {
+    const result = pick(toProductResult(doc), options)
+    const cost = estimateTokens(JSON.stringify(result))
+    // Always return at least one result, even if it alone exceeds the budget
+    if (results.length > 0 && used + cost > options.tokenBudget) {
+      return { results, truncated: true }
+    }
+    results.push(result)
+    used += cost
+  }
+  return { results, truncated: false }
+}
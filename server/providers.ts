@@ -0,0 +1,145 @@
+// Provider registry: selects the chat model and embedding model used by the server and every script
+import { ChatGoogleGenerativeAI, GoogleGenerativeAIEmbeddings } from "@langchain/google-genai"
+import { ChatOpenAI, OpenAIEmbeddings } from "@langchain/openai"
+import { BaseChatModel } from "@langchain/core/language_models/chat_models"
+import { EmbeddingsInterface } from "@langchain/core/embeddings"
+import { DeterministicEmbeddings, ScriptedChatModel } from "./fakes"
+import { isOfflineMode } from "./offline"
+import fs from "fs"
+import path from "path"
+import "dotenv/config"
+
+// Dimension of the `embedding` field in the Atlas `vector_index`
+export const VECTOR_INDEX_DIMENSIONS = 768
+
+export type ProviderName = "gemini" | "openai" | "fake"
+
+// Resolved provider selection for chat and embeddings
+export interface ProviderConfig {
+  chat: { provider: ProviderName; model: string }
+  embeddings: { provider: ProviderName; model: string; dimensions: number }
+}
+
+// Per-call options for chat models (each caller picks its own creativity level)
+export interface ChatModelOptions {
+  temperature?: number
+  maxRetries?: number
+}
+
+// How to build models for one provider
+interface ProviderFactory {
+  apiKeyEnv?: string // Environment variable holding the API key, if the provider needs one
+  defaultChatModel: string
+  defaultEmbeddingModel: string
+  createChatModel(model: string, options: ChatModelOptions): BaseChatModel
+  createEmbeddings(model: string, dimensions: number): EmbeddingsInterface
+}
+
+const registry: Record<ProviderName, ProviderFactory> = {
+  gemini: {
+    apiKeyEnv: "GOOGLE_API_KEY",
+    defaultChatModel: "gemini-2.0-flash",
+    defaultEmbeddingModel: "text-embedding-004", // 768 dimensions
+    createChatModel: (model, { temperature = 0, maxRetries }) =>
+      new ChatGoogleGenerativeAI({ model, temperature, maxRetries, apiKey: process.env.GOOGLE_API_KEY }),
+    createEmbeddings: (model) =>
+      new GoogleGenerativeAIEmbeddings({ model, apiKey: process.env.GOOGLE_API_KEY }),
+  },
+  openai: {
+    apiKeyEnv: "OPENAI_API_KEY",
+    defaultChatModel: "gpt-4o-mini",
+    defaultEmbeddingModel: "text-embedding-3-small", // Supports shortened vectors via `dimensions`
+    createChatModel: (model, { temperature = 0, maxRetries }) =>
+      new ChatOpenAI({ model, temperature, maxRetries, apiKey: process.env.OPENAI_API_KEY }),
+    createEmbeddings: (model, dimensions) =>
+      new OpenAIEmbeddings({ model, dimensions, apiKey: process.env.OPENAI_API_KEY }),
+  },
+  fake: {
+    defaultChatModel: "scripted",
+    defaultEmbeddingModel: "deterministic",
+    createChatModel: () => new ScriptedChatModel(),
+    createEmbeddings: (_model, dimensions) => new DeterministicEmbeddings(dimensions),
+  },
+}
+
+function parseProvider(value: unknown, source: string): ProviderName | undefined {
+  if (value === undefined || value === "") return undefined
+  if (typeof value === "string" && value in registry) return value as ProviderName
+  throw new Error(`Unknown provider "${value}" in ${source}. Expected one of: ${Object.keys(registry).join(", ")}`)
+}
+
+// Read the optional JSON config file named by PROVIDERS_CONFIG
+function readConfigFile(env: NodeJS.ProcessEnv): any {
+  if (!env.PROVIDERS_CONFIG) return {}
+  const configPath = path.resolve(env.PROVIDERS_CONFIG)
+  return JSON.parse(fs.readFileSync(configPath, "utf8"))
+}
+
+// Resolve the provider config: environment variables override the config file, which overrides defaults.
+// Offline mode always uses the fake provider.
+export function loadProviderConfig(env: NodeJS.ProcessEnv = process.env): ProviderConfig {
+  const file = readConfigFile(env)
+  const offline = isOfflineMode(env)
+
+  const chatProvider = offline
+    ? "fake"
+    : parseProvider(env.LLM_PROVIDER, "LLM_PROVIDER") ?? parseProvider(file.chat?.provider, "config file") ?? "gemini"
+  const embeddingProvider = offline
+    ? "fake"
+    : parseProvider(env.EMBEDDING_PROVIDER, "EMBEDDING_PROVIDER") ??
+      parseProvider(file.embeddings?.provider, "config file") ??
+      chatProvider
+
+  const dimensions = Number(env.EMBEDDING_DIMENSIONS || file.embeddings?.dimensions || VECTOR_INDEX_DIMENSIONS)
+  if (dimensions !== VECTOR_INDEX_DIMENSIONS) {
+    throw new Error(
+      `Embedding dimensions (${dimensions}) do not match the vector_index numDimensions (${VECTOR_INDEX_DIMENSIONS})`
+    )
+  }
+
+  return {
+    chat: {
+      provider: chatProvider,
+      model: (!offline && (env.LLM_MODEL || file.chat?.model)) || registry[chatProvider].defaultChatModel,
+    },
+    embeddings: {
+      provider: embeddingProvider,
+      model:
+        (!offline && (env.EMBEDDING_MODEL || file.embeddings?.model)) || registry[embeddingProvider].defaultEmbeddingModel,
+      dimensions,
+    },
+  }
+}
+
+// Throw early when a selected provider is missing its API key
+export function requireProviderCredentials(config: ProviderConfig): void {
+  for (const provider of new Set([config.chat.provider, config.embeddings.provider])) {
+    const apiKeyEnv = registry[provider].apiKeyEnv
+    if (apiKeyEnv && !process.env[apiKeyEnv]) {
+      throw new Error(`${apiKeyEnv} environment variable is required for the ${provider} provider`)
+    }
+  }
+}
+
+export function createChatModel(config: ProviderConfig, options: ChatModelOptions = {}): BaseChatModel {
+  return registry[config.chat.provider].createChatModel(config.chat.model, options)
+}
+
+// Also used for a reindex target or the active embedding version, which carry only the embeddings selection
+export function createEmbeddings(config: Pick<ProviderConfig, "embeddings">): EmbeddingsInterface {
+  const { provider, model, dimensions } = config.embeddings
+  return registry[provider].createEmbeddings(model, dimensions)
+}
+
+// Embed a probe string and check the vector length against the vector_index definition
+export async function verifyEmbeddingDimensions(
+  embeddings: EmbeddingsInterface,
+  expected = VECTOR_INDEX_DIMENSIONS
+): Promise<void> {
+  const probe = await embeddings.embedQuery("dimension check")
+  if (probe.length !== expected) {
+    throw new Error(
+      `Embedding model returned ${probe.length}-dimensional vectors, but vector_index expects ${expected}`
+    )
+  }
+}
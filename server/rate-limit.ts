@@ -0,0 +1,98 @@
+// Fixed-window rate limiting per client IP and per session, with pluggable counters
+import { NextFunction, Request, Response } from "express"
+import { Collection } from "mongodb"
+import { ApiError } from "./errors"
+
+// Counters shared by every server instance that uses the same store
+export interface RateLimitStore {
+  // Count one request for the key in the current window and return the window's total so far
+  hit(key: string, windowMs: number): Promise<{ count: number; resetAt: Date }>
+}
+
+// Start of the fixed window containing `now`
+function windowStart(now: number, windowMs: number): number {
+  return Math.floor(now / windowMs) * windowMs
+}
+
+// Counters in process memory: the default, fine for a single instance
+export class InMemoryRateLimitStore implements RateLimitStore {
+  private counters = new Map<string, { count: number; resetAt: number }>()
+
+  async hit(key: string, windowMs: number): Promise<{ count: number; resetAt: Date }> {
+    const now = Date.now()
+    let counter = this.counters.get(key)
+    if (!counter || counter.resetAt <= now) {
+      // Drop expired counters now and then so the map doesn't grow forever
+      if (this.counters.size > 10000) {
+        for (const [k, c] of this.counters) if (c.resetAt <= now) this.counters.delete(k)
+      }
+      counter = { count: 0, resetAt: windowStart(now, windowMs) + windowMs }
+      this.counters.set(key, counter)
+    }
+    counter.count++
+    return { count: counter.count, resetAt: new Date(counter.resetAt) }
+  }
+}
+
+interface RateLimitCounter {
+  _id: string // "<key>:<window start>"
+  count: number
+  expires_at: Date
+}
+
+// Counters in `rate_limits`, shared across instances; a TTL index removes old windows
+export class MongoRateLimitStore implements RateLimitStore {
+  constructor(private collection: Collection<RateLimitCounter>) {}
+
+  async ensureIndexes(): Promise<void> {
+    await this.collection.createIndex({ expires_at: 1 }, { expireAfterSeconds: 0 })
+  }
+
+  async hit(key: string, windowMs: number): Promise<{ count: number; resetAt: Date }> {
+    const start = windowStart(Date.now(), windowMs)
+    const resetAt = new Date(start + windowMs)
+    const counter = await this.collection.findOneAndUpdate(
+      { _id: `${key}:${start}` },
+      { $inc: { count: 1 }, $setOnInsert: { expires_at: resetAt } },
+      { upsert: true, returnDocument: "after" }
+    )
+    return { count: counter?.count ?? 1, resetAt }
+  }
+}
+
+export interface RateLimitOptions {
+  windowMs: number      // Length of each counting window
+  maxPerIp: number      // Requests per window from one IP address (0 disables)
+  maxPerSession: number // Requests per window from one session, across all its threads (0 disables)
+}
+
+// Read RATE_LIMIT_WINDOW_MS, RATE_LIMIT_PER_IP and RATE_LIMIT_PER_SESSION from the environment
+export function loadRateLimitOptions(env: NodeJS.ProcessEnv = process.env): RateLimitOptions {
+  return {
+    windowMs: Number(env.RATE_LIMIT_WINDOW_MS ?? 60000),
+    maxPerIp: Number(env.RATE_LIMIT_PER_IP ?? 60),
+    maxPerSession: Number(env.RATE_LIMIT_PER_SESSION ?? 20),
+  }
+}
+
+// Reject requests over the per-IP or per-session limit with RATE_LIMITED and a Retry-After.
+// Register after requireSession to also limit by session; without a session only the IP is limited.
+export function rateLimit(store: RateLimitStore, options: RateLimitOptions) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const limits: [string, number][] = [[`ip:${req.ip}`, options.maxPerIp]]
+    if (res.locals.sessionId) limits.push([`session:${res.locals.sessionId}`, options.maxPerSession])
+    try {
+      for (const [key, max] of limits) {
+        if (max <= 0) continue
+        const { count, resetAt } = await store.hit(key, options.windowMs)
+        if (count > max) {
+          const retryAfter = Math.max(1, Math.ceil((resetAt.getTime() - Date.now()) / 1000))
+          return next(new ApiError("RATE_LIMITED", "Too many requests. Please slow down and try again shortly.", { retryAfter }))
+        }
+      }
+      next()
+    } catch (error) {
+      next(error)
+    }
+  }
+}
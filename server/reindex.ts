@@ -0,0 +1,241 @@
+// Reindex CLI: move the catalog to a new embedding model without downtime. `build` embeds every product into a
+// versioned field (e.g. `embedding_v2`) with its own vector index, `verify` checks coverage, `switch` atomically makes
+// item_lookup search the new version, and `rollback` returns to the previous one. Older vectors are never removed.
+//   npm run reindex -- status
+//   npm run reindex -- build [--provider openai] [--model text-embedding-3-large] [--dimensions 1536]
+//   npm run reindex -- verify
+//   npm run reindex -- switch
+//   npm run reindex -- rollback [--force]
+import { AnyBulkWriteOperation, Collection, MongoClient } from "mongodb"
+import {
+  ACTIVE_VERSION_REFRESH_MS,
+  EmbeddingModel,
+  EmbeddingVersion,
+  EmbeddingVersionStore,
+  ensureVectorIndex,
+  initialVersion,
+  isIndexQueryable,
+  sameModel,
+  staleVectorFilter,
+  vectorHashField,
+  versionEmbeddings,
+  versionNames,
+} from "./embedding-versions"
+import { Embedded, EmbeddingPipeline, EmbeddingSink } from "./embedding-pipeline"
+import { argValue } from "./ingestion"
+import { isOfflineMode } from "./offline"
+import { ACTIVE_PRODUCT_FILTER } from "./product-filters"
+import { loadProviderConfig, requireProviderCredentials, verifyEmbeddingDimensions } from "./providers"
+import "dotenv/config"
+
+// Products read, embedded and written at a time
+const BATCH_SIZE = 500
+
+// The text and content hash a product's vector is built from
+interface ReindexItem {
+  _id: any
+  embedding_text: string
+  content_hash?: string
+}
+
+function describe(version: EmbeddingVersion): string {
+  return `v${version.version} ${version.provider}/${version.model} (${version.dimensions} dimensions, ${version.field} in ${version.index})`
+}
+
+// Writes each embedded batch into the version's field, with the content hash it was built from
+class VersionFieldSink implements EmbeddingSink<ReindexItem> {
+  constructor(private collection: Collection<any>, private version: EmbeddingVersion) {}
+
+  async write(items: Embedded<ReindexItem>[]): Promise<void> {
+    if (items.length === 0) return
+    const operations: AnyBulkWriteOperation[] = items.map((item) => ({
+      updateOne: {
+        filter: { _id: item._id },
+        update: {
+          $set: {
+            [this.version.field]: item.embedding,
+            ...(item.content_hash ? { [vectorHashField(this.version)]: item.content_hash } : {}),
+          },
+        },
+      },
+    }))
+    await this.collection.bulkWrite(operations, { ordered: false })
+  }
+}
+
+// The model to reindex with: the configured embeddings, overridden by --provider, --model and --dimensions
+function targetModel(): EmbeddingModel {
+  const config = loadProviderConfig({
+    ...process.env,
+    EMBEDDING_PROVIDER: argValue("provider") ?? process.env.EMBEDDING_PROVIDER,
+    EMBEDDING_MODEL: argValue("model") ?? process.env.EMBEDDING_MODEL,
+    EMBEDDING_DIMENSIONS: undefined, // Checked against the vector index below, not against version 1's 768
+  })
+  requireProviderCredentials({ ...config, chat: config.embeddings }) // Only the embedding provider's key is needed
+  const dimensions = Number(argValue("dimensions") ?? process.env.EMBEDDING_DIMENSIONS ?? config.embeddings.dimensions)
+  return { ...config.embeddings, dimensions }
+}
+
+// Print coverage the way the migration's verification does; true when the version can be switched (or rolled back) to
+async function verifyVersion(
+  collection: Collection<any>,
+  version: EmbeddingVersion,
+  action: "switch" | "roll back" = "switch"
+): Promise<boolean> {
+  const live = await collection.countDocuments(ACTIVE_PRODUCT_FILTER)
+  const stale = await collection.countDocuments(staleVectorFilter(version))
+  const queryable = await isIndexQueryable(collection, version.index)
+
+  console.log(`\n📊 Coverage of ${describe(version)}:`)
+  console.log(`   Live documents: ${live}`)
+  console.log(`   With current vectors: ${live - stale}`)
+  console.log(`   Missing or stale vectors: ${stale}`)
+  console.log(`   Index ${version.index}: ${queryable ? "queryable" : "not queryable yet (Atlas is still building it)"}`)
+
+  const ready = live > 0 && stale === 0 && queryable
+  if (ready) console.log(`✓ Ready to ${action}`)
+  else console.log(`✗ Not ready to ${action}${action === "switch" ? "; run build again or wait for the index" : ""}`)
+  return ready
+}
+
+async function status(store: EmbeddingVersionStore, configured: EmbeddingVersion): Promise<void> {
+  const settings = await store.get()
+  console.log(`Active:   ${describe(settings?.active ?? configured)}${settings ? "" : " (no reindex has run yet)"}`)
+  if (settings?.previous) console.log(`Previous: ${describe(settings.previous)} (rollback target)`)
+  if (settings?.pending) console.log(`Pending:  ${describe(settings.pending)}`)
+  if (settings?.switched_at) console.log(`Switched: ${settings.switched_at.toISOString()}`)
+}
+
+// Embed every product whose vector for the pending version is missing or stale; re-running resumes the build
+async function build(collection: Collection<any>, store: EmbeddingVersionStore, configured: EmbeddingVersion): Promise<void> {
+  const settings = await store.get()
+  const active = settings?.active ?? configured
+  const target = targetModel()
+
+  let version = settings?.pending
+  if (version && !sameModel(version, target)) {
+    console.log(`Replacing pending version ${describe(version)}`)
+    version = undefined
+  }
+  if (!version) {
+    if (sameModel(active, target)) {
+      throw new Error(`${target.provider}/${target.model} is already the active embedding model`)
+    }
+    const number = Math.max(active.version, settings?.previous?.version ?? 0, settings?.pending?.version ?? 0) + 1
+    version = { version: number, ...versionNames(number), ...target, created_at: new Date() }
+  }
+  console.log(`🚀 Building ${describe(version)}`)
+
+  const embeddings = versionEmbeddings(version)
+  await verifyEmbeddingDimensions(embeddings, version.dimensions)
+  await store.setPending(version, active)
+  await ensureVectorIndex(collection, version)
+
+  const pipeline = new EmbeddingPipeline<ReindexItem>({
+    embeddings,
+    text: (item) => item.embedding_text ?? "",
+    id: (item) => String(item._id),
+    sink: new VersionFieldSink(collection, version),
+  })
+
+  // Page through the stale products by _id, so a long build never holds a cursor open
+  const filter = staleVectorFilter(version)
+  const total = await collection.countDocuments(filter)
+  let lastId: any = null
+  let done = 0
+  for (;;) {
+    const batch = (await collection
+      .find(lastId === null ? filter : { $and: [filter, { _id: { $gt: lastId } }] })
+      .project({ embedding_text: 1, content_hash: 1 })
+      .sort({ _id: 1 })
+      .limit(BATCH_SIZE)
+      .toArray()) as ReindexItem[]
+    if (batch.length === 0) break
+    await pipeline.run(batch)
+    lastId = batch[batch.length - 1]._id
+    done += batch.length
+    console.log(`📦 ${done}/${total}`)
+  }
+
+  console.log(`⏱️  Embedding summary:\n${JSON.stringify(pipeline.summary(), null, 2)}`)
+  await verifyVersion(collection, version)
+}
+
+// Atomically make the pending version active, but only once it is fully covered and its index is queryable
+async function switchVersion(collection: Collection<any>, store: EmbeddingVersionStore): Promise<void> {
+  const pending = (await store.get())?.pending
+  if (!pending) throw new Error("No pending embedding version; run `npm run reindex -- build` first")
+  if (!(await verifyVersion(collection, pending))) {
+    process.exitCode = 1
+    return
+  }
+  if (!(await store.activatePending(pending.version))) {
+    throw new Error(`Version ${pending.version} is no longer pending; check \`npm run reindex -- status\``)
+  }
+  console.log(`\n🎉 Switched item_lookup to ${describe(pending)}`)
+  console.log(`Running servers pick it up within ${ACTIVE_VERSION_REFRESH_MS / 1000} seconds; \`npm run reindex -- rollback\` undoes the switch`)
+}
+
+// Return to the previous version once its vectors are checked: products changed by a sync since the switch only got
+// vectors for the active version. --force rolls back anyway, e.g. when the active version itself is broken.
+async function rollback(collection: Collection<any>, store: EmbeddingVersionStore): Promise<void> {
+  const previous = (await store.get())?.previous
+  if (!previous) throw new Error("There is no previous embedding version to roll back to")
+  if (!(await verifyVersion(collection, previous, "roll back"))) {
+    if (!process.argv.includes("--force")) {
+      console.log("Run `npm run reindex -- rollback --force` to roll back anyway; `npm run migrate` then re-embeds the stale products")
+      process.exitCode = 1
+      return
+    }
+    console.log("⚠️  Rolling back anyway (--force)")
+  }
+  const active = await store.rollback(previous.version)
+  if (!active) throw new Error(`Version ${previous.version} is no longer the previous version; check \`npm run reindex -- status\``)
+  console.log(`\n↩ Rolled back item_lookup to ${describe(active)}`)
+  console.log(`Running servers pick it up within ${ACTIVE_VERSION_REFRESH_MS / 1000} seconds; run rollback again to undo`)
+}
+
+async function main(): Promise<void> {
+  const command = process.argv[2] ?? "status"
+  if (isOfflineMode()) {
+    throw new Error("Reindexing needs MongoDB Atlas; offline mode has a single embedding model")
+  }
+  if (!process.env.MONGODB_ATLAS_URI) {
+    throw new Error("MONGODB_ATLAS_URI environment variable is required")
+  }
+
+  const client = new MongoClient(process.env.MONGODB_ATLAS_URI)
+  try {
+    await client.connect()
+    const db = client.db("inventory_database")
+    const collection = db.collection("items")
+    const store = new EmbeddingVersionStore(db.collection("search_config"))
+    const configured = initialVersion(loadProviderConfig())
+
+    switch (command) {
+      case "status":
+        return await status(store, configured)
+      case "build":
+        return await build(collection, store, configured)
+      case "verify": {
+        const pending = (await store.get())?.pending
+        if (!pending) throw new Error("No pending embedding version; run `npm run reindex -- build` first")
+        if (!(await verifyVersion(collection, pending))) process.exitCode = 1
+        return
+      }
+      case "switch":
+        return await switchVersion(collection, store)
+      case "rollback":
+        return await rollback(collection, store)
+      default:
+        throw new Error(`Unknown command "${command}". Expected status, build, verify, switch or rollback`)
+    }
+  } finally {
+    await client.close()
+  }
+}
+
+main().catch((error) => {
+  console.error("❌ Reindex failed:", error.message ?? error)
+  process.exit(1)
+})
@@ -0,0 +1,141 @@
+// zod schemas for every route's body, params and query, plus the middleware that enforces them
+import { NextFunction, Request, Response } from "express"
+import { z } from "zod"
+import { ApiError } from "./errors"
+
+// Longest chat message passed on to the model
+export const MAX_MESSAGE_LENGTH = 4000
+
+// Largest JSON body express.json() accepts; anything bigger is a PAYLOAD_TOO_LARGE error
+export const MAX_BODY_SIZE = "32kb"
+
+// Number from the query string; without the custom message "abc" fails with "Expected number, received nan"
+function queryNumber(name: string) {
+  return z.coerce.number({ invalid_type_error: `${name} must be a number` })
+}
+
+// Whole number from the query string (limits and offsets)
+function queryInteger(name: string) {
+  return queryNumber(name).int(`${name} must be a whole number`)
+}
+
+// POST /chat, /chat/stream, /chat/:threadId, /chat/:threadId/stream
+export const chatBodySchema = z.object({
+  message: z
+    .string({ required_error: "message is required", invalid_type_error: "message must be a string" })
+    .trim()
+    .min(1, "message must not be empty")
+    .max(MAX_MESSAGE_LENGTH, `message must be at most ${MAX_MESSAGE_LENGTH} characters`),
+})
+
+// Routes with a :threadId; thread ids are random UUIDs (see sessions.ts)
+export const threadParamsSchema = z.object({
+  threadId: z.string().uuid("threadId must be a conversation id returned by POST /chat"),
+})
+
+// GET /threads
+export const threadListQuerySchema = z.object({
+  limit: queryInteger("limit").min(1).max(100).default(20),
+  offset: queryInteger("offset").min(0).default(0),
+})
+
+// POST /cart/:threadId
+export const cartItemBodySchema = z.object({
+  productId: z.string().trim().min(1, "productId is required").max(200),
+  quantity: z.number().int().min(1).max(99).default(1),
+})
+
+// DELETE /cart/:threadId/items/:productId
+export const cartItemParamsSchema = threadParamsSchema.extend({
+  productId: z.string().min(1).max(200),
+})
+
+// Comma-separated query value ("a,b") as a list of non-empty strings
+const commaList = z
+  .string()
+  .max(500)
+  .transform((value) => value.split(",").map((item) => item.trim()).filter(Boolean))
+
+// GET /products
+export const productListQuerySchema = z
+  .object({
+    q: z.string().trim().min(1).max(200).optional(),
+    limit: queryInteger("limit").min(1).max(100).default(24),
+    offset: queryInteger("offset").min(0).default(0),
+    sort: z.enum(["relevance", "price_asc", "price_desc", "title_asc", "title_desc"]).optional(),
+    minPrice: queryNumber("minPrice").min(0).optional(),
+    maxPrice: queryNumber("maxPrice").min(0).optional(),
+    vendor: z.string().trim().min(1).max(200).optional(),
+    tags: commaList.optional(),
+    inStock: z.enum(["true", "false"]).transform((value) => value === "true").optional(),
+  })
+  .refine((query) => query.sort !== "relevance" || query.q, { message: "sort=relevance requires q", path: ["sort"] })
+  .refine((query) => query.minPrice === undefined || query.maxPrice === undefined || query.minPrice <= query.maxPrice, {
+    message: "minPrice must not be greater than maxPrice",
+    path: ["minPrice"],
+  })
+
+// GET /products query once validateRequest has parsed it
+export type ProductListQueryParams = z.infer<typeof productListQuerySchema>
+
+// Routes with a :sku (sku, handle or item_id)
+export const productParamsSchema = z.object({
+  sku: z.string().min(1).max(200),
+})
+
+// GET /products/:sku/similar
+export const similarProductsQuerySchema = z.object({
+  limit: queryInteger("limit").min(1).max(20).default(6),
+})
+
+// GET /products/:sku/reviews
+export const reviewListQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(50).default(10),
+  offset: z.coerce.number().int().min(0).default(0),
+})
+
+// POST /products/:sku/reviews
+export const reviewBodySchema = z.object({
+  rating: z
+    .number({ required_error: "rating is required", invalid_type_error: "rating must be a number" })
+    .int("rating must be a whole number of stars")
+    .min(1, "rating must be between 1 and 5")
+    .max(5, "rating must be between 1 and 5"),
+  comment: z
+    .string({ required_error: "comment is required", invalid_type_error: "comment must be a string" })
+    .trim()
+    .min(3, "comment must be at least 3 characters")
+    .max(2000, "comment must be at most 2000 characters"),
+  author: z.string().trim().min(1).max(60).optional(),
+})
+
+interface RequestSchemas {
+  body?: z.ZodTypeAny
+  params?: z.ZodTypeAny
+  query?: z.ZodTypeAny
+}
+
+// Validate the request parts and replace them with the parsed (trimmed, defaulted) values;
+// failures become a VALIDATION_ERROR listing each invalid field
+export function validateRequest(schemas: RequestSchemas) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const issues: { field: string; message: string }[] = []
+    for (const part of ["params", "query", "body"] as const) {
+      const schema = schemas[part]
+      if (!schema) continue
+      const result = schema.safeParse(req[part] ?? {})
+      if (result.success) {
+        req[part] = result.data
+      } else {
+        for (const issue of result.error.issues) {
+          issues.push({ field: [part, ...issue.path].join("."), message: issue.message })
+        }
+      }
+    }
+    if (issues.length > 0) {
+      next(new ApiError("VALIDATION_ERROR", issues.map((issue) => issue.message).join("; "), { details: issues }))
+    } else {
+      next()
+    }
+  }
+}
@@ -0,0 +1,31 @@
+// LangGraph tool that lets the agent answer "what do people say about it?" from the product's reviews
+import { tool } from "@langchain/core/tools"
+import { z } from "zod"
+import { ReviewService } from "./reviews"
+
+export function createReviewTools(reviews: ReviewService) {
+  const productReviewsTool = tool(
+    async ({ productId, question, n = 3 }) => {
+      try {
+        return JSON.stringify(await reviews.summarize(productId, question, n))
+      } catch (error: any) {
+        console.error("Error in product_reviews:", error.message)
+        return JSON.stringify({ error: error.message, productId })
+      }
+    },
+    {
+      name: "product_reviews",
+      description: "Summarizes a product's customer reviews: average rating, star distribution, how recent the " +
+        "reviews are, and the review snippets most relevant to the customer's question. Use it for questions about " +
+        "quality, comfort, durability or what other customers think. Quote snippets rather than inventing opinions.",
+      schema: z.object({
+        productId: z.string().describe("The product's sku or item_id from item_lookup results"),
+        question: z.string().optional()
+          .describe("What the customer wants to know, e.g. 'is it comfortable for long hours?'; omit for the newest reviews"),
+        n: z.number().int().min(1).max(10).optional().default(3).describe("Number of review snippets to return"),
+      }),
+    }
+  )
+
+  return [productReviewsTool]
+}
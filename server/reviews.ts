@@ -0,0 +1,328 @@
+// Product reviews: one document per review in `product_reviews`, each with an embedding of its comment, so a
+// question ("is it comfortable for long hours?") finds the reviews that answer it. seed-reviews.ts copies the
+// seeded items' `user_reviews` in; shoppers add more through POST /products/:sku/reviews.
+import { EmbeddingsInterface } from "@langchain/core/embeddings"
+import { Collection } from "mongodb"
+import { randomUUID } from "crypto"
+import fs from "fs"
+import { ProductCatalog, cosineSimilarity } from "./catalog"
+import { ApiError, codeForStatus } from "./errors"
+import { toProductResult } from "./product-results"
+
+export interface ProductReview {
+  review_id: string    // "<product id>#<n>" for reviews copied from the catalog, a UUID for submitted ones
+  product_id: string   // sku (migrated products) or item_id (seeded items); never a variant sku
+  rating: number       // 1-5
+  comment: string
+  author?: string      // Display name a shopper chose, if any
+  review_date: string  // YYYY-MM-DD
+  source: "catalog" | "shopper"
+  session_id?: string  // Shopper session that submitted it; never returned to clients
+  embedding?: number[] // Embedding of the comment
+  created_at: Date
+}
+
+// A review as clients and the model see it
+export type PublicReview = Omit<ProductReview, "session_id" | "embedding" | "created_at"> & { score?: number }
+
+// Review statistics; null when a product has no reviews
+export interface RatingStats {
+  average: number                      // Rounded to one decimal
+  count: number
+  distribution: Record<string, number> // Star rating ("1".."5") to number of reviews
+}
+
+// How recent a product's reviews are
+export interface ReviewRecency {
+  latest: string | null          // Date of the newest review
+  last_90_days: number           // Reviews in the last 90 days
+  recent_average: number | null  // Average rating of the five newest reviews
+}
+
+// What the product_reviews tool returns
+export interface ReviewSummary {
+  product_id: string
+  title: string
+  stats: RatingStats | null
+  recency: ReviewRecency
+  snippets: PublicReview[]
+  snippet_order: "relevance" | "newest" // Relevance to the question, or newest first when there was none
+}
+
+// Atlas vector index over the review embeddings, pre-filtered by product
+export const REVIEW_VECTOR_INDEX = "review_vector_index"
+
+export function reviewVectorIndexDefinition(numDimensions: number) {
+  return {
+    fields: [
+      { type: "vector", path: "embedding", numDimensions, similarity: "cosine" },
+      { type: "filter", path: "product_id" },
+    ],
+  }
+}
+
+// API error with an HTTP status, so routes and tools can report it precisely
+export class ReviewError extends ApiError {
+  constructor(message: string, status = 400) {
+    super(codeForStatus(status), message, { status })
+    this.name = "ReviewError"
+  }
+}
+
+// Reported for a second review of the same product from one session
+const ALREADY_REVIEWED = "You have already reviewed this product"
+
+// Persistence for reviews (MongoDB in production, memory offline)
+export interface ReviewStore {
+  // Insert or replace reviews by review_id
+  save(reviews: ProductReview[]): Promise<void>
+  // One page of a product's reviews, newest first
+  list(productId: string, limit: number, offset: number): Promise<{ reviews: ProductReview[]; total: number }>
+  // Rating and date of every review of a product, for statistics
+  ratings(productId: string): Promise<Pick<ProductReview, "rating" | "review_date">[]>
+  // A product's reviews closest to a query vector, best first, with a 0-1 `score`
+  search(productId: string, queryVector: number[], n: number): Promise<(ProductReview & { score: number })[]>
+  // Whether a session has already reviewed a product
+  hasReviewed(productId: string, sessionId: string): Promise<boolean>
+}
+
+export class MongoReviewStore implements ReviewStore {
+  constructor(private collection: Collection<ProductReview>) {}
+
+  // One document per review; listing is by product, and each session can review a product once (catalog reviews
+  // have no session_id, hence the partial index)
+  async ensureIndexes(): Promise<void> {
+    await this.collection.createIndex({ review_id: 1 }, { unique: true })
+    await this.collection.createIndex({ product_id: 1, review_date: -1 })
+    await this.collection.createIndex(
+      { product_id: 1, session_id: 1 },
+      { name: "one_review_per_session", unique: true, partialFilterExpression: { session_id: { $exists: true } } }
+    )
+  }
+
+  async save(reviews: ProductReview[]): Promise<void> {
+    if (reviews.length === 0) return
+    try {
+      await this.collection.bulkWrite(
+        reviews.map((review) => ({
+          replaceOne: { filter: { review_id: review.review_id }, replacement: review, upsert: true },
+        })),
+        { ordered: false }
+      )
+    } catch (error: any) {
+      // A concurrent submit from the same session got past hasReviewed; the unique index rejects the second review
+      if (error?.code === 11000) throw new ReviewError(ALREADY_REVIEWED, 409)
+      throw error
+    }
+  }
+
+  async list(productId: string, limit: number, offset: number): Promise<{ reviews: ProductReview[]; total: number }> {
+    const [reviews, total] = await Promise.all([
+      this.collection
+        .find({ product_id: productId }, { projection: { _id: 0, embedding: 0 } })
+        .sort({ review_date: -1, created_at: -1 })
+        .skip(offset)
+        .limit(limit)
+        .toArray(),
+      this.collection.countDocuments({ product_id: productId }),
+    ])
+    return { reviews, total }
+  }
+
+  ratings(productId: string): Promise<Pick<ProductReview, "rating" | "review_date">[]> {
+    return this.collection
+      .find({ product_id: productId }, { projection: { _id: 0, rating: 1, review_date: 1 } })
+      .toArray()
+  }
+
+  async search(productId: string, queryVector: number[], n: number): Promise<(ProductReview & { score: number })[]> {
+    return (await this.collection
+      .aggregate([
+        {
+          $vectorSearch: {
+            index: REVIEW_VECTOR_INDEX,
+            path: "embedding",
+            queryVector,
+            numCandidates: Math.max(50, n * 10),
+            limit: n,
+            filter: { product_id: { $eq: productId } },
+          },
+        },
+        { $set: { score: { $meta: "vectorSearchScore" } } },
+        { $project: { _id: 0, embedding: 0 } },
+      ])
+      .toArray()) as (ProductReview & { score: number })[]
+  }
+
+  async hasReviewed(productId: string, sessionId: string): Promise<boolean> {
+    return (await this.collection.countDocuments({ product_id: productId, session_id: sessionId }, { limit: 1 })) > 0
+  }
+}
+
+// Reviews held in process memory; can be saved to and loaded from a JSON file
+export class InMemoryReviewStore implements ReviewStore {
+  constructor(private reviews: ProductReview[] = []) {}
+
+  static load(filePath: string): InMemoryReviewStore {
+    const reviews: ProductReview[] = JSON.parse(fs.readFileSync(filePath, "utf8"))
+    return new InMemoryReviewStore(reviews.map((review) => ({ ...review, created_at: new Date(review.created_at) })))
+  }
+
+  async save(reviews: ProductReview[]): Promise<void> {
+    for (const review of reviews) {
+      const existing = this.reviews.findIndex((r) => r.review_id === review.review_id)
+      if (existing >= 0) this.reviews[existing] = structuredClone(review)
+      else this.reviews.push(structuredClone(review))
+    }
+  }
+
+  // Write every review (with embeddings) to a JSON file the offline server can load
+  saveToFile(filePath: string): void {
+    fs.writeFileSync(filePath, JSON.stringify(this.reviews, null, 2))
+  }
+
+  private ofProduct(productId: string): ProductReview[] {
+    return this.reviews.filter((review) => review.product_id === productId)
+  }
+
+  async list(productId: string, limit: number, offset: number): Promise<{ reviews: ProductReview[]; total: number }> {
+    const reviews = newestFirst(this.ofProduct(productId))
+    return {
+      reviews: reviews.slice(offset, offset + limit).map(({ embedding, ...review }) => structuredClone(review)),
+      total: reviews.length,
+    }
+  }
+
+  async ratings(productId: string): Promise<Pick<ProductReview, "rating" | "review_date">[]> {
+    return this.ofProduct(productId).map(({ rating, review_date }) => ({ rating, review_date }))
+  }
+
+  async search(productId: string, queryVector: number[], n: number): Promise<(ProductReview & { score: number })[]> {
+    return this.ofProduct(productId)
+      .filter((review) => Array.isArray(review.embedding))
+      // Rescale cosine from [-1, 1] to [0, 1], matching Atlas vectorSearchScore
+      .map(({ embedding, ...review }) => ({ ...structuredClone(review), score: (1 + cosineSimilarity(queryVector, embedding!)) / 2 }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, n)
+  }
+
+  async hasReviewed(productId: string, sessionId: string): Promise<boolean> {
+    return this.ofProduct(productId).some((review) => review.session_id === sessionId)
+  }
+}
+
+// By review date, then (for reviews from the same day) by when they were stored, like MongoReviewStore.list
+function newestFirst<T extends { review_date: string; created_at?: Date }>(reviews: T[]): T[] {
+  return [...reviews].sort(
+    (a, b) =>
+      b.review_date.localeCompare(a.review_date) || (b.created_at?.getTime() ?? 0) - (a.created_at?.getTime() ?? 0)
+  )
+}
+
+// Average, count and star distribution of a set of ratings
+export function ratingStats(reviews: { rating: number }[] | undefined): RatingStats | null {
+  const ratings = (reviews ?? []).map((review) => Number(review.rating)).filter((rating) => rating >= 1 && rating <= 5)
+  if (ratings.length === 0) return null
+  const distribution: Record<string, number> = { "1": 0, "2": 0, "3": 0, "4": 0, "5": 0 }
+  for (const rating of ratings) distribution[String(Math.round(rating))]++
+  const average = ratings.reduce((sum, rating) => sum + rating, 0) / ratings.length
+  return { average: Math.round(average * 10) / 10, count: ratings.length, distribution }
+}
+
+// Newest review date, reviews in the last 90 days and the average of the five newest
+export function reviewRecency(reviews: Pick<ProductReview, "rating" | "review_date">[], now = new Date()): ReviewRecency {
+  const sorted = newestFirst(reviews)
+  const cutoff = new Date(now.getTime() - 90 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10)
+  return {
+    latest: sorted[0]?.review_date ?? null,
+    last_90_days: sorted.filter((review) => review.review_date >= cutoff).length,
+    recent_average: ratingStats(sorted.slice(0, 5))?.average ?? null,
+  }
+}
+
+// Reviews copied from a catalog document's `user_reviews`, with stable ids so copying again replaces them
+export function catalogReviews(product: Record<string, any>): ProductReview[] {
+  const productId = toProductResult(product).id
+  return (product.user_reviews ?? []).map((review: any, i: number) => ({
+    review_id: `${productId}#${i + 1}`,
+    product_id: productId,
+    rating: Number(review.rating),
+    comment: String(review.comment ?? ""),
+    review_date: String(review.review_date ?? "").slice(0, 10),
+    source: "catalog" as const,
+    created_at: new Date(),
+  }))
+}
+
+function toPublicReview({ session_id, embedding, created_at, ...review }: ProductReview & { score?: number }): PublicReview {
+  return { ...review, ...(review.score !== undefined ? { score: Number(review.score.toFixed(4)) } : {}) }
+}
+
+// Review operations shared by the product_reviews tool, compare_products and the /products/:sku/reviews routes
+export class ReviewService {
+  constructor(private store: ReviewStore, private catalog: ProductCatalog, private embeddings: EmbeddingsInterface) {}
+
+  // The product a sku, handle, item_id or variant sku refers to
+  private async product(identifier: string): Promise<{ id: string; title: string }> {
+    const doc = await this.catalog.findExact(identifier)
+    if (!doc) throw new ReviewError(`Product ${identifier} was not found`, 404)
+    const { id, title } = toProductResult(doc)
+    return { id, title }
+  }
+
+  // Rating statistics of a product by its canonical id
+  async stats(productId: string): Promise<RatingStats | null> {
+    return ratingStats(await this.store.ratings(productId))
+  }
+
+  // Statistics, recency and the `n` reviews most relevant to the question (newest first without one)
+  async summarize(identifier: string, question?: string, n = 3): Promise<ReviewSummary> {
+    const { id, title } = await this.product(identifier)
+    const ratings = await this.store.ratings(id)
+    const snippets = question?.trim()
+      ? await this.store.search(id, await this.embeddings.embedQuery(question), n)
+      : (await this.store.list(id, n, 0)).reviews
+    return {
+      product_id: id,
+      title,
+      stats: ratingStats(ratings),
+      recency: reviewRecency(ratings),
+      snippets: snippets.map(toPublicReview),
+      snippet_order: question?.trim() ? "relevance" : "newest",
+    }
+  }
+
+  // One page of a product's reviews, newest first, with its statistics
+  async list(identifier: string, limit: number, offset: number) {
+    const { id, title } = await this.product(identifier)
+    const [{ reviews, total }, stats] = await Promise.all([this.store.list(id, limit, offset), this.stats(id)])
+    return { product_id: id, title, stats, reviews: reviews.map(toPublicReview), total, limit, offset }
+  }
+
+  // Add a shopper's review; each session can review a product once
+  async submit(
+    identifier: string,
+    review: { rating: number; comment: string; author?: string },
+    sessionId: string
+  ): Promise<PublicReview> {
+    const { id } = await this.product(identifier)
+    if (await this.store.hasReviewed(id, sessionId)) {
+      throw new ReviewError(ALREADY_REVIEWED, 409)
+    }
+    const now = new Date()
+    const stored: ProductReview = {
+      review_id: randomUUID(),
+      product_id: id,
+      rating: review.rating,
+      comment: review.comment,
+      ...(review.author ? { author: review.author } : {}),
+      review_date: now.toISOString().slice(0, 10),
+      source: "shopper",
+      session_id: sessionId,
+      embedding: (await this.embeddings.embedDocuments([review.comment]))[0],
+      created_at: now,
+    }
+    await this.store.save([stored])
+    return toPublicReview(stored)
+  }
+}
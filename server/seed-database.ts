@@ -1,25 +1,62 @@
-// Import Google's Gemini chat model and embeddings for AI text generation and vector creation
-import { ChatGoogleGenerativeAI, GoogleGenerativeAIEmbeddings } from "@langchain/google-genai"
+// Import the provider registry for the configured chat model (data generation) and embeddings (vector creation)
+import {
+  createChatModel,
+  createEmbeddings,
+  loadProviderConfig,
+  verifyEmbeddingDimensions,
+} from "./providers"
+// Import the vector index definition (embedding vector plus structured filter fields)
+import { vectorIndexDefinition } from "./product-filters"
+// Import the embedding versions (which vector field and index the server searches, see `npm run reindex`)
+import {
+  EmbeddingVersion,
+  EmbeddingVersionStore,
+  initialVersion,
+  sameModel,
+  vectorHashField,
+  versionEmbeddings,
+} from "./embedding-versions"
+// Import the content hash the catalog sync and reindex compare vectors against
+import { contentHash } from "./ingestion"
 // Import structured output parser to ensure AI returns data in specific format
 import { StructuredOutputParser } from "@langchain/core/output_parsers"
+import type { InteropZodType } from "@langchain/core/utils/types"
 // Import MongoDB client for database connection
 import { MongoClient } from "mongodb"
 // Import MongoDB Atlas vector search for storing and searching embeddings
 import { MongoDBAtlasVectorSearch } from "@langchain/mongodb"
 // Import Zod for data schema validation and type safety
 import { z } from "zod"
+// Import offline mode helpers: scripted model, in-memory catalog, fixture data
+import { AIMessage } from "@langchain/core/messages"
+import { InMemoryProductCatalog, TEXT_INDEX_NAME, textSearchIndexDefinition } from "./catalog"
+import { ScriptedChatModel } from "./fakes"
+import { FIXTURE_ITEMS_PATH, isOfflineMode, offlineStorePath } from "./offline"
+import fs from "fs"
+// Import the variant helpers shared with the catalog migration (stock summaries, default variants)
+import { describeVariants, productVariants, variantFields } from "./variants"
 // Load environment variables from .env file (API keys, connection strings)
 import "dotenv/config"
 
-// Create MongoDB client instance using connection string from environment variables
-const client = new MongoClient(process.env.MONGODB_ATLAS_URI as string)
+// Offline mode writes to a local JSON store instead of MongoDB Atlas
+const offline = isOfflineMode()
 
-// Initialize Google Gemini chat model for generating synthetic furniture data
-const llm = new ChatGoogleGenerativeAI({
-  model: "gemini-1.5-flash",  // Use Gemini 1.5 Flash model
-  temperature: 0.7,               // Set creativity level (0.7 = moderately creative)
-  apiKey: process.env.GOOGLE_API_KEY, // Google API key from environment variables
-})
+// Create MongoDB client instance using connection string from environment variables (not needed offline)
+const client = offline ? null : new MongoClient(process.env.MONGODB_ATLAS_URI as string)
+
+// Resolve which chat/embedding providers to use (LLM_PROVIDER, EMBEDDING_PROVIDER, ...)
+const providerConfig = loadProviderConfig()
+
+// Initialize the chat model for generating synthetic furniture data
+// (offline, a scripted model "generates" the fixture items instead)
+const llm = offline
+  ? new ScriptedChatModel({ script: [new AIMessage(fs.readFileSync(FIXTURE_ITEMS_PATH, "utf8"))] })
+  : createChatModel(providerConfig, {
+      temperature: 0.7,               // Set creativity level (0.7 = moderately creative)
+    })
+
+// Initialize the embedding model used for vector storage
+const embeddings = createEmbeddings(providerConfig)
 
 // Define schema for furniture item structure using Zod validation
 const itemSchema = z.object({
@@ -47,13 +84,24 @@ const itemSchema = z.object({
     })
   ),
   notes: z.string(),                      // Additional notes about the item
+  variants: z.array(                      // Optional purchasable variants (e.g. colours), each with its own stock
+    z.object({
+      sku: z.string(),                    // Variant SKU
+      title: z.string(),                  // Variant name, e.g. "Grey Linen"
+      options: z.record(z.string()),      // Option name to value, e.g. { Color: "Grey Linen" }
+      price: z.number(),                  // Price the customer pays
+      compare_at_price: z.number().optional(), // Regular price when on sale
+      inventory_quantity: z.number(),     // Units in stock
+    })
+  ).optional(),
 })
 
 // Create TypeScript type from Zod schema for type safety
 type Item = z.infer<typeof itemSchema>
 
-// Create parser that ensures AI output matches our item schema
-const parser = StructuredOutputParser.fromZodSchema(z.array(itemSchema))
+// Create parser that ensures AI output matches our item schema. Our zod release predates the schema type
+// @langchain/core declares (InteropZodType); the parser handles these schemas the same at runtime.
+const parser = StructuredOutputParser.fromZodSchema(z.array(itemSchema) as unknown as InteropZodType<Item[]>)
 
 // Function to create database and collection before seeding
 async function setupDatabaseAndCollection(): Promise<void> {
@@ -73,25 +121,17 @@ async function setupDatabaseAndCollection(): Promise<void> {
   }
 }
 
-// Function to create vector search index
-async function createVectorSearchIndex(): Promise<void> {
+// Function to create the vector search index of the embedding version being seeded
+async function createVectorSearchIndex(version: EmbeddingVersion): Promise<void> {
   try {
     const db = client.db("inventory_database")
     const collection = db.collection("items")
     await collection.dropIndexes()
     const vectorSearchIdx = {
-      name: "vector_index",
+      name: version.index,
       type: "vectorSearch",
-      definition: {
-        "fields": [
-          {
-            "type": "vector",
-            "path": "embedding",
-            "numDimensions": 768,
-            "similarity": "cosine"
-          }
-        ]
-      }
+      // Vector field plus the filter fields used by item_lookup's price/brand/tag/stock filters
+      definition: vectorIndexDefinition(version.dimensions, version.field)
     }
     console.log("Creating vector search index...")
     await collection.createSearchIndex(vectorSearchIdx);
@@ -102,9 +142,27 @@ async function createVectorSearchIndex(): Promise<void> {
   }
 }
 
+// Function to create the full-text search index used by hybrid search
+async function createTextSearchIndex(): Promise<void> {
+  try {
+    const collection = client.db("inventory_database").collection("items")
+    const textSearchIdx = {
+      name: TEXT_INDEX_NAME,
+      type: "search",
+      definition: textSearchIndexDefinition()
+    }
+    console.log("Creating text search index...")
+    await collection.createSearchIndex(textSearchIdx)
+
+    console.log("Successfully created text search index")
+  } catch (e) {
+    console.error('Failed to create text search index:', e)
+  }
+}
+
 async function generateSyntheticData(): Promise<Item[]> {
   // Create detailed prompt instructing AI to generate furniture store data
-  const prompt = `You are a helpful assistant that generates furniture store item data. Generate 10 furniture store items. Each record should include the following fields: item_id, item_name, item_description, brand, manufacturer_address, prices, categories, user_reviews, notes. Ensure variety in the data and realistic values.
+  const prompt = `You are a helpful assistant that generates furniture store item data. Generate 10 furniture store items. Each record should include the following fields: item_id, item_name, item_description, brand, manufacturer_address, prices, categories, user_reviews, notes, and for items sold in several colours or sizes, variants with their own stock levels. Ensure variety in the data and realistic values.
 
   ${parser.getFormatInstructions()}`  // Add format instructions from parser
 
@@ -138,17 +196,46 @@ async function createItemSummary(item: Item): Promise<string> {
     const price = `At full price it costs: ${item.prices.full_price} USD, On sale it costs: ${item.prices.sale_price} USD`
     // Get additional notes
     const notes = item.notes
+    // Describe the variants and their stock (empty for items without variants)
+    const variants = describeVariants(productVariants(item), "USD")
 
     // Combine all information into comprehensive summary for vector search
-    const summary = `${basicInfo}. Manufacturer: ${manufacturerDetails}. Categories: ${categories}. Reviews: ${userReviews}. Price: ${price}. Notes: ${notes}`
+    const summary = `${basicInfo}. Manufacturer: ${manufacturerDetails}. Categories: ${categories}. Reviews: ${userReviews}. Price: ${price}.${variants ? ` ${variants}.` : ""} Notes: ${notes}`
 
     // Resolve promise with complete summary
     resolve(summary)
   })
 }
 
+// Offline seeding: store the items with their summaries and embeddings in the local JSON store
+async function seedOfflineStore(): Promise<void> {
+  const storePath = offlineStorePath()
+  const catalog = new InMemoryProductCatalog(embeddings)
+
+  // Generate the (scripted) furniture data and build searchable summaries
+  const syntheticData = await generateSyntheticData()
+  const records = await Promise.all(
+    syntheticData.map(async (record) => ({
+      ...record,                                      // Original item data
+      ...variantFields(record),                       // Variants (a default one if it has none) and stock
+      embedding_text: await createItemSummary(record), // Searchable summary
+    }))
+  )
+
+  // Embed and save everything in one go
+  await catalog.addProducts(records)
+  catalog.save(storePath)
+  console.log(`Saved ${records.length} items to offline store: ${storePath}`)
+}
+
 // Main function to populate database with AI-generated furniture data
 async function seedDatabase(): Promise<void> {
+  if (offline) {
+    await verifyEmbeddingDimensions(embeddings)
+    await seedOfflineStore()
+    return
+  }
+
   try {
     // Establish connection to MongoDB Atlas
     await client.connect()
@@ -157,11 +244,23 @@ async function seedDatabase(): Promise<void> {
     // Log successful connection
     console.log("You successfully connected to MongoDB!")
 
+    // Seed the active embedding version's field and index, which are the configured model's
+    // `embedding` and `vector_index` until the first reindex
+    const configured = initialVersion(providerConfig)
+    const version = await new EmbeddingVersionStore(client.db("inventory_database").collection("search_config"))
+      .active(configured)
+    const versionModel = sameModel(version, configured) ? embeddings : versionEmbeddings(version)
+
+    // Make sure the embedding model produces vectors the index can hold
+    await verifyEmbeddingDimensions(versionModel, version.dimensions)
+
     // Setup database and collection
     await setupDatabaseAndCollection()
     
     // Create vector search index
-    await createVectorSearchIndex()
+    await createVectorSearchIndex(version)
+    // Create full-text search index (paired with the vector index for hybrid search)
+    await createTextSearchIndex()
 
     // Get reference to specific database
     const db = client.db("inventory_database")
@@ -177,26 +276,31 @@ async function seedDatabase(): Promise<void> {
 
     // Process each item: create summary and prepare for vector storage
     const recordsWithSummaries = await Promise.all(
-      syntheticData.map(async (record) => ({
-        pageContent: await createItemSummary(record),  // Create searchable summary
-        metadata: {...record},                         // Preserve original item data
-      }))
+      syntheticData.map(async (record) => {
+        const summary = await createItemSummary(record)  // Create searchable summary
+        const hash = contentHash(summary)
+        return {
+          pageContent: summary,
+          metadata: {
+            ...record, ...variantFields(record),         // Preserve original item data, with variants and stock
+            content_hash: hash,                          // Lets reindex verify tell current vectors from stale ones
+            [vectorHashField(version)]: hash,            // The vector stored below is built from this summary
+          },
+        }
+      })
     )
     
     // Store each record with vector embeddings in MongoDB
     for (const record of recordsWithSummaries) {
-      // Create vector embeddings and store in MongoDB Atlas using Gemini
+      // Create vector embeddings and store in MongoDB Atlas using the configured embedding model
       await MongoDBAtlasVectorSearch.fromDocuments(
         [record],                    // Array containing single record
-        new GoogleGenerativeAIEmbeddings({            // Google embedding model
-          apiKey: process.env.GOOGLE_API_KEY,         // Google API key
-          modelName: "text-embedding-004",            // Google's standard embedding model (768 dimensions)
-        }),
+        versionModel,                // Embedding model of the active version
         {
           collection,                // MongoDB collection reference
-          indexName: "vector_index", // Name of vector search index
+          indexName: version.index,  // Name of the version's vector search index
           textKey: "embedding_text", // Field name for searchable text
-          embeddingKey: "embedding", // Field name for vector embeddings
+          embeddingKey: version.field, // Field name for vector embeddings (the version's field)
         }
       )
 
@@ -0,0 +1,41 @@
+// Seed sample orders (fixtures/orders.json) so order_lookup can be exercised locally.
+// Run after seed-database.ts: the orders reference the seeded furniture items by item_id.
+import { MongoClient } from "mongodb"
+import fs from "fs"
+import { MongoOrderStore, Order } from "./orders"
+import { FIXTURE_ORDERS_PATH, isOfflineMode, offlineOrdersPath } from "./offline"
+// Load environment variables from .env file (connection string)
+import "dotenv/config"
+
+async function seedOrders(): Promise<void> {
+  const orders: Order[] = JSON.parse(fs.readFileSync(FIXTURE_ORDERS_PATH, "utf8"))
+
+  // Offline, the orders are copied to the local JSON file the offline server reads
+  if (isOfflineMode()) {
+    const ordersPath = offlineOrdersPath()
+    fs.writeFileSync(ordersPath, JSON.stringify(orders, null, 2))
+    console.log(`Saved ${orders.length} orders to offline store: ${ordersPath}`)
+    return
+  }
+
+  const client = new MongoClient(process.env.MONGODB_ATLAS_URI as string)
+  try {
+    await client.connect()
+    await client.db("admin").command({ ping: 1 })
+    console.log("You successfully connected to MongoDB!")
+
+    const collection = client.db("inventory_database").collection<Order>("orders")
+    await new MongoOrderStore(collection).ensureIndexes()
+
+    // Replace the sample orders, leaving any other orders in place
+    await collection.deleteMany({ order_number: { $in: orders.map((o) => o.order_number) } })
+    await collection.insertMany(orders)
+    console.log(`Seeded ${orders.length} orders: ${orders.map((o) => o.order_number).join(", ")}`)
+  } catch (error) {
+    console.error("Error seeding orders:", error)
+  } finally {
+    await client.close()
+  }
+}
+
+seedOrders().catch(console.error)
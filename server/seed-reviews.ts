@@ -0,0 +1,104 @@
+// Copy the catalog's `user_reviews` into the product_reviews collection, one document per review with an embedding
+// of its comment, so product_reviews can find the reviews that answer a question.
+// Run after seed-database.ts (or a catalog migration); running it again replaces the copied reviews.
+import { MongoClient } from "mongodb"
+import fs from "fs"
+import {
+  InMemoryReviewStore,
+  MongoReviewStore,
+  ProductReview,
+  REVIEW_VECTOR_INDEX,
+  catalogReviews,
+  reviewVectorIndexDefinition,
+} from "./reviews"
+import { ACTIVE_PRODUCT_FILTER, isActiveProduct } from "./product-filters"
+import { isOfflineMode, offlineReviewsPath, offlineStorePath } from "./offline"
+import { createEmbeddings, loadProviderConfig } from "./providers"
+// Load environment variables from .env file (connection string, embedding provider)
+import "dotenv/config"
+
+// Comments embedded per request to the embedding provider
+const BATCH_SIZE = 100
+
+const config = loadProviderConfig()
+const embeddings = createEmbeddings(config)
+
+// Embed each review's comment, in batches
+async function embedReviews(reviews: ProductReview[]): Promise<void> {
+  for (let i = 0; i < reviews.length; i += BATCH_SIZE) {
+    const batch = reviews.slice(i, i + BATCH_SIZE)
+    const vectors = await embeddings.embedDocuments(batch.map((review) => review.comment))
+    batch.forEach((review, j) => (review.embedding = vectors[j]))
+    console.log(`Embedded ${Math.min(i + BATCH_SIZE, reviews.length)}/${reviews.length} reviews`)
+  }
+}
+
+// Create the review vector index if it doesn't exist
+async function ensureReviewVectorIndex(client: MongoClient): Promise<void> {
+  const collection = client.db("inventory_database").collection("product_reviews")
+  const indexes = await collection.listSearchIndexes(REVIEW_VECTOR_INDEX).toArray()
+  if (indexes.length > 0) {
+    console.log(`Vector search index ${REVIEW_VECTOR_INDEX} already exists`)
+    return
+  }
+  console.log(`Creating vector search index ${REVIEW_VECTOR_INDEX}...`)
+  await collection.createSearchIndex({
+    name: REVIEW_VECTOR_INDEX,
+    type: "vectorSearch",
+    definition: reviewVectorIndexDefinition(config.embeddings.dimensions),
+  })
+  console.log(`Successfully created vector search index ${REVIEW_VECTOR_INDEX}`)
+}
+
+// Offline, the reviews of the products in the local JSON store go to the local reviews file; shopper reviews
+// already in it are kept
+async function seedOfflineReviews(): Promise<void> {
+  const storePath = offlineStorePath()
+  if (!fs.existsSync(storePath)) {
+    throw new Error(`No offline store at ${storePath}; run "OFFLINE_MODE=true npm run seed" first`)
+  }
+  const products: Record<string, any>[] = JSON.parse(fs.readFileSync(storePath, "utf8")).filter(isActiveProduct)
+  const reviews = products.flatMap(catalogReviews)
+  await embedReviews(reviews)
+
+  const reviewsPath = offlineReviewsPath()
+  const store = fs.existsSync(reviewsPath) ? InMemoryReviewStore.load(reviewsPath) : new InMemoryReviewStore()
+  await store.save(reviews)
+  store.saveToFile(reviewsPath)
+  console.log(`Saved ${reviews.length} reviews of ${products.length} products to offline store: ${reviewsPath}`)
+}
+
+async function seedReviews(): Promise<void> {
+  if (isOfflineMode()) {
+    await seedOfflineReviews()
+    return
+  }
+
+  const client = new MongoClient(process.env.MONGODB_ATLAS_URI as string)
+  try {
+    await client.connect()
+    await client.db("admin").command({ ping: 1 })
+    console.log("You successfully connected to MongoDB!")
+
+    const db = client.db("inventory_database")
+    const products = await db
+      .collection("items")
+      .find({ ...ACTIVE_PRODUCT_FILTER, "user_reviews.0": { $exists: true } }, { projection: { embedding: 0 } })
+      .toArray()
+    const reviews = products.flatMap(catalogReviews)
+    await embedReviews(reviews)
+
+    const store = new MongoReviewStore(db.collection<ProductReview>("product_reviews"))
+    await store.ensureIndexes()
+    await store.save(reviews)
+    console.log(`Seeded ${reviews.length} reviews of ${products.length} products`)
+
+    await ensureReviewVectorIndex(client)
+  } catch (error) {
+    console.error("Error seeding reviews:", error)
+  } finally {
+    await client.close()
+  }
+}
+
+seedReviews().catch(console.error)
@@ -0,0 +1,93 @@
+// Anonymous shopper sessions: signed session tokens, random thread ids and thread ownership checks
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from "crypto"
+import { NextFunction, Request, Response } from "express"
+import { ThreadStore } from "./conversations"
+import { ApiError } from "./errors"
+
+// Name of the cookie that carries the session token for browser clients
+export const SESSION_COOKIE = "session"
+
+const SESSION_MAX_AGE_SECONDS = 60 * 60 * 24 * 30 // 30 days
+
+// SESSION_SECRET signs session tokens; without it a random secret is used and sessions end on restart
+export function loadSessionSecret(env: NodeJS.ProcessEnv = process.env): string {
+  if (env.SESSION_SECRET) return env.SESSION_SECRET
+  console.warn("SESSION_SECRET is not set; using a random secret, so sessions will not survive a restart")
+  return randomBytes(32).toString("hex")
+}
+
+function sign(sessionId: string, secret: string): string {
+  return createHmac("sha256", secret).update(sessionId).digest("base64url")
+}
+
+// A new session token: "<random session id>.<HMAC of the id>"
+export function issueSessionToken(secret: string): { sessionId: string; token: string } {
+  const sessionId = randomBytes(24).toString("base64url")
+  return { sessionId, token: `${sessionId}.${sign(sessionId, secret)}` }
+}
+
+// The session id inside a token, or null if the token is malformed or its signature doesn't match
+export function verifySessionToken(token: string, secret: string): string | null {
+  const [sessionId, signature, ...rest] = token.split(".")
+  if (!sessionId || !signature || rest.length > 0) return null
+  const expected = Buffer.from(sign(sessionId, secret))
+  const actual = Buffer.from(signature)
+  return actual.length === expected.length && timingSafeEqual(actual, expected) ? sessionId : null
+}
+
+// Cryptographically random, unguessable thread id
+export function newThreadId(): string {
+  return randomUUID()
+}
+
+// Token from "Authorization: Bearer <token>", falling back to the session cookie
+function readSessionToken(req: Request): string | undefined {
+  const authorization = req.headers.authorization
+  if (authorization?.startsWith("Bearer ")) return authorization.slice("Bearer ".length).trim()
+  for (const cookie of (req.headers.cookie ?? "").split(";")) {
+    const [name, ...value] = cookie.trim().split("=")
+    if (name === SESSION_COOKIE) return decodeURIComponent(value.join("="))
+  }
+  return undefined
+}
+
+// Store the session token in an HttpOnly cookie for browser clients
+export function setSessionCookie(res: Response, token: string, secure = process.env.SESSION_COOKIE_SECURE === "true"): void {
+  res.cookie(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure,
+    maxAge: SESSION_MAX_AGE_SECONDS * 1000,
+  })
+}
+
+// Require a valid session token; the caller's session id is put in res.locals.sessionId
+export function requireSession(secret: string) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const token = readSessionToken(req)
+    const sessionId = token ? verifySessionToken(token, secret) : null
+    if (!sessionId) {
+      return next(new ApiError("UNAUTHORIZED", "A valid session token is required; get one from POST /session"))
+    }
+    res.locals.sessionId = sessionId
+    next()
+  }
+}
+
+// Reject requests for a :threadId the caller's session doesn't own (use after requireSession)
+export function requireThreadOwner(threads: ThreadStore) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const owner = await threads.ownerOf(req.params.threadId)
+      if (!owner) {
+        next(new ApiError("NOT_FOUND", "Conversation not found"))
+      } else if (owner !== res.locals.sessionId) {
+        next(new ApiError("FORBIDDEN", "This conversation belongs to another session"))
+      } else {
+        next()
+      }
+    } catch (error) {
+      next(error)
+    }
+  }
+}
@@ -0,0 +1,80 @@
+// The daily model budget, alone and in the agent: over-budget replies and pausing after provider 429s
+import { describe, it } from "node:test"
+import assert from "node:assert/strict"
+import { BaseMessage } from "@langchain/core/messages"
+import { ChatResult } from "@langchain/core/outputs"
+import { BUDGET_EXHAUSTED_MESSAGE, BudgetOptions, InMemoryUsageStore, UsageBudget, providerBusyMessage } from "../budget"
+import { callAgent, createAgent } from "../agent"
+import { createOfflineAgentDependencies } from "../offline"
+import { ScriptedChatModel } from "../fakes"
+import { fixtureCatalog } from "./helpers"
+
+const OPTIONS: BudgetOptions = { dailyTokens: 1000, dailyCostUsd: 0, inputCostPerMillion: 0, outputCostPerMillion: 0 }
+
+// Chat model that always fails like a provider rate limit, counting how often it was called
+class RateLimitedChatModel extends ScriptedChatModel {
+  constructor(private onCall: () => void) {
+    super()
+  }
+
+  async _generate(messages: BaseMessage[]): Promise<ChatResult> {
+    this.onCall()
+    throw Object.assign(new Error("Too many requests"), { status: 429, headers: { "retry-after": "30" } })
+  }
+}
+
+describe("UsageBudget", () => {
+  it("lets the model be called until today's tokens are used up", async () => {
+    const budget = new UsageBudget(new InMemoryUsageStore(), OPTIONS)
+    assert.equal(await budget.blockedReply(), null)
+
+    await budget.record({ input_tokens: 600, output_tokens: 300, total_tokens: 900 })
+    assert.equal(await budget.blockedReply(), null)
+
+    await budget.record({ input_tokens: 80, output_tokens: 20, total_tokens: 100 })
+    assert.equal(await budget.blockedReply(), BUDGET_EXHAUSTED_MESSAGE)
+  })
+
+  it("stops on the daily cost when a cost budget is set", async () => {
+    const budget = new UsageBudget(new InMemoryUsageStore(), {
+      dailyTokens: 0,
+      dailyCostUsd: 1,
+      inputCostPerMillion: 2,
+      outputCostPerMillion: 10,
+    })
+    await budget.record({ input_tokens: 250000, output_tokens: 50000, total_tokens: 300000 }) // $0.50 + $0.50
+    assert.equal(await budget.blockedReply(), BUDGET_EXHAUSTED_MESSAGE)
+  })
+
+  it("reports a short break while paused", async () => {
+    const budget = new UsageBudget(new InMemoryUsageStore(), OPTIONS)
+    budget.pause(30)
+    assert.equal(await budget.blockedReply(), providerBusyMessage(30))
+  })
+})
+
+describe("agent with a budget", () => {
+  it("pauses model calls after a provider rate limit and answers without the model meanwhile", async () => {
+    let calls = 0
+    const budget = new UsageBudget(new InMemoryUsageStore(), OPTIONS)
+    const agent = createAgent({
+      ...createOfflineAgentDependencies(await fixtureCatalog()),
+      model: new RateLimitedChatModel(() => calls++),
+      budget,
+    })
+
+    assert.equal((await callAgent(agent, "Do you have a sofa?", "thread-1")).response, providerBusyMessage(30))
+    assert.equal(calls, 1)
+
+    // Still paused: the reply comes from the budget, not the provider
+    assert.match(String((await callAgent(agent, "Hello again", "thread-2")).response), /try again in about \d+ seconds/)
+    assert.equal(calls, 1)
+  })
+
+  it("replies with the exhausted message once the day's budget is spent", async () => {
+    const budget = new UsageBudget(new InMemoryUsageStore(), OPTIONS)
+    await budget.record({ input_tokens: 1000, output_tokens: 0, total_tokens: 1000 })
+    const agent = createAgent({ ...createOfflineAgentDependencies(await fixtureCatalog()), budget })
+    assert.equal((await callAgent(agent, "Do you have a sofa?", "thread-3")).response, BUDGET_EXHAUSTED_MESSAGE)
+  })
+})
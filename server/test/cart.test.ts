@@ -0,0 +1,61 @@
+// Cart rules for variants and stock, against the fixture items (SOFA-001 has a grey variant with 4 in stock and a
+// navy one that is sold out; DESK-004 has a single variant)
+import { beforeEach, describe, it } from "node:test"
+import assert from "node:assert/strict"
+import { CartError, CartService, InMemoryCartStore } from "../cart"
+import { fixtureCatalog } from "./helpers"
+
+// Assert a promise fails with a CartError of the given status
+async function rejectsWith(promise: Promise<unknown>, status: number, message: RegExp) {
+  await assert.rejects(promise, (error: any) => {
+    assert.ok(error instanceof CartError)
+    assert.equal(error.status, status)
+    assert.match(error.message, message)
+    return true
+  })
+}
+
+describe("CartService", () => {
+  let cart: CartService
+
+  beforeEach(async () => {
+    cart = new CartService(new InMemoryCartStore(), await fixtureCatalog())
+  })
+
+  it("adds a variant by its sku, at the variant's price", async () => {
+    const summary = await cart.addItem("t1", "SOFA-001-GRY", 2)
+    assert.deepEqual(
+      summary.lines.map(({ product_id, title, unit_price, quantity }) => ({ product_id, title, unit_price, quantity })),
+      [{ product_id: "SOFA-001-GRY", title: "Harbor Three-Seat Sofa (Grey Linen)", unit_price: 1099, quantity: 2 }]
+    )
+    assert.equal(summary.subtotal, 2198)
+  })
+
+  it("adds a product with a single variant by its own id", async () => {
+    const summary = await cart.addItem("t1", "DESK-004")
+    assert.deepEqual(summary.lines.map((line) => line.product_id), ["DESK-004"])
+  })
+
+  it("requires a variant sku for a product with several variants", async () => {
+    await rejectsWith(cart.addItem("t1", "SOFA-001"), 400, /several options.*SOFA-001-GRY, SOFA-001-BLU/)
+    assert.equal((await cart.getCart("t1")).lines.length, 0)
+  })
+
+  it("refuses a sold-out variant", async () => {
+    await rejectsWith(cart.addItem("t1", "SOFA-001-BLU", 5), 409, /out of stock/)
+    assert.equal((await cart.getCart("t1")).lines.length, 0)
+  })
+
+  it("refuses more than the variant's inventory, counting what is already in the cart", async () => {
+    await rejectsWith(cart.addItem("t1", "SOFA-001-GRY", 5), 409, /Only 4 of/)
+    await cart.addItem("t1", "SOFA-001-GRY", 3)
+    await rejectsWith(cart.addItem("t1", "SOFA-001-GRY", 2), 409, /Only 4 of/)
+    await rejectsWith(cart.updateQuantity("t1", "SOFA-001-GRY", 5), 409, /Only 4 of/)
+    assert.equal((await cart.updateQuantity("t1", "SOFA-001-GRY", 4)).item_count, 4)
+  })
+
+  it("reports unknown products and lines as not found", async () => {
+    await rejectsWith(cart.addItem("t1", "NOPE-1"), 404, /was not found/)
+    await rejectsWith(cart.updateQuantity("t1", "DESK-004", 2), 404, /not in the cart/)
+  })
+})
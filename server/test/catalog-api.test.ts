@@ -0,0 +1,88 @@
+// The public catalog routes over the offline fixture catalog: browsing, product pages, similar products and facets
+import { after, before, describe, it } from "node:test"
+import assert from "node:assert/strict"
+import { AddressInfo } from "net"
+import { Server } from "http"
+import { createApp } from "../index"
+import { createOfflineAgentDependencies } from "../offline"
+import { fixtureCatalog } from "./helpers"
+
+describe("catalog API", () => {
+  let server: Server
+  let baseUrl: string
+
+  before(async () => {
+    server = createApp(createOfflineAgentDependencies(await fixtureCatalog())).listen(0)
+    await new Promise((resolve) => server.once("listening", resolve))
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  })
+
+  after(() => new Promise((resolve) => server.close(resolve)))
+
+  // GET a path; every catalog response is checked for leaked embedding vectors
+  async function get(path: string) {
+    const response = await fetch(`${baseUrl}${path}`)
+    const body = await response.json()
+    assert.doesNotMatch(JSON.stringify(body), /embedding/)
+    return { status: response.status, body }
+  }
+
+  it("lists products with filters, sorting and paging", async () => {
+    const { status, body } = await get("/products?vendor=WorkWell")
+    assert.equal(status, 200)
+    assert.deepEqual(body.products.map((product: any) => product.id), ["CHAIR-003", "DESK-004"]) // title_asc
+    assert.equal(body.total, 2)
+
+    const { body: cheapest } = await get("/products?sort=price_asc&limit=2")
+    assert.deepEqual(cheapest.products.map((product: any) => product.id), ["SHELF-006", "CHAIR-003"])
+    assert.equal(cheapest.total, 6)
+    assert.equal(cheapest.limit, 2)
+    assert.equal(cheapest.products[0].description, undefined) // Listings leave descriptions out
+  })
+
+  it("searches by keyword", async () => {
+    const { body } = await get("/products?q=sofa")
+    assert.equal(body.products[0].id, "SOFA-001")
+  })
+
+  it("rejects query values that don't parse", async () => {
+    const { status, body } = await get("/products?minPrice=abc")
+    assert.equal(status, 400)
+    assert.deepEqual(body.error.details, [{ field: "query.minPrice", message: "minPrice must be a number" }])
+  })
+
+  it("returns one product with its description", async () => {
+    const { status, body } = await get("/products/SOFA-001")
+    assert.equal(status, 200)
+    assert.equal(body.product.id, "SOFA-001")
+    assert.equal(body.product.title, "Harbor Three-Seat Sofa")
+    assert.equal(typeof body.product.description, "string")
+  })
+
+  it("answers 404 for an unknown product", async () => {
+    const { status, body } = await get("/products/NOPE-999")
+    assert.equal(status, 404)
+    assert.equal(body.error.code, "NOT_FOUND")
+    assert.equal((await get("/products/NOPE-999/similar")).status, 404)
+  })
+
+  it("lists similar products, without the product itself", async () => {
+    const { status, body } = await get("/products/SOFA-001/similar?limit=3")
+    assert.equal(status, 200)
+    assert.equal(body.products.length, 3)
+    assert.ok(!body.products.some((product: any) => product.id === "SOFA-001"))
+  })
+
+  it("counts vendors and tags for the filters", async () => {
+    const { status, body } = await get("/facets")
+    assert.equal(status, 200)
+    assert.deepEqual(
+      body.vendors.find((vendor: any) => vendor.value === "WorkWell"),
+      { value: "WorkWell", count: 2 }
+    )
+    assert.deepEqual(
+      body.tags.find((tag: any) => tag.value === "Office"),
+      { value: "Office", count: 3 }
+    )
+  })
+})
@@ -0,0 +1,162 @@
+// The incremental Mongo sync against a fake database: content-hash skips, resuming an interrupted run
+// from its checkpoint, and soft-deleting products that left the source
+import { describe, it } from "node:test"
+import assert from "node:assert/strict"
+import { EmbeddingsInterface } from "@langchain/core/embeddings"
+import { syncToMongo } from "../catalog-sync"
+import { MongoProduct, contentHash } from "../ingestion"
+import { fakeDb } from "./fake-mongo"
+
+// A product whose embedding text defaults to its sku, so recorded embedding calls read as skus
+function product(sku: string, text = sku): MongoProduct {
+  return {
+    sku,
+    handle: sku.toLowerCase(),
+    title: sku,
+    description: text,
+    vendor: "Lumen",
+    price: 100,
+    currency: "USD",
+    image_url: "",
+    product_url: "",
+    tags: [],
+    variants: [{ sku, title: "Default", price: 100, options: {} }],
+    search_content: text,
+    embedding_text: text,
+    content_hash: contentHash(text),
+  }
+}
+
+// Records the texts of every embedDocuments call; `fail` makes a call throw
+function recordingEmbeddings(calls: string[][], fail?: (texts: string[]) => boolean): EmbeddingsInterface {
+  return {
+    async embedDocuments(texts) {
+      calls.push(texts)
+      if (fail?.(texts)) throw new Error("embedding service unavailable")
+      return texts.map(() => [1, 2, 3])
+    },
+    async embedQuery() {
+      return [1, 2, 3]
+    },
+  }
+}
+
+const OPTIONS = { checkpointId: "test-products", batchSize: 2 }
+
+describe("syncToMongo", () => {
+  it("embeds new products in sku order and stores their content hashes", async () => {
+    const { db, collections } = fakeDb()
+    const calls: string[][] = []
+    const result = await syncToMongo(db, [product("C"), product("A"), product("B")], recordingEmbeddings(calls), OPTIONS)
+
+    assert.deepEqual(calls, [["A", "B"], ["C"]])
+    assert.deepEqual(result.counts, { embedded: 3, unchanged: 0, failed: 0 })
+    const items = collections.get("items").docs
+    assert.equal(items.length, 3)
+    for (const item of items) {
+      assert.equal(item.content_hash, contentHash(item.embedding_text))
+      assert.deepEqual(item.embedding, [1, 2, 3])
+    }
+    assert.equal(collections.get("sync_checkpoints").docs.length, 0) // Dropped after a complete pass
+  })
+
+  it("re-embeds only products whose embedding text changed", async () => {
+    const { db, collections } = fakeDb()
+    await syncToMongo(db, [product("A"), product("B"), product("C")], recordingEmbeddings([]), OPTIONS)
+
+    const calls: string[][] = []
+    const result = await syncToMongo(
+      db,
+      [product("A"), product("B", "B, now in walnut"), product("C")],
+      recordingEmbeddings(calls),
+      OPTIONS
+    )
+    assert.deepEqual(calls.flat(), ["B, now in walnut"])
+    assert.deepEqual(result.counts, { embedded: 1, unchanged: 2, failed: 0 })
+    const b = collections.get("items").docs.find((item) => item.sku === "B")
+    assert.equal(b.embedding_text, "B, now in walnut")
+    assert.equal(b.content_hash, contentHash("B, now in walnut"))
+  })
+
+  it("resumes an interrupted run after the checkpoint's last_sku", async () => {
+    const { db, collections } = fakeDb()
+    const products = ["A", "B", "C", "D", "E"].map((sku) => product(sku))
+
+    // The run dies right after its first batch is checkpointed
+    const crashing = {
+      ...OPTIONS,
+      onBatch: () => {
+        throw new Error("process killed")
+      },
+    }
+    await assert.rejects(syncToMongo(db, products, recordingEmbeddings([]), crashing), /process killed/)
+
+    const [checkpoint] = collections.get("sync_checkpoints").docs
+    assert.equal(checkpoint.last_sku, "B")
+    assert.deepEqual(checkpoint.counts, { embedded: 2, unchanged: 0, failed: 0 })
+
+    const calls: string[][] = []
+    const result = await syncToMongo(db, products, recordingEmbeddings(calls), OPTIONS)
+    assert.deepEqual(calls, [["C", "D"], ["E"]]) // A and B are not looked at again
+    assert.equal(result.resumedFrom, "B")
+    assert.deepEqual(result.counts, { embedded: 5, unchanged: 0, failed: 0 }) // Counts carry over from the checkpoint
+    assert.equal(collections.get("items").docs.length, 5)
+    assert.equal(collections.get("sync_checkpoints").docs.length, 0)
+  })
+
+  it("starts over when asked to restart", async () => {
+    const { db } = fakeDb()
+    await db.collection("sync_checkpoints").insertOne({
+      _id: "test-products",
+      started_at: new Date(),
+      last_sku: "B",
+      counts: { embedded: 2, unchanged: 0, failed: 0 },
+    } as any)
+
+    const calls: string[][] = []
+    const result = await syncToMongo(db, [product("A"), product("B"), product("C")], recordingEmbeddings(calls), {
+      ...OPTIONS,
+      restart: true,
+    })
+    assert.deepEqual(calls.flat(), ["A", "B", "C"])
+    assert.equal(result.resumedFrom, undefined)
+    assert.deepEqual(result.counts, { embedded: 3, unchanged: 0, failed: 0 })
+  })
+
+  it("soft-deletes products that left the source, and revives them when they come back", async () => {
+    const { db, collections } = fakeDb()
+    await syncToMongo(db, [product("A"), product("B"), product("C")], recordingEmbeddings([]), OPTIONS)
+    const items = collections.get("items")
+    await items.insertOne({ item_id: "SOFA-001", item_name: "Seeded sofa" }) // Seeded items have no sku
+
+    const result = await syncToMongo(db, [product("A"), product("C")], recordingEmbeddings([]), OPTIONS)
+    assert.equal(result.softDeleted, 1)
+    const b = items.docs.find((item) => item.sku === "B")
+    assert.equal(b.deleted, true)
+    assert.ok(b.deleted_at instanceof Date)
+    assert.equal(items.docs.find((item) => item.item_id === "SOFA-001").deleted, undefined)
+
+    // Already deleted: not counted again
+    assert.equal((await syncToMongo(db, [product("A"), product("C")], recordingEmbeddings([]), OPTIONS)).softDeleted, 0)
+
+    await syncToMongo(db, [product("A"), product("B"), product("C")], recordingEmbeddings([]), OPTIONS)
+    const revived = items.docs.find((item) => item.sku === "B")
+    assert.equal(revived.deleted, undefined)
+    assert.equal(revived.deleted_at, undefined)
+  })
+
+  it("counts products whose embedding failed and retries them on the next run", async () => {
+    const { db, collections } = fakeDb()
+    const products = [product("A"), product("B"), product("C")]
+    const failFirstBatch = recordingEmbeddings([], (texts) => texts.includes("A"))
+    const result = await syncToMongo(db, products, failFirstBatch, OPTIONS)
+    assert.deepEqual(result.counts, { embedded: 1, unchanged: 0, failed: 2 })
+    assert.deepEqual(result.embedding.failures.map((failure) => failure.id), ["A", "B"])
+    assert.deepEqual(collections.get("items").docs.map((item) => item.sku), ["C"]) // Nothing stored without an embedding
+
+    // The next run retries them
+    const calls: string[][] = []
+    await syncToMongo(db, products, recordingEmbeddings(calls), OPTIONS)
+    assert.deepEqual(calls.flat(), ["A", "B"])
+  })
+})
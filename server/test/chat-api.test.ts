@@ -0,0 +1,170 @@
+// The offline /chat API end to end: sessions, conversation history and the chat response
+import { after, before, describe, it } from "node:test"
+import assert from "node:assert/strict"
+import { AddressInfo } from "net"
+import { Server } from "http"
+import { createApp } from "../index"
+import type { AgentDependencies } from "../agent"
+import { createOfflineAgentDependencies } from "../offline"
+import { fixtureCatalog } from "./helpers"
+
+// Serve the app on a free port and return helpers for calling it
+async function listen(dependencies: AgentDependencies) {
+  const server: Server = createApp(dependencies).listen(0)
+  await new Promise((resolve) => server.once("listening", resolve))
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+
+  const request = async (method: string, path: string, token?: string, body?: unknown) => {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method,
+      headers: { "Content-Type": "application/json", ...(token ? { Authorization: `Bearer ${token}` } : {}) },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    })
+    const isJson = response.headers.get("content-type")?.includes("application/json")
+    return { status: response.status, body: isJson ? await response.json() : undefined }
+  }
+  const post = (path: string, body: unknown, token?: string) => request("POST", path, token, body)
+  const newSession = async (): Promise<string> => {
+    const { status, body } = await post("/session", {})
+    assert.equal(status, 201)
+    assert.equal(typeof body.token, "string")
+    return body.token
+  }
+  const close = () => new Promise((resolve) => server.close(resolve))
+
+  return { request, post, newSession, close }
+}
+
+describe("offline chat API", () => {
+  let dependencies: AgentDependencies
+  let api: Awaited<ReturnType<typeof listen>>
+
+  before(async () => {
+    dependencies = createOfflineAgentDependencies(await fixtureCatalog())
+    api = await listen(dependencies)
+  })
+
+  after(() => api.close())
+
+  it("answers a new conversation with a random thread id and the response", async () => {
+    const token = await api.newSession()
+    const { status, body } = await api.post("/chat", { message: "Do you have a sofa?" }, token)
+    assert.equal(status, 200)
+    assert.match(body.threadId, /^[0-9a-f-]{36}$/)
+    assert.equal(typeof body.response, "string")
+    assert.match(body.response, /Harbor Three-Seat Sofa/) // Answered from the item_lookup round-trip
+  })
+
+  it("returns product cards, their actions and quick replies for the products found", async () => {
+    const token = await api.newSession()
+    const { body } = await api.post("/chat", { message: "Do you have a sofa?" }, token)
+    assert.ok(body.products.some((product: any) => product.sku === "SOFA-001" && product.title === "Harbor Three-Seat Sofa"))
+    for (const action of body.actions) {
+      assert.ok(body.products.some((product: any) => product.sku === action.sku))
+    }
+    assert.ok(body.suggestedReplies.length > 0 && body.suggestedReplies.length <= 3)
+  })
+
+  it("continues a conversation the session owns, and keeps its transcript", async () => {
+    const token = await api.newSession()
+    const { body: first } = await api.post("/chat", { message: "Show me desks" }, token)
+    const { status, body } = await api.post(`/chat/${first.threadId}`, { message: "Anything cheaper?" }, token)
+    assert.equal(status, 200)
+    assert.equal(typeof body.response, "string")
+    assert.equal(body.threadId, undefined)
+
+    const transcript = await api.request("GET", `/chat/${first.threadId}/messages`, token)
+    assert.equal(transcript.status, 200)
+    const { messages } = transcript.body
+    const userMessages = messages.filter((message: any) => message.role === "user")
+    assert.deepEqual(userMessages.map((message: any) => message.content), ["Show me desks", "Anything cheaper?"])
+    assert.ok(messages.some((message: any) => message.role === "tool" && message.tool === "item_lookup"))
+    assert.equal(messages[messages.length - 1].role, "assistant")
+  })
+
+  it("deletes a conversation together with its cart", async () => {
+    const token = await api.newSession()
+    const { body: first } = await api.post("/chat", { message: "Do you have a sofa?" }, token)
+    await dependencies.cart.addItem(first.threadId, "SOFA-001-GRY")
+
+    assert.equal((await api.request("DELETE", `/chat/${first.threadId}`, token)).status, 204)
+    assert.equal((await api.request("GET", `/chat/${first.threadId}/messages`, token)).status, 404)
+    assert.equal((await dependencies.cart.getCart(first.threadId)).item_count, 0)
+  })
+
+  it("rejects an empty message with a validation error envelope", async () => {
+    const token = await api.newSession()
+    const { status, body } = await api.post("/chat", { message: "   " }, token)
+    assert.equal(status, 400)
+    assert.equal(body.error.code, "VALIDATION_ERROR")
+    assert.deepEqual(body.error.details.map((detail: any) => detail.field), ["body.message"])
+  })
+
+  it("names the field when a query number doesn't parse", async () => {
+    const token = await api.newSession()
+    const { status, body } = await api.request("GET", "/threads?limit=abc", token)
+    assert.equal(status, 400)
+    assert.deepEqual(body.error.details, [{ field: "query.limit", message: "limit must be a number" }])
+  })
+
+  it("requires a session", async () => {
+    const { status, body } = await api.post("/chat", { message: "Hello" })
+    assert.equal(status, 401)
+    assert.equal(body.error.code, "UNAUTHORIZED")
+  })
+
+  it("hides other sessions' conversations", async () => {
+    const { body: first } = await api.post("/chat", { message: "Show me chairs" }, await api.newSession())
+    const { status, body } = await api.post(`/chat/${first.threadId}`, { message: "And tables?" }, await api.newSession())
+    assert.equal(status, 403)
+    assert.equal(body.error.code, "FORBIDDEN")
+  })
+
+  it("shows and erases the session's remembered preferences", async () => {
+    const token = await api.newSession()
+    assert.deepEqual((await api.request("GET", "/preferences", token)).body, { preferences: null })
+
+    const [sessionId] = token.split(".") // Tokens are the session id plus its signature
+    await dependencies.preferences.record(sessionId, { styles: ["japandi"] })
+    const { body } = await api.request("GET", "/preferences", token)
+    assert.deepEqual(body.preferences.styles, ["japandi"])
+
+    assert.equal((await api.request("DELETE", "/preferences", token)).status, 204)
+    assert.deepEqual((await api.request("GET", "/preferences", token)).body, { preferences: null })
+  })
+})
+
+describe("chat API without optional services", () => {
+  it("serves chat without cart routes when no cart service is configured", async () => {
+    const api = await listen({ ...createOfflineAgentDependencies(await fixtureCatalog()), cart: undefined })
+    try {
+      const token = await api.newSession()
+      const chat = await api.post("/chat", { message: "Do you have a sofa?" }, token)
+      assert.equal(chat.status, 200)
+      assert.equal((await api.request("GET", `/cart/${chat.body.threadId}`, token)).status, 404)
+    } finally {
+      await api.close()
+    }
+  })
+
+  it("serves chat without preference routes when no preference service is configured", async () => {
+    const api = await listen({ ...createOfflineAgentDependencies(await fixtureCatalog()), preferences: undefined })
+    try {
+      const token = await api.newSession()
+      assert.equal((await api.post("/chat", { message: "Do you have a sofa?" }, token)).status, 200)
+      assert.equal((await api.request("GET", "/preferences", token)).status, 404)
+    } finally {
+      await api.close()
+    }
+  })
+
+  it("serves the catalog without review routes when no review service is configured", async () => {
+    const api = await listen({ ...createOfflineAgentDependencies(await fixtureCatalog()), reviews: undefined })
+    try {
+      assert.equal((await api.request("GET", "/products/SOFA-001")).status, 200)
+      assert.equal((await api.request("GET", "/products/SOFA-001/reviews")).status, 404)
+    } finally {
+      await api.close()
+    }
+  })
+})
@@ -0,0 +1,56 @@
+// Product cards, card actions and quick replies built from a turn's item_lookup results
+import { describe, it } from "node:test"
+import assert from "node:assert/strict"
+import { chatActions, chatProducts, suggestedReplies } from "../chat-response"
+
+const lamp = { id: "LAMP-1", title: "Arc Lamp", price: 120, sale_price: 90, currency: "USD", url: "https://shop/lamp", in_stock: true }
+const rug = { id: "RUG-2", title: "Wool Rug", price: 300, in_stock: false }
+const sofa = {
+  id: "SOFA-1",
+  title: "Sofa",
+  price: 1000,
+  variants: [{ sku: "SOFA-1-GRY", title: "Grey", price: 1000 }, { sku: "SOFA-1-BLU", title: "Blue", price: 1000 }],
+}
+
+describe("chatProducts", () => {
+  it("shows the sale price with the regular price to compare against, once per product", () => {
+    const products = chatProducts([lamp, rug, lamp])
+    assert.deepEqual(products, [
+      { sku: "LAMP-1", title: "Arc Lamp", price: 90, compare_at_price: 120, currency: "USD", product_url: "https://shop/lamp", in_stock: true },
+      { sku: "RUG-2", title: "Wool Rug", price: 300, in_stock: false },
+    ])
+  })
+
+  it("marks products whose options must be chosen first", () => {
+    assert.equal(chatProducts([sofa])[0].has_variants, true)
+    assert.equal(chatProducts([{ id: "X", title: "No price" }])[0].price, null)
+  })
+})
+
+describe("chatActions", () => {
+  it("offers add to cart only for in-stock products without options to choose", () => {
+    const actions = chatActions(chatProducts([lamp, rug, sofa]))
+    assert.deepEqual(actions, [
+      { type: "add_to_cart", label: "Add to cart", sku: "LAMP-1" },
+      { type: "view_product", label: "View product", sku: "LAMP-1", url: "https://shop/lamp" },
+    ])
+  })
+})
+
+describe("suggestedReplies", () => {
+  it("suggests comparing and asking about the products found", () => {
+    assert.deepEqual(suggestedReplies(chatProducts([lamp, rug]), false), [
+      "Compare the Arc Lamp and the Wool Rug",
+      "What do reviewers say about the Arc Lamp?",
+      "Show me something cheaper",
+    ])
+  })
+
+  it("asks for a recommendation after a comparison, and suggests nothing without products", () => {
+    assert.deepEqual(suggestedReplies(chatProducts([lamp, rug]), true), [
+      "Which one would you recommend?",
+      "What do reviewers say about the Arc Lamp?",
+    ])
+    assert.deepEqual(suggestedReplies([], false), [])
+  })
+})
@@ -0,0 +1,155 @@
+// The /chat/stream Server-Sent Events contract, offline: event order, the final done event, errors after the
+// headers are sent and stopping the run when the client disconnects
+import { describe, it } from "node:test"
+import assert from "node:assert/strict"
+import { AddressInfo } from "net"
+import { Server } from "http"
+import { CallbackManagerForLLMRun } from "@langchain/core/callbacks/manager"
+import { AIMessageChunk, BaseMessage } from "@langchain/core/messages"
+import { ChatGenerationChunk } from "@langchain/core/outputs"
+import { createApp } from "../index"
+import type { AgentDependencies } from "../agent"
+import { ScriptedChatModel } from "../fakes"
+import { createOfflineAgentDependencies } from "../offline"
+import { fixtureCatalog } from "./helpers"
+
+interface SseEvent {
+  event: string
+  data: any
+}
+
+// Chat model whose streamed reply fails like a provider outage
+class FailingChatModel extends ScriptedChatModel {
+  async *_streamResponseChunks(): AsyncGenerator<ChatGenerationChunk> {
+    throw Object.assign(new Error("Bad gateway"), { status: 502 })
+  }
+}
+
+// Chat model that streams one word and then waits until the run is aborted
+class StalledChatModel extends ScriptedChatModel {
+  constructor(private onAbort: () => void) {
+    super()
+  }
+
+  async *_streamResponseChunks(
+    _messages: BaseMessage[],
+    options: this["ParsedCallOptions"],
+    runManager?: CallbackManagerForLLMRun
+  ): AsyncGenerator<ChatGenerationChunk> {
+    const chunk = new ChatGenerationChunk({ text: "Thinking ", message: new AIMessageChunk({ content: "Thinking " }) })
+    yield chunk
+    await runManager?.handleLLMNewToken("Thinking ", undefined, undefined, undefined, undefined, { chunk })
+    await new Promise<void>((resolve) => {
+      const timer = setTimeout(resolve, 5000)
+      options.signal?.addEventListener("abort", () => {
+        clearTimeout(timer)
+        this.onAbort()
+        resolve()
+      })
+    })
+  }
+}
+
+// Parse the SSE frames of a response body
+function parseEvents(body: string): SseEvent[] {
+  return body
+    .split("\n\n")
+    .filter((frame) => frame.trim())
+    .map((frame) => {
+      const [, event] = frame.match(/^event: (.*)$/m) ?? []
+      const [, data] = frame.match(/^data: (.*)$/m) ?? []
+      return { event, data: JSON.parse(data) }
+    })
+}
+
+// Serve the app on a free port, open a session and return helpers for calling it
+async function listen(dependencies: AgentDependencies) {
+  const server: Server = createApp(dependencies).listen(0)
+  await new Promise((resolve) => server.once("listening", resolve))
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  const session = await fetch(`${baseUrl}/session`, { method: "POST" })
+  const { token } = await session.json()
+
+  const stream = (message: string, signal?: AbortSignal) =>
+    fetch(`${baseUrl}/chat/stream`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+      body: JSON.stringify({ message }),
+      signal,
+    })
+  const close = () => {
+    server.closeAllConnections() // Don't wait for idle keep-alive connections
+    return new Promise((resolve) => server.close(resolve))
+  }
+
+  return { stream, close }
+}
+
+describe("POST /chat/stream", () => {
+  it("streams the tool calls and the answer's tokens, then a done event with the products found", async () => {
+    const api = await listen(createOfflineAgentDependencies(await fixtureCatalog()))
+    try {
+      const response = await api.stream("Do you have a sofa?")
+      assert.equal(response.status, 200)
+      assert.match(response.headers.get("content-type"), /^text\/event-stream/)
+
+      const events = parseEvents(await response.text())
+      const types = events.map(({ event }) => event)
+      assert.equal(types[0], "tool_start")
+      assert.equal(types.indexOf("tool_end"), 1)
+      assert.ok(types.slice(2, -1).length > 0 && types.slice(2, -1).every((type) => type === "token"))
+      assert.equal(types[types.length - 1], "done")
+
+      const [toolStart, toolEnd] = events
+      assert.equal(toolStart.data.name, "item_lookup")
+      assert.equal(toolStart.data.input.query, "Do you have a sofa?")
+      assert.equal(toolEnd.data.name, "item_lookup")
+      assert.ok(toolEnd.data.count > 0)
+
+      const done = events[events.length - 1].data
+      const streamed = events.filter(({ event }) => event === "token").map(({ data }) => data.content).join("")
+      assert.equal(done.response, streamed)
+      assert.match(done.threadId, /^[0-9a-f-]{36}$/)
+      assert.ok(done.products.some((product: any) => product.sku === "SOFA-001"))
+    } finally {
+      await api.close()
+    }
+  })
+
+  it("reports a failed run as an error event carrying the error envelope", async () => {
+    const dependencies = createOfflineAgentDependencies(await fixtureCatalog())
+    const api = await listen({ ...dependencies, model: new FailingChatModel() })
+    try {
+      const response = await api.stream("Do you have a sofa?")
+      assert.equal(response.status, 200) // Headers went out before the run failed
+      const events = parseEvents(await response.text())
+      assert.deepEqual(events, [
+        { event: "error", data: { error: { code: "UPSTREAM_ERROR", message: "Model provider error: Bad gateway" } } },
+      ])
+    } finally {
+      await api.close()
+    }
+  })
+
+  it("stops the agent run when the client disconnects", async () => {
+    let aborted = false
+    const dependencies = createOfflineAgentDependencies(await fixtureCatalog())
+    const api = await listen({ ...dependencies, model: new StalledChatModel(() => (aborted = true)) })
+    try {
+      const client = new AbortController()
+      const response = await api.stream("Hello", client.signal)
+      const reader = response.body.getReader()
+      const { value } = await reader.read()
+      assert.match(new TextDecoder().decode(value), /event: token/)
+
+      client.abort()
+      await reader.cancel().catch(() => undefined)
+      for (let waited = 0; !aborted && waited < 2000; waited += 20) {
+        await new Promise((resolve) => setTimeout(resolve, 20))
+      }
+      assert.equal(aborted, true)
+    } finally {
+      await api.close()
+    }
+  })
+})
@@ -0,0 +1,96 @@
+// The compare_products table over the fixture items, and the table attached to the chat reply
+import { describe, it } from "node:test"
+import assert from "node:assert/strict"
+import { AIMessage } from "@langchain/core/messages"
+import { callAgent, createAgent } from "../agent"
+import { buildComparison, compareProducts } from "../comparison"
+import { ScriptedChatModel } from "../fakes"
+import { createOfflineAgentDependencies } from "../offline"
+import { fixtureCatalog } from "./helpers"
+
+// The row values of one attribute, keyed by attribute name
+function rowValues(comparison: Awaited<ReturnType<typeof compareProducts>>) {
+  return Object.fromEntries(comparison.rows.map((row) => [row.attribute, row.values]))
+}
+
+describe("compareProducts", () => {
+  it("builds one row per attribute with a value per product, in the requested order", async () => {
+    const comparison = await compareProducts(await fixtureCatalog(), ["SOFA-001", "CHAIR-003"])
+    assert.deepEqual(comparison.products.map((product) => product.id), ["SOFA-001", "CHAIR-003"])
+    assert.deepEqual(
+      comparison.rows.map((row) => row.attribute),
+      ["price", "sale_price", "brand", "materials", "rating", "tags", "in_stock"]
+    )
+
+    const values = rowValues(comparison)
+    assert.deepEqual(values.price, [1299, 449])
+    assert.deepEqual(values.sale_price, [1099, 379])
+    assert.deepEqual(values.brand, ["Northfield Living", "WorkWell"])
+    assert.deepEqual(values.materials, [["oak", "velvet", "linen"], ["mesh"]])
+    assert.deepEqual(values.rating, [
+      { average: 4.5, count: 2, distribution: { "1": 0, "2": 0, "3": 0, "4": 1, "5": 1 } },
+      { average: 4, count: 2, distribution: { "1": 0, "2": 0, "3": 1, "4": 0, "5": 1 } },
+    ])
+    assert.deepEqual(comparison.notFound, [])
+  })
+
+  it("flags the rows where the products differ", async () => {
+    const comparison = await compareProducts(await fixtureCatalog(), ["SOFA-001", "CHAIR-003"])
+    const differs = Object.fromEntries(comparison.rows.map((row) => [row.attribute, row.differs]))
+    assert.equal(differs.price, true)
+    assert.equal(differs.in_stock, false) // Both in stock
+  })
+
+  it("compares a product once, even when asked for it and one of its variants", async () => {
+    const comparison = await compareProducts(await fixtureCatalog(), ["SOFA-001", "SOFA-001-GRY", "CHAIR-003", "NOPE-1"])
+    assert.deepEqual(comparison.products.map((product) => product.id), ["SOFA-001", "CHAIR-003"])
+    assert.deepEqual(comparison.notFound, ["NOPE-1"])
+  })
+
+  it("needs two to four different products that exist", async () => {
+    const catalog = await fixtureCatalog()
+    await assert.rejects(compareProducts(catalog, ["SOFA-001"]), /between 2 and 4/)
+    await assert.rejects(compareProducts(catalog, ["SOFA-001", " SOFA-001 "]), /between 2 and 4/)
+    await assert.rejects(
+      compareProducts(catalog, ["SOFA-001", "DESK-004", "BED-005", "SHELF-006", "TABLE-002"]),
+      /between 2 and 4/
+    )
+    await assert.rejects(compareProducts(catalog, ["SOFA-001", "NOPE-1"]), /Products not found: NOPE-1/)
+    await assert.rejects(compareProducts(catalog, ["SOFA-001", "SOFA-001-GRY"]), /all the same product/)
+  })
+})
+
+describe("buildComparison", () => {
+  it("shows a sale price only when it is lower than the price, and null for unknown values", () => {
+    const comparison = buildComparison([
+      { sku: "A", title: "Lamp A", price: 100, sale_price: 80 },
+      { sku: "B", title: "Lamp B", price: 100, sale_price: 100 },
+    ])
+    const values = rowValues(comparison)
+    assert.deepEqual(values.sale_price, [80, null])
+    assert.deepEqual(values.rating, [null, null])
+    assert.deepEqual(values.brand, [null, null])
+  })
+})
+
+describe("compare_products in a chat turn", () => {
+  it("attaches the turn's comparison table to the reply", async () => {
+    const model = new ScriptedChatModel({
+      script: [
+        new AIMessage({
+          content: "",
+          tool_calls: [{ name: "compare_products", args: { productIds: ["SOFA-001", "CHAIR-003"] }, id: "call-1", type: "tool_call" }],
+        }),
+        new AIMessage("The sofa costs more but rates higher."),
+      ],
+    })
+    const agent = createAgent({ ...createOfflineAgentDependencies(await fixtureCatalog()), model })
+    const reply = await callAgent(agent, "Compare the sofa and the office chair", "thread-1")
+    assert.equal(reply.response, "The sofa costs more but rates higher.")
+    assert.deepEqual(reply.comparison.products.map((product) => product.id), ["SOFA-001", "CHAIR-003"])
+
+    // A later turn without a comparison doesn't repeat the old table
+    const next = await callAgent(agent, "Thanks!", "thread-1")
+    assert.equal(next.comparison, undefined)
+  })
+})
@@ -0,0 +1,47 @@
+// The history sent to the chat model: summarized turns left out, older tool results trimmed, checkpoint untouched
+import { describe, it } from "node:test"
+import assert from "node:assert/strict"
+import { AIMessage, BaseMessage, HumanMessage, ToolMessage } from "@langchain/core/messages"
+import { modelHistory, unsummarizedMessages } from "../conversation-memory"
+
+const lookup = JSON.stringify({
+  count: 1,
+  results: [{ id: "SOFA-001", title: "Harbor Three-Seat Sofa", description: "A long description ".repeat(20) }],
+})
+
+// One turn per question: the customer asks, the assistant looks something up and answers
+function conversation(questions: string[]): BaseMessage[] {
+  return questions.flatMap((question, i) => [
+    new HumanMessage({ id: `h${i}`, content: question }),
+    new AIMessage({ id: `a${i}`, content: "", tool_calls: [{ id: `call${i}`, name: "item_lookup", args: { query: question } }] }),
+    new ToolMessage({ id: `t${i}`, content: lookup, tool_call_id: `call${i}`, name: "item_lookup" }),
+    new AIMessage({ id: `r${i}`, content: `Answer ${i}` }),
+  ])
+}
+
+describe("unsummarizedMessages", () => {
+  it("returns the messages after the last summarized one", () => {
+    const messages = conversation(["sofas", "chairs"])
+    assert.deepEqual(unsummarizedMessages(messages, "r0").map((m) => m.id), ["h1", "a1", "t1", "r1"])
+    assert.equal(unsummarizedMessages(messages, "").length, 8)
+  })
+})
+
+describe("modelHistory", () => {
+  it("keeps the recent turns verbatim and trims older tool results without changing the messages", () => {
+    const messages = conversation(["sofas", "chairs", "desks"])
+    const { older, recent } = modelHistory(messages, "", 1)
+
+    assert.deepEqual(recent.map((m) => m.id), ["h2", "a2", "t2", "r2"])
+    assert.equal(recent[2].content, lookup)
+    const trimmed = JSON.parse(older[2].content as string)
+    assert.deepEqual(trimmed, { trimmed: true, count: 1, products: [{ id: "SOFA-001", title: "Harbor Three-Seat Sofa" }] })
+    assert.equal(messages[2].content, lookup) // The checkpointed message itself is untouched
+  })
+
+  it("leaves out the turns covered by the summary", () => {
+    const { older, recent } = modelHistory(conversation(["sofas", "chairs", "desks"]), "r0", 1)
+    assert.deepEqual(older.map((m) => m.id), ["h1", "a1", "t1", "r1"])
+    assert.deepEqual(recent.map((m) => m.id), ["h2", "a2", "t2", "r2"])
+  })
+})
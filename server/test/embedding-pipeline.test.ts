@@ -0,0 +1,166 @@
+// The shared embedding pipeline with fake embedders: batch boundaries, 429 retries, failed batches and the sink
+import { describe, it } from "node:test"
+import assert from "node:assert/strict"
+import { EmbeddingsInterface } from "@langchain/core/embeddings"
+import { EmbeddingPipeline, EmbeddingPipelineOptions, planBatches } from "../embedding-pipeline"
+
+interface Item {
+  id: string
+  text: string
+}
+
+// Millisecond backoff keeps the retry tests fast
+const OPTIONS: EmbeddingPipelineOptions = {
+  maxBatchSize: 2,
+  maxBatchTokens: 100,
+  concurrency: 2,
+  maxRetries: 3,
+  baseDelayMs: 1,
+  maxDelayMs: 1,
+}
+
+function items(...ids: string[]): Item[] {
+  return ids.map((id) => ({ id, text: `${id} text` }))
+}
+
+function rateLimitError(): Error {
+  return Object.assign(new Error("Too many requests"), { status: 429 })
+}
+
+// Answers each embedDocuments call with `respond`, recording the texts it was given
+function fakeEmbeddings(
+  calls: string[][],
+  respond: (texts: string[], call: number) => Promise<number[][]> = async (texts) => texts.map(() => [1, 2, 3])
+): EmbeddingsInterface {
+  return {
+    embedDocuments: (texts) => {
+      calls.push(texts)
+      return respond(texts, calls.length)
+    },
+    embedQuery: async () => [1, 2, 3],
+  }
+}
+
+function pipeline(embeddings: EmbeddingsInterface, options: Partial<EmbeddingPipelineOptions> = {}, sink?: Item[][]) {
+  return new EmbeddingPipeline<Item>({
+    embeddings,
+    text: (item) => item.text,
+    id: (item) => item.id,
+    sink: sink && { write: async (batch) => void sink.push(batch) },
+    options: { ...OPTIONS, ...options },
+  })
+}
+
+describe("planBatches", () => {
+  const text = (item: Item) => item.text
+
+  it("splits on the batch size, keeping order", () => {
+    const batches = planBatches(items("A", "B", "C", "D", "E"), text, OPTIONS)
+    assert.deepEqual(batches.map((batch) => batch.map((item) => item.id)), [["A", "B"], ["C", "D"], ["E"]])
+  })
+
+  it("splits on the token budget, and sends a text over the budget alone", () => {
+    const long = { id: "LONG", text: "x".repeat(400) } // 100 tokens at four characters per token
+    const batches = planBatches([...items("A"), long, ...items("B")], text, { ...OPTIONS, maxBatchSize: 10 })
+    assert.deepEqual(batches.map((batch) => batch.map((item) => item.id)), [["A"], ["LONG"], ["B"]])
+  })
+})
+
+describe("EmbeddingPipeline", () => {
+  it("embeds every item and hands each batch to the sink", async () => {
+    const calls: string[][] = []
+    const written: Item[][] = []
+    const run = pipeline(fakeEmbeddings(calls), {}, written)
+    const embedded = await run.run(items("A", "B", "C"))
+
+    assert.equal(calls.length, 2)
+    assert.deepEqual(embedded.map((item) => item.id).sort(), ["A", "B", "C"])
+    assert.deepEqual(written.map((batch) => batch.map((item) => item.id)).sort(), [["A", "B"], ["C"]])
+    const summary = run.summary()
+    assert.equal(summary.total, 3)
+    assert.equal(summary.embedded, 3)
+    assert.equal(summary.batches, 2)
+    assert.equal(summary.retries, 0)
+  })
+
+  it("retries a rate-limited call and counts the retries", async () => {
+    const calls: string[][] = []
+    const flaky = fakeEmbeddings(calls, async (texts, call) => {
+      if (call <= 2) throw rateLimitError()
+      return texts.map(() => [1])
+    })
+    const run = pipeline(flaky, { concurrency: 1 })
+    const embedded = await run.run(items("A", "B"))
+
+    assert.equal(embedded.length, 2)
+    assert.equal(calls.length, 3)
+    assert.equal(run.summary().retries, 2)
+    assert.equal(run.summary().batches, 1)
+  })
+
+  it("fails a batch that is still rate-limited after maxRetries, and keeps going with the others", async () => {
+    const calls: string[][] = []
+    const limited = fakeEmbeddings(calls, async (texts) => {
+      if (texts.includes("A text")) throw rateLimitError()
+      return texts.map(() => [1])
+    })
+    const run = pipeline(limited, { concurrency: 1 })
+    const embedded = await run.run(items("A", "B", "C"))
+
+    assert.deepEqual(embedded.map((item) => item.id), ["C"])
+    assert.equal(calls.filter((texts) => texts.includes("A text")).length, OPTIONS.maxRetries + 1)
+    const summary = run.summary()
+    assert.equal(summary.retries, OPTIONS.maxRetries)
+    assert.equal(summary.failed, 2)
+    assert.deepEqual(summary.failures, [
+      { id: "A", error: "Too many requests" },
+      { id: "B", error: "Too many requests" },
+    ])
+  })
+
+  it("doesn't retry errors other than 429", async () => {
+    const calls: string[][] = []
+    const broken = fakeEmbeddings(calls, async () => {
+      throw new Error("invalid api key")
+    })
+    const run = pipeline(broken)
+    assert.deepEqual(await run.run(items("A")), [])
+    assert.equal(calls.length, 1)
+    assert.equal(run.summary().retries, 0)
+    assert.deepEqual(run.summary().failures, [{ id: "A", error: "invalid api key" }])
+  })
+
+  it("fails a batch when the number of vectors doesn't match", async () => {
+    const written: Item[][] = []
+    const short = fakeEmbeddings([], async () => [[1]])
+    const run = pipeline(short, {}, written)
+    assert.deepEqual(await run.run(items("A", "B")), [])
+    assert.deepEqual(written, [])
+    assert.deepEqual(run.summary().failures.map((failure) => failure.error), [
+      "Expected 2 embeddings, got 1",
+      "Expected 2 embeddings, got 1",
+    ])
+  })
+
+  it("keeps at most `concurrency` calls in flight", async () => {
+    let inFlight = 0
+    let peak = 0
+    const slow = fakeEmbeddings([], async (texts) => {
+      peak = Math.max(peak, ++inFlight)
+      await new Promise((resolve) => setTimeout(resolve, 5))
+      inFlight--
+      return texts.map(() => [1])
+    })
+    const run = pipeline(slow, { maxBatchSize: 1, concurrency: 3 })
+    assert.equal((await run.run(items("A", "B", "C", "D", "E", "F", "G"))).length, 7)
+    assert.equal(peak, 3)
+  })
+
+  it("adds up totals across runs", async () => {
+    const run = pipeline(fakeEmbeddings([]))
+    await run.run(items("A", "B"))
+    await run.run(items("C"))
+    assert.equal(run.summary().total, 3)
+    assert.equal(run.summary().batches, 2)
+  })
+})
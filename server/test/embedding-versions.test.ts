@@ -0,0 +1,62 @@
+// Which vector fields the embedding versions leave on products, and the resolver following search_config
+import { describe, it } from "node:test"
+import assert from "node:assert/strict"
+import {
+  ActiveEmbeddingResolver,
+  EmbeddingSettings,
+  EmbeddingVersion,
+  EmbeddingVersionStore,
+  initialVersion,
+  vectorFields,
+  versionNames,
+} from "../embedding-versions"
+import { DeterministicEmbeddings } from "../fakes"
+import { fakeDb } from "./fake-mongo"
+
+const configured = initialVersion({ embeddings: { provider: "fake", model: "deterministic", dimensions: 768 } })
+
+function version(number: number): EmbeddingVersion {
+  return { ...configured, version: number, ...versionNames(number), created_at: new Date() }
+}
+
+async function resolverFor(settings?: EmbeddingSettings) {
+  const { db } = fakeDb()
+  const collection = db.collection<EmbeddingSettings>("search_config")
+  if (settings) await collection.insertOne(settings)
+  const store = new EmbeddingVersionStore(collection)
+  return new ActiveEmbeddingResolver(store, { version: configured, embeddings: new DeterministicEmbeddings() }, 0)
+}
+
+describe("vectorFields", () => {
+  it("lists every version's vector field and its hash field", () => {
+    assert.deepEqual(vectorFields(1), ["embedding", "embedding_hash"])
+    assert.deepEqual(vectorFields(3), [
+      "embedding",
+      "embedding_hash",
+      "embedding_v2",
+      "embedding_v2_hash",
+      "embedding_v3",
+      "embedding_v3_hash",
+    ])
+  })
+})
+
+describe("ActiveEmbeddingResolver", () => {
+  it("uses version 1 until the first reindex", async () => {
+    const resolver = await resolverFor()
+    assert.equal((await resolver.resolve()).version.field, "embedding")
+    assert.deepEqual(await resolver.vectorFields(), ["embedding", "embedding_hash"])
+  })
+
+  it("follows the active version and covers the fields of a pending build", async () => {
+    const resolver = await resolverFor({ _id: "embeddings", active: version(2), previous: version(1), pending: version(3) })
+    assert.equal((await resolver.resolve()).version.field, "embedding_v2")
+    assert.deepEqual(await resolver.vectorFields(), vectorFields(3))
+  })
+
+  it("still covers a newer version after rolling back to an older one", async () => {
+    const resolver = await resolverFor({ _id: "embeddings", active: version(1), previous: version(2) })
+    assert.equal((await resolver.resolve()).version.field, "embedding")
+    assert.deepEqual(await resolver.vectorFields(), vectorFields(2))
+  })
+})
@@ -0,0 +1,110 @@
+// Just enough of a MongoDB database for tests of code that writes collections directly: equality, $in, $nin,
+// $exists, $ne and $gt filters; $set, $unset, $inc and $setOnInsert updates, with upserts
+import { Db } from "mongodb"
+
+type Doc = Record<string, any>
+
+function isOperatorObject(value: unknown): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value) && !(value instanceof Date) &&
+    Object.keys(value).some((key) => key.startsWith("$"))
+}
+
+function matches(doc: Doc, filter: Doc): boolean {
+  return Object.entries(filter).every(([field, condition]) => {
+    const value = doc[field]
+    if (!isOperatorObject(condition)) return value === condition
+    return Object.entries(condition).every(([operator, operand]) => {
+      switch (operator) {
+        case "$in": return operand.includes(value)
+        case "$nin": return !operand.includes(value)
+        case "$exists": return (value !== undefined) === operand
+        case "$ne": return value !== operand
+        case "$gt": return value !== undefined && value > operand
+        default: throw new Error(`fake-mongo: unsupported filter operator ${operator}`)
+      }
+    })
+  })
+}
+
+function applyUpdate(doc: Doc, update: Doc, inserting: boolean): void {
+  for (const [operator, fields] of Object.entries(update)) {
+    for (const [field, value] of Object.entries(fields as Doc)) {
+      switch (operator) {
+        case "$set": doc[field] = structuredClone(value); break
+        case "$unset": delete doc[field]; break
+        case "$inc": doc[field] = (doc[field] ?? 0) + value; break
+        case "$setOnInsert": if (inserting) doc[field] = structuredClone(value); break
+        default: throw new Error(`fake-mongo: unsupported update operator ${operator}`)
+      }
+    }
+  }
+}
+
+export class FakeCollection {
+  docs: Doc[] = []
+  indexes: { keys: Doc; options: Doc }[] = []
+
+  async createIndex(keys: Doc, options: Doc = {}): Promise<string> {
+    this.indexes.push({ keys, options })
+    return Object.keys(keys).join("_")
+  }
+
+  find(filter: Doc = {}) {
+    const found = this.docs.filter((doc) => matches(doc, filter)).map((doc) => structuredClone(doc))
+    return { toArray: async () => found }
+  }
+
+  async findOne(filter: Doc = {}): Promise<Doc | null> {
+    const doc = this.docs.find((d) => matches(d, filter))
+    return doc ? structuredClone(doc) : null
+  }
+
+  async insertOne(doc: Doc) {
+    this.docs.push(structuredClone(doc))
+    return { acknowledged: true, insertedId: doc._id }
+  }
+
+  async updateOne(filter: Doc, update: Doc, options: { upsert?: boolean } = {}) {
+    const doc = this.docs.find((d) => matches(d, filter))
+    if (doc) {
+      applyUpdate(doc, update, false)
+      return { matchedCount: 1, modifiedCount: 1, upsertedCount: 0 }
+    }
+    if (!options.upsert) return { matchedCount: 0, modifiedCount: 0, upsertedCount: 0 }
+    // An upsert starts from the filter's equality fields
+    const inserted = Object.fromEntries(Object.entries(filter).filter(([, condition]) => !isOperatorObject(condition)))
+    applyUpdate(inserted, update, true)
+    this.docs.push(inserted)
+    return { matchedCount: 0, modifiedCount: 0, upsertedCount: 1 }
+  }
+
+  async updateMany(filter: Doc, update: Doc) {
+    const matched = this.docs.filter((doc) => matches(doc, filter))
+    for (const doc of matched) applyUpdate(doc, update, false)
+    return { matchedCount: matched.length, modifiedCount: matched.length }
+  }
+
+  async deleteOne(filter: Doc) {
+    const index = this.docs.findIndex((doc) => matches(doc, filter))
+    if (index >= 0) this.docs.splice(index, 1)
+    return { deletedCount: index >= 0 ? 1 : 0 }
+  }
+
+  async bulkWrite(operations: { updateOne?: { filter: Doc; update: Doc; upsert?: boolean } }[]) {
+    for (const { updateOne } of operations) {
+      if (!updateOne) throw new Error("fake-mongo: only updateOne bulk operations are supported")
+      await this.updateOne(updateOne.filter, updateOne.update, { upsert: updateOne.upsert })
+    }
+    return { ok: 1 }
+  }
+}
+
+// A database whose collections are created on first use; `collections` lets tests inspect what was written
+export function fakeDb(): { db: Db; collections: Map<string, FakeCollection> } {
+  const collections = new Map<string, FakeCollection>()
+  const collection = (name: string) => {
+    if (!collections.has(name)) collections.set(name, new FakeCollection())
+    return collections.get(name)
+  }
+  return { db: { collection } as unknown as Db, collections }
+}
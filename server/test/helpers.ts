@@ -0,0 +1,20 @@
+// Shared fixtures for the tests: the offline furniture items in an in-memory catalog
+import fs from "fs"
+import { InMemoryProductCatalog } from "../catalog"
+import { DeterministicEmbeddings } from "../fakes"
+import { FIXTURE_ITEMS_PATH } from "../offline"
+import { variantFields } from "../variants"
+
+// The fixture items as seed-database.ts stores them (with variants and stock), embedded deterministically
+export async function fixtureCatalog(): Promise<InMemoryProductCatalog> {
+  const items: Record<string, any>[] = JSON.parse(fs.readFileSync(FIXTURE_ITEMS_PATH, "utf8"))
+  const catalog = new InMemoryProductCatalog(new DeterministicEmbeddings())
+  await catalog.addProducts(
+    items.map((item) => ({
+      ...item,
+      ...variantFields(item),
+      embedding_text: `${item.item_name}. ${item.item_description}. Categories: ${item.categories.join(", ")}`,
+    }))
+  )
+  return catalog
+}
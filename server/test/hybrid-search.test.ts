@@ -0,0 +1,38 @@
+// Reciprocal rank fusion of the vector and full-text rankings
+import { describe, it } from "node:test"
+import assert from "node:assert/strict"
+import { reciprocalRankFusion } from "../hybrid-search"
+
+const sofa = { sku: "SOFA-001", title: "Sofa" }
+const chair = { sku: "CHAIR-003", title: "Chair" }
+const desk = { sku: "DESK-004", title: "Desk" }
+
+describe("reciprocalRankFusion", () => {
+  it("ranks documents found by both lists above documents found by one", () => {
+    const fused = reciprocalRankFusion([
+      { name: "vector", weight: 1, results: [sofa, chair] },
+      { name: "text", weight: 1, results: [desk, chair] },
+    ])
+    assert.deepEqual(fused.map((doc) => doc.sku), ["CHAIR-003", "SOFA-001", "DESK-004"])
+    assert.deepEqual(fused[0].matchedBy, ["vector", "text"])
+    assert.deepEqual(fused[1].matchedBy, ["vector"])
+  })
+
+  it("scores each list as weight / (k + rank), with 1-based ranks", () => {
+    const [first, second] = reciprocalRankFusion([{ name: "vector", weight: 2, results: [sofa, chair] }], 10)
+    assert.equal(first.score, 2 / 11)
+    assert.equal(second.score, 2 / 12)
+  })
+
+  it("lets a heavier list win ties in rank", () => {
+    const fused = reciprocalRankFusion([
+      { name: "vector", weight: 1, results: [sofa] },
+      { name: "text", weight: 3, results: [desk] },
+    ])
+    assert.deepEqual(fused.map((doc) => doc.sku), ["DESK-004", "SOFA-001"])
+  })
+
+  it("returns nothing for empty rankings", () => {
+    assert.deepEqual(reciprocalRankFusion([{ name: "vector", weight: 1, results: [] }]), [])
+  })
+})
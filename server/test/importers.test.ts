@@ -0,0 +1,163 @@
+// The feed importers against the sample exports in fixtures/importers
+import { describe, it } from "node:test"
+import assert from "node:assert/strict"
+import path from "path"
+import {
+  MappedCsvSource,
+  MerchantFeedSource,
+  ShopifyProductsSource,
+  createProductSource,
+  decodeEntities,
+  parseMerchantPrice,
+  stripHtml,
+} from "../importers"
+import { CsvProductSource, JsonProductSource, SqliteProductSource, loadProducts } from "../ingestion"
+
+const FIXTURES = path.join(__dirname, "..", "fixtures", "importers")
+const fixture = (name: string) => path.join(FIXTURES, name)
+
+describe("shared helpers", () => {
+  it("decodes named and numeric character references", () => {
+    assert.equal(decodeEntities("Oak &amp; steel &#8212; &#x2713; &unknown;"), "Oak & steel — ✓ &unknown;")
+  })
+
+  it("turns HTML into single-spaced plain text", () => {
+    assert.equal(stripHtml("<p>Deep <b>seat</b></p><ul><li>One</li><li>Two</li></ul>"), "Deep seat One Two")
+  })
+
+  it("splits a Merchant price into amount and currency", () => {
+    assert.deepEqual(parseMerchantPrice("699.00 USD"), { amount: 699, currency: "USD" })
+    assert.deepEqual(parseMerchantPrice(undefined), {})
+  })
+})
+
+describe("Shopify products.json", () => {
+  const source = new ShopifyProductsSource(fixture("shopify-products.json"), {
+    storeUrl: "https://easymart.example.com/",
+    currency: "USD",
+  })
+
+  it("maps a multi-variant product by handle, with options, variants, images and inventory", async () => {
+    const [linden] = await source.read()
+    assert.equal(linden.sku, "linden-lounge-chair")
+    assert.equal(linden.description, "A low, deep-seated lounge chair with a solid ash frame. Removable covers Ships flat-packed")
+    assert.equal(linden.price, 549) // Lowest variant price
+    assert.equal(linden.product_url, "https://easymart.example.com/products/linden-lounge-chair")
+    assert.deepEqual(linden.images, [
+      "https://cdn.example.com/linden-oat.jpg",
+      "https://cdn.example.com/linden-charcoal.jpg",
+      "https://cdn.example.com/linden-detail.jpg",
+    ])
+    assert.deepEqual(linden.options, [
+      { name: "Color", values: ["Oat", "Charcoal"] },
+      { name: "Frame", values: ["Ash", "Walnut"] },
+    ])
+    assert.deepEqual(linden.variants![0], {
+      sku: "LINDEN-OAT-ASH",
+      title: "Oat / Ash",
+      price: 549,
+      compare_at_price: 629,
+      options: { Color: "Oat", Frame: "Ash" },
+      inventory_quantity: 4,
+      image_url: "https://cdn.example.com/linden-oat.jpg",
+      barcode: "0840001000011",
+    })
+    assert.equal(linden.variants![1].compare_at_price, undefined)
+    assert.equal(linden.inventory_quantity, 11)
+  })
+
+  it("identifies a single-variant product by its sku and drops Shopify's Default Title option", async () => {
+    const [, pebble] = await source.read()
+    assert.equal(pebble.sku, "PEBBLE-001")
+    assert.equal(pebble.description, "Round side table in powder-coated steel & oak.")
+    assert.deepEqual(pebble.options, [])
+    assert.deepEqual(pebble.variants![0].options, {})
+    assert.equal(pebble.image_url, "https://cdn.example.com/pebble.jpg")
+  })
+})
+
+describe("Google Merchant feeds", () => {
+  it("groups XML items by item_group_id into one product with variants", async () => {
+    const [desk, rug] = await new MerchantFeedSource(fixture("merchant-feed.xml")).read()
+    assert.equal(desk.sku, "ARC-DESK")
+    assert.equal(desk.price, 599)
+    assert.equal(desk.currency, "USD")
+    assert.equal(desk.description, "Electric sit-stand desk with memory presets & cable tray.")
+    assert.deepEqual(desk.tags, ["Furniture", "Office", "Desks"])
+    assert.deepEqual(
+      desk.variants!.map((v) => [v.sku, v.price, v.compare_at_price, v.available]),
+      [["ARC-DESK-OAK", 599, 699, true], ["ARC-DESK-WHT", 699, undefined, false]]
+    )
+    assert.deepEqual(desk.options, [{ name: "Color", values: ["Oak", "White"] }, { name: "Size", values: ["140 cm"] }])
+    assert.equal(rug.sku, "MOSS-RUG-200")
+    assert.equal(rug.variants!.length, 1)
+  })
+
+  it("reads the same products from a TSV feed, with quantities", async () => {
+    const [desk, rug] = await new MerchantFeedSource(fixture("merchant-feed.tsv")).read()
+    assert.equal(desk.sku, "ARC-DESK")
+    assert.deepEqual(desk.variants!.map((v) => v.inventory_quantity), [12, 0])
+    assert.equal(desk.inventory_quantity, 12)
+    assert.equal(rug.inventory_quantity, 3)
+  })
+})
+
+describe("mapped CSV", () => {
+  it("groups a Shopify CSV export's rows by handle into variants", async () => {
+    const source = MappedCsvSource.load(fixture("shopify-export.csv"), fixture("shopify-export.mapping.json"))
+    const [fjord, halo] = await source.read()
+    assert.equal(fjord.sku, "fjord-bookcase")
+    assert.equal(fjord.vendor, "Timber & Co")
+    assert.equal(fjord.price, 379)
+    assert.deepEqual(fjord.tags, ["Storage", "Living Room", "Office"])
+    assert.deepEqual(
+      fjord.variants!.map((v) => [v.sku, v.price, v.compare_at_price, v.inventory_quantity]),
+      [["FJORD-OAK", 399, 449, 6], ["FJORD-BLK", 379, undefined, 0]]
+    )
+    assert.equal(fjord.images!.length, 3)
+    assert.equal(halo.sku, "HALO-001")
+    assert.deepEqual(halo.variants![0].options, {})
+  })
+
+  it("requires the sku, title and price columns to be mapped", () => {
+    assert.throws(
+      () => MappedCsvSource.load(fixture("shopify-export.csv"), fixture("shopify-products.json")),
+      /must map the "sku" column/
+    )
+  })
+})
+
+describe("createProductSource", () => {
+  it("picks the source from the file", () => {
+    assert.ok(createProductSource("catalog.db") instanceof SqliteProductSource)
+    assert.ok(createProductSource(fixture("merchant-feed.xml")) instanceof MerchantFeedSource)
+    assert.ok(createProductSource(fixture("merchant-feed.tsv")) instanceof MerchantFeedSource)
+    assert.ok(createProductSource(fixture("shopify-export.csv")) instanceof CsvProductSource)
+    assert.ok(
+      createProductSource(fixture("shopify-export.csv"), { mappingPath: fixture("shopify-export.mapping.json") }) instanceof
+        MappedCsvSource
+    )
+    assert.ok(createProductSource(fixture("shopify-products.json")) instanceof ShopifyProductsSource)
+    assert.ok(createProductSource(path.join(__dirname, "..", "fixtures", "orders.json")) instanceof JsonProductSource)
+    assert.throws(() => createProductSource("catalog.xlsx"), /Unsupported product source/)
+  })
+
+  it("yields valid items documents for every fixture feed", async () => {
+    const sources = [
+      new ShopifyProductsSource(fixture("shopify-products.json"), { currency: "USD" }),
+      new MerchantFeedSource(fixture("merchant-feed.xml")),
+      new MerchantFeedSource(fixture("merchant-feed.tsv")),
+      MappedCsvSource.load(fixture("shopify-export.csv"), fixture("shopify-export.mapping.json")),
+    ]
+    for (const source of sources) {
+      const { products, skipped } = await loadProducts(source)
+      assert.deepEqual(skipped, [], source.description)
+      assert.equal(products.length, 2, source.description)
+      for (const product of products) {
+        assert.ok(product.variants.length > 0)
+        assert.equal(product.in_stock, true)
+        assert.match(product.content_hash, /^[0-9a-f]{64}$/)
+      }
+    }
+  })
+})
@@ -0,0 +1,145 @@
+// The pure catalog transforms: raw source rows to `items` documents, CSV parsing and the sync's upserts
+import { describe, it } from "node:test"
+import assert from "node:assert/strict"
+import {
+  RawProduct,
+  contentHash,
+  loadProducts,
+  parseCsv,
+  parseTags,
+  sortBySku,
+  transformProduct,
+  upsertOperation,
+  validateRawProduct,
+} from "../ingestion"
+
+const lamp: RawProduct = {
+  sku: " LAMP-1 ",
+  handle: "arc-lamp",
+  title: "Arc Floor Lamp",
+  description: "Brass arc lamp",
+  vendor: "Lumen",
+  price: "149.50",
+  currency: "USD",
+  tags: '["Lighting","Living Room"]',
+}
+
+describe("parseTags", () => {
+  it("reads JSON arrays, single JSON values and comma-separated lists", () => {
+    assert.deepEqual(parseTags('["a","b"]'), ["a", "b"])
+    assert.deepEqual(parseTags("42"), ["42"])
+    assert.deepEqual(parseTags("oak, walnut ,,teak"), ["oak", "walnut", "teak"])
+    assert.deepEqual(parseTags(["x", "y"]), ["x", "y"])
+    assert.deepEqual(parseTags(undefined), [])
+  })
+})
+
+describe("validateRawProduct", () => {
+  it("accepts a complete product", () => {
+    assert.equal(validateRawProduct(lamp), null)
+  })
+
+  it("reports a missing sku or title and an invalid price", () => {
+    assert.equal(validateRawProduct({ ...lamp, sku: "  " }), "missing sku")
+    assert.equal(validateRawProduct({ ...lamp, title: "" }), "missing title")
+    assert.equal(validateRawProduct({ ...lamp, price: "abc" }), "invalid price")
+    assert.equal(validateRawProduct({ ...lamp, price: "" }), "invalid price")
+  })
+})
+
+describe("transformProduct", () => {
+  it("normalizes the sku, price and tags and hashes the embedding text", () => {
+    const product = transformProduct(lamp)
+    assert.equal(product.sku, "LAMP-1")
+    assert.equal(product.price, 149.5)
+    assert.deepEqual(product.tags, ["Lighting", "Living Room"])
+    assert.match(product.embedding_text, /^Arc Floor Lamp Brass arc lamp from Lumen\. Price: 149\.50 USD\. Tags: Lighting, Living Room\./)
+    assert.equal(product.content_hash, contentHash(product.embedding_text))
+  })
+
+  it("gives a product without variants a default variant and leaves stock unknown", () => {
+    const product = transformProduct(lamp)
+    assert.deepEqual(product.variants, [{ sku: "LAMP-1", title: "Default", price: 149.5, options: {} }])
+    assert.equal("in_stock" in product, false)
+    assert.equal("images" in product, false)
+  })
+
+  it("derives stock from the variants and describes them in the embedding text", () => {
+    const product = transformProduct({
+      ...lamp,
+      variants: [
+        { sku: "LAMP-1-BRS", title: "Brass", price: 149.5, options: { Finish: "Brass" }, inventory_quantity: 0 },
+        { sku: "LAMP-1-BLK", title: "Black", price: 139, options: { Finish: "Black" }, inventory_quantity: 3 },
+      ],
+    })
+    assert.equal(product.in_stock, true)
+    assert.match(product.embedding_text, /Brass/)
+    assert.match(product.embedding_text, /Black/)
+  })
+
+  it("changes the content hash only when the embedding text changes", () => {
+    assert.equal(transformProduct(lamp).content_hash, transformProduct({ ...lamp }).content_hash)
+    assert.notEqual(transformProduct(lamp).content_hash, transformProduct({ ...lamp, price: 99 }).content_hash)
+  })
+})
+
+describe("parseCsv", () => {
+  it("handles quoted commas, newlines and escaped quotes, and strips a byte order mark", () => {
+    const records = parseCsv('\uFEFFsku,title,description\r\nA-1,"Sofa, grey","Line one\nline ""two"""\r\nB-2,Chair,\r\n')
+    assert.deepEqual(records, [
+      { sku: "A-1", title: "Sofa, grey", description: 'Line one\nline "two"' },
+      { sku: "B-2", title: "Chair", description: "" },
+    ])
+  })
+
+  it("returns no records for an empty file", () => {
+    assert.deepEqual(parseCsv(""), [])
+  })
+})
+
+describe("loadProducts", () => {
+  it("transforms valid rows and reports skipped ones by row number", async () => {
+    const source = { description: "inline", read: async () => [lamp, { ...lamp, sku: "" }, { ...lamp, sku: "LAMP-2" }] }
+    const { products, skipped } = await loadProducts(source)
+    assert.deepEqual(products.map((p) => p.sku), ["LAMP-1", "LAMP-2"])
+    assert.deepEqual(skipped, [{ row: 2, reason: "missing sku" }])
+  })
+})
+
+describe("sortBySku", () => {
+  it("sorts by sku without changing the input", () => {
+    const input = [{ sku: "b" }, { sku: "a" }, { sku: "c" }]
+    assert.deepEqual(sortBySku(input).map((p) => p.sku), ["a", "b", "c"])
+    assert.deepEqual(input.map((p) => p.sku), ["b", "a", "c"])
+  })
+})
+
+describe("upsertOperation", () => {
+  const syncedAt = new Date("2024-01-01T00:00:00Z")
+
+  it("upserts by sku and revives soft-deleted products", () => {
+    const { updateOne } = upsertOperation(transformProduct(lamp), syncedAt) as any
+    assert.deepEqual(updateOne.filter, { sku: "LAMP-1" })
+    assert.equal(updateOne.upsert, true)
+    assert.equal(updateOne.update.$set.synced_at, syncedAt)
+    assert.deepEqual(updateOne.update.$unset, { deleted: "", deleted_at: "" })
+  })
+
+  it("keeps the stored embedding when the product brings none", () => {
+    const { updateOne } = upsertOperation(transformProduct(lamp), syncedAt) as any
+    assert.equal("embedding" in updateOne.update.$set, false)
+    assert.equal("embedding_hash" in updateOne.update.$set, false)
+  })
+
+  it("writes the version's vector with the content hash it was built from", () => {
+    const product = { ...transformProduct(lamp), embedding: [0.1, 0.2] }
+    const v1 = (upsertOperation(product, syncedAt) as any).updateOne.update.$set
+    assert.deepEqual(v1.embedding, [0.1, 0.2])
+    assert.equal(v1.embedding_hash, product.content_hash)
+
+    const v2 = (upsertOperation(product, syncedAt, { field: "embedding_v2" }) as any).updateOne.update.$set
+    assert.deepEqual(v2.embedding_v2, [0.1, 0.2])
+    assert.equal(v2.embedding_v2_hash, product.content_hash)
+    assert.equal("embedding" in v2, false)
+  })
+})
@@ -0,0 +1,64 @@
+// Order lookups: an order is only described to a caller who can verify it with its email or postal code
+import { before, describe, it } from "node:test"
+import assert from "node:assert/strict"
+import path from "path"
+import { InMemoryOrderStore, OrderError, OrderService } from "../orders"
+import { createOrderTools } from "../order-tools"
+import { fixtureCatalog } from "./helpers"
+
+const ORDERS_PATH = path.join(__dirname, "..", "fixtures", "orders.json")
+
+describe("OrderService.lookup", () => {
+  let orders: OrderService
+
+  before(async () => {
+    orders = new OrderService(InMemoryOrderStore.load(ORDERS_PATH), await fixtureCatalog())
+  })
+
+  it("describes an order verified by its email, joined with the catalog", async () => {
+    const order = await orders.lookup("#fs-10001", { email: " Jordan.Lee@example.com " })
+    assert.equal(order.order_number, "FS-10001")
+    assert.equal(order.status, "delivered")
+    assert.deepEqual(order.line_items.map((line) => line.sku), ["SOFA-001", "SHELF-006"])
+    assert.equal(order.line_items[0].title, "Harbor Three-Seat Sofa")
+    // Only the city, state and country of the shipping address are shown, and never the email
+    assert.equal("email" in order, false)
+    assert.equal("shipping_address" in order, false)
+  })
+
+  it("accepts the shipping postal code regardless of spaces and case", async () => {
+    const order = await orders.lookup("FS-10003", { postalCode: "m5v2t6" })
+    assert.equal(order.order_number, "FS-10003")
+  })
+
+  it("gives a wrong email the same error as an unknown order number", async () => {
+    const wrongEmail = await orders.lookup("FS-10001", { email: "sam.rivera@example.com" }).catch((error) => error)
+    const unknown = await orders.lookup("FS-99999", { email: "sam.rivera@example.com" }).catch((error) => error)
+    for (const error of [wrongEmail, unknown]) {
+      assert.ok(error instanceof OrderError)
+      assert.equal(error.status, 404)
+    }
+    assert.equal(wrongEmail.message.replace("FS-10001", ""), unknown.message.replace("FS-99999", ""))
+  })
+
+  it("requires both details to match when both are given", async () => {
+    await assert.rejects(
+      orders.lookup("FS-10001", { email: "jordan.lee@example.com", postalCode: "78701" }),
+      (error: any) => error instanceof OrderError && error.status === 404
+    )
+  })
+
+  it("refuses a lookup without an email or postal code", async () => {
+    await assert.rejects(orders.lookup("FS-10001", {}), (error: any) => error instanceof OrderError && error.status === 400)
+  })
+})
+
+describe("order_lookup tool", () => {
+  it("returns only an error for an unverified order", async () => {
+    const orders = new OrderService(InMemoryOrderStore.load(ORDERS_PATH), await fixtureCatalog())
+    const [orderLookup] = createOrderTools(orders)
+    const result = JSON.parse(await orderLookup.invoke({ orderNumber: "FS-10002", email: "jordan.lee@example.com" }))
+    assert.deepEqual(Object.keys(result).sort(), ["error", "orderNumber"])
+    assert.doesNotMatch(JSON.stringify(result), /DESK-004|Austin|shipped/)
+  })
+})
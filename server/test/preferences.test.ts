@@ -0,0 +1,111 @@
+// Shopper preferences: merging what the shopper says into the profile, and item_lookup's defaults from it
+import { describe, it } from "node:test"
+import assert from "node:assert/strict"
+import { AIMessage, ToolMessage } from "@langchain/core/messages"
+import { callAgent, createAgent } from "../agent"
+import { ScriptedChatModel } from "../fakes"
+import { createOfflineAgentDependencies } from "../offline"
+import { InMemoryPreferenceStore, PreferenceService, describePreferences, preferenceFilters } from "../preferences"
+import { fixtureCatalog } from "./helpers"
+
+describe("PreferenceService", () => {
+  it("replaces single values and adds to lists, without case-insensitive duplicates", async () => {
+    const preferences = new PreferenceService(new InMemoryPreferenceStore())
+    await preferences.record("s1", { max_price: 800, styles: ["Scandinavian", "industrial"] })
+    const profile = await preferences.record("s1", { max_price: 1200, styles: ["scandinavian", "boho"] })
+
+    assert.equal(profile.max_price, 1200)
+    assert.deepEqual(profile.styles, ["industrial", "scandinavian", "boho"]) // A repeated value moves to the end
+    assert.deepEqual(await preferences.get("s1"), profile)
+    assert.equal(await preferences.get("s2"), null) // Profiles are per session
+  })
+
+  it("keeps the newest values of a long list", async () => {
+    const preferences = new PreferenceService(new InMemoryPreferenceStore())
+    const notes = Array.from({ length: 12 }, (_, i) => `note ${i + 1}`)
+    const profile = await preferences.record("s1", { notes })
+    assert.deepEqual(profile.notes, notes.slice(2))
+  })
+
+  it("clears forgotten topics before applying the update", async () => {
+    const preferences = new PreferenceService(new InMemoryPreferenceStore())
+    await preferences.record("s1", { min_price: 200, max_price: 800, materials: ["oak", "velvet"] })
+    const profile = await preferences.record("s1", { materials: ["walnut"] }, ["budget", "materials"])
+
+    assert.equal(profile.min_price, undefined)
+    assert.equal(profile.max_price, undefined)
+    assert.deepEqual(profile.materials, ["walnut"])
+  })
+
+  it("erases a profile", async () => {
+    const preferences = new PreferenceService(new InMemoryPreferenceStore())
+    await preferences.record("s1", { space: "small apartment" })
+    assert.equal(await preferences.erase("s1"), true)
+    assert.equal(await preferences.get("s1"), null)
+  })
+})
+
+describe("preferenceFilters", () => {
+  it("turns the budget and in-stock preference into filters, and nothing else", () => {
+    const filters = preferenceFilters({
+      session_id: "s1",
+      min_price: 100,
+      max_price: 500,
+      currency: "USD",
+      in_stock_only: true,
+      styles: ["mid-century"],
+      updated_at: new Date(),
+    })
+    assert.deepEqual(filters, { minPrice: 100, maxPrice: 500, inStock: true })
+    assert.deepEqual(preferenceFilters(null), {})
+  })
+})
+
+describe("describePreferences", () => {
+  it("describes the budget and lists one preference per line", () => {
+    const description = describePreferences({
+      session_id: "s1",
+      max_price: 500,
+      currency: "USD",
+      colors: ["green", "cream"],
+      updated_at: new Date(),
+    })
+    assert.equal(description, "- Budget: up to 500 USD\n- Colours: green, cream")
+    assert.equal(describePreferences(null), "")
+  })
+})
+
+describe("item_lookup with remembered preferences", () => {
+  // Run one item_lookup call for the session and return the tool's parsed result
+  async function lookUp(args: Record<string, unknown>, preferences: PreferenceService, threadId: string) {
+    const model = new ScriptedChatModel({
+      script: [
+        new AIMessage({ content: "", tool_calls: [{ name: "item_lookup", args, id: "call-1", type: "tool_call" }] }),
+        new AIMessage("Here is what I found."),
+      ],
+    })
+    const agent = createAgent({ ...createOfflineAgentDependencies(await fixtureCatalog()), model, preferences })
+    await callAgent(agent, "Show me sofas", threadId, "s1")
+    const state = await agent.getState({ configurable: { thread_id: threadId } })
+    const toolMessage = state.values.messages.find((message: any) => message instanceof ToolMessage)
+    return JSON.parse(String(toolMessage.content))
+  }
+
+  it("applies the remembered budget and in-stock preference, with stated filters taking precedence", async () => {
+    const preferences = new PreferenceService(new InMemoryPreferenceStore())
+    await preferences.record("s1", { max_price: 500, in_stock_only: true })
+
+    const result = await lookUp({ query: "sofa", minPrice: 100, maxPrice: 2000 }, preferences, "thread-1")
+    assert.deepEqual(result.filters, { maxPrice: 2000, inStock: true, minPrice: 100 })
+    assert.deepEqual(result.preferenceFilters, { maxPrice: 500, inStock: true })
+  })
+
+  it("leaves the preferences out when the model opts out", async () => {
+    const preferences = new PreferenceService(new InMemoryPreferenceStore())
+    await preferences.record("s1", { max_price: 500 })
+
+    const result = await lookUp({ query: "sofa", ignorePreferences: true }, preferences, "thread-2")
+    assert.deepEqual(result.filters, {})
+    assert.equal(result.preferenceFilters, undefined)
+  })
+})
@@ -0,0 +1,66 @@
+// The per-IP/per-session rate limiter behind a minimal app with the API's error handler
+import { after, before, describe, it } from "node:test"
+import assert from "node:assert/strict"
+import express, { Request, Response } from "express"
+import { AddressInfo } from "net"
+import { Server } from "http"
+import { errorHandler } from "../errors"
+import { InMemoryRateLimitStore, RateLimitOptions, rateLimit } from "../rate-limit"
+
+describe("rateLimit", () => {
+  let server: Server
+  let baseUrl: string
+
+  // Stand-in for requireSession: the session id comes from a header
+  async function start(options: RateLimitOptions) {
+    const app = express()
+    app.use((req: Request, res: Response, next) => {
+      res.locals.sessionId = req.header("x-session")
+      next()
+    })
+    app.get("/", rateLimit(new InMemoryRateLimitStore(), options), (req: Request, res: Response) => {
+      res.json({ ok: true })
+    })
+    app.use(errorHandler)
+    server = app.listen(0)
+    await new Promise((resolve) => server.once("listening", resolve))
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  }
+
+  const get = (session?: string) => fetch(baseUrl, { headers: session ? { "x-session": session } : {} })
+
+  describe("per session", () => {
+    before(() => start({ windowMs: 60000, maxPerIp: 0, maxPerSession: 2 }))
+    after(() => new Promise((resolve) => server.close(resolve)))
+
+    it("answers 429 with Retry-After once a session is over its limit", async () => {
+      assert.equal((await get("a")).status, 200)
+      assert.equal((await get("a")).status, 200)
+
+      const limited = await get("a")
+      assert.equal(limited.status, 429)
+      const retryAfter = Number(limited.headers.get("retry-after"))
+      assert.ok(retryAfter >= 1 && retryAfter <= 60)
+      const { error } = await limited.json()
+      assert.equal(error.code, "RATE_LIMITED")
+      assert.equal(error.retryAfter, retryAfter)
+    })
+
+    it("counts each session separately, from the same IP", async () => {
+      assert.equal((await get("b")).status, 200)
+      assert.equal((await get("b")).status, 200)
+    })
+  })
+
+  describe("per IP", () => {
+    before(() => start({ windowMs: 60000, maxPerIp: 3, maxPerSession: 0 }))
+    after(() => new Promise((resolve) => server.close(resolve)))
+
+    it("limits an IP across all of its sessions", async () => {
+      assert.equal((await get("a")).status, 200)
+      assert.equal((await get("b")).status, 200)
+      assert.equal((await get()).status, 200)
+      assert.equal((await get("c")).status, 429)
+    })
+  })
+})
@@ -0,0 +1,103 @@
+// Product reviews: one review per product and session (also when two submits race past the check in Mongo),
+// newest-first listing and the public shape of a review
+import { describe, it } from "node:test"
+import assert from "node:assert/strict"
+import { Collection } from "mongodb"
+import { DeterministicEmbeddings } from "../fakes"
+import { InMemoryReviewStore, MongoReviewStore, ProductReview, ReviewError, ReviewService, ratingStats } from "../reviews"
+import { fakeDb } from "./fake-mongo"
+import { fixtureCatalog } from "./helpers"
+
+const review: ProductReview = {
+  review_id: "r1",
+  product_id: "SOFA-001",
+  rating: 5,
+  comment: "Comfortable",
+  review_date: "2024-01-01",
+  source: "shopper",
+  session_id: "s1",
+  created_at: new Date("2024-01-01T00:00:00Z"),
+}
+
+// A MongoReviewStore whose bulkWrite fails with `error`
+function failingStore(error: Error): MongoReviewStore {
+  const collection: Partial<Collection<ProductReview>> = { bulkWrite: () => Promise.reject(error) }
+  return new MongoReviewStore(collection as Collection<ProductReview>)
+}
+
+async function reviewService(store = new InMemoryReviewStore()): Promise<ReviewService> {
+  return new ReviewService(store, await fixtureCatalog(), new DeterministicEmbeddings())
+}
+
+describe("MongoReviewStore", () => {
+  it("creates a unique index over product and session, for shopper reviews only", async () => {
+    const { db, collections } = fakeDb()
+    await new MongoReviewStore(db.collection<ProductReview>("product_reviews")).ensureIndexes()
+    const perSession = collections.get("product_reviews").indexes.find((index) => index.options.name === "one_review_per_session")
+    assert.deepEqual(perSession, {
+      keys: { product_id: 1, session_id: 1 },
+      options: { name: "one_review_per_session", unique: true, partialFilterExpression: { session_id: { $exists: true } } },
+    })
+  })
+
+  it("reports a duplicate-key error as a 409 ReviewError", async () => {
+    const duplicate = Object.assign(new Error("E11000 duplicate key error"), { code: 11000 })
+    await assert.rejects(failingStore(duplicate).save([review]), (error: any) => error instanceof ReviewError && error.status === 409)
+  })
+
+  it("passes other errors through", async () => {
+    await assert.rejects(failingStore(new Error("network")).save([review]), /network/)
+  })
+})
+
+describe("InMemoryReviewStore.list", () => {
+  it("lists newest first, by review date and then by when reviews from the same day were stored", async () => {
+    const store = new InMemoryReviewStore([
+      { ...review, review_id: "morning", review_date: "2024-03-01", created_at: new Date("2024-03-01T09:00:00Z") },
+      { ...review, review_id: "older", review_date: "2024-02-01", created_at: new Date("2024-02-01T12:00:00Z") },
+      { ...review, review_id: "evening", review_date: "2024-03-01", created_at: new Date("2024-03-01T18:00:00Z") },
+    ])
+    const { reviews, total } = await store.list("SOFA-001", 10, 0)
+    assert.deepEqual(reviews.map((r) => r.review_id), ["evening", "morning", "older"])
+    assert.equal(total, 3)
+    assert.deepEqual((await store.list("SOFA-001", 1, 1)).reviews.map((r) => r.review_id), ["morning"])
+  })
+})
+
+describe("ReviewService", () => {
+  it("accepts one review per product and session, under the product's canonical id", async () => {
+    const reviews = await reviewService()
+    const submitted = await reviews.submit("SOFA-001-GRY", { rating: 4, comment: "Soft linen" }, "s1")
+    assert.equal(submitted.product_id, "SOFA-001")
+    assert.equal("session_id" in submitted, false) // Never shown publicly
+    assert.equal("embedding" in submitted, false)
+
+    await assert.rejects(
+      reviews.submit("SOFA-001", { rating: 1, comment: "Changed my mind" }, "s1"),
+      (error: any) => error instanceof ReviewError && error.status === 409
+    )
+    await reviews.submit("SOFA-001", { rating: 2, comment: "Too firm" }, "s2") // Another session can
+  })
+
+  it("lists a product's reviews with their statistics, and 404s for unknown products", async () => {
+    const reviews = await reviewService()
+    await reviews.submit("DESK-004", { rating: 5, comment: "Sturdy" }, "s1")
+    await reviews.submit("DESK-004", { rating: 3, comment: "Wobbles at full height" }, "s2")
+
+    const page = await reviews.list("DESK-004", 10, 0)
+    assert.equal(page.total, 2)
+    assert.equal(page.stats.average, 4)
+    await assert.rejects(reviews.list("NOPE-1", 10, 0), (error: any) => error instanceof ReviewError && error.status === 404)
+  })
+})
+
+describe("ratingStats", () => {
+  it("ignores ratings outside one to five stars", () => {
+    assert.deepEqual(ratingStats([{ rating: 5 }, { rating: 2 }, { rating: 0 }, { rating: 9 }]), {
+      average: 3.5,
+      count: 2,
+      distribution: { "1": 0, "2": 1, "3": 0, "4": 0, "5": 1 },
+    })
+    assert.equal(ratingStats([]), null)
+  })
+})
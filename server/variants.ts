@@ -0,0 +1,93 @@
+// Product variants and inventory: the variant model shared by ingestion, seeding, item_lookup results and the
+// variants migration, plus helpers that work for both product shapes (seeded `Item`s and migrated `MongoProduct`s)
+
+// One purchasable variant of a product (e.g. a size/colour combination)
+export interface ProductVariant {
+  sku: string
+  title: string                    // e.g. "Oak / Large"
+  price: number                    // Price the customer pays
+  compare_at_price?: number        // Regular price when the variant is on sale
+  options: Record<string, string>  // Option name to value, e.g. { Color: "Oak" }
+  inventory_quantity?: number      // Absent when the source doesn't track inventory
+  available?: boolean
+  image_url?: string
+  barcode?: string
+}
+
+// A product option and its values in display order, e.g. { name: "Size", values: ["S", "M"] }
+export interface ProductOption {
+  name: string
+  values: string[]
+}
+
+// Whether a variant can be bought: from its inventory count, else its availability flag (untracked counts as available)
+export function isVariantInStock(variant: ProductVariant): boolean {
+  if (variant.inventory_quantity !== undefined) return variant.inventory_quantity > 0
+  return variant.available !== false
+}
+
+// Whether any variant reports inventory or availability, i.e. whether stock is known at all
+export function tracksStock(variants: ProductVariant[]): boolean {
+  return variants.some((v) => v.inventory_quantity !== undefined || v.available !== undefined)
+}
+
+// Sum of the variants' inventory, or undefined when none of them tracks inventory
+export function totalInventory(variants: ProductVariant[]): number | undefined {
+  const tracked = variants.filter((v) => v.inventory_quantity !== undefined)
+  return tracked.length > 0 ? tracked.reduce((sum, v) => sum + (v.inventory_quantity ?? 0), 0) : undefined
+}
+
+// The single variant of a product stored before variants existed: its own sku and price.
+// Seeded items sell at their sale price, with the full price as the compare-at price.
+export function defaultVariant(product: Record<string, any>): ProductVariant {
+  const isSeededItem = product.prices !== undefined
+  const price = Number(isSeededItem ? product.prices.sale_price ?? product.prices.full_price : product.price)
+  const compareAt = isSeededItem ? Number(product.prices.full_price) : Number(product.compare_at_price)
+  return {
+    sku: String(product.sku ?? product.item_id ?? product._id),
+    title: "Default",
+    price,
+    ...(compareAt > price ? { compare_at_price: compareAt } : {}),
+    options: {},
+    ...(product.inventory_quantity !== undefined ? { inventory_quantity: product.inventory_quantity } : {}),
+  }
+}
+
+// A product's variants: the stored ones, or its default variant for documents written before variants existed
+export function productVariants(product: Record<string, any>): ProductVariant[] {
+  return product.variants?.length ? product.variants : [defaultVariant(product)]
+}
+
+// The variant fields every product document carries: its variants, plus the stock totals when the variants track stock
+export function variantFields(product: Record<string, any>) {
+  const variants = productVariants(product)
+  return {
+    variants,
+    ...(tracksStock(variants) ? { in_stock: variants.some(isVariantInStock), inventory_quantity: totalInventory(variants) } : {}),
+  }
+}
+
+// "Grey / Large" from the option values, falling back to the variant title
+export function variantLabel(variant: ProductVariant): string {
+  const values = Object.values(variant.options ?? {})
+  return values.length > 0 ? values.join(" / ") : variant.title
+}
+
+function stockStatus(variant: ProductVariant): string {
+  if (!isVariantInStock(variant)) return "out of stock"
+  return variant.inventory_quantity !== undefined ? `${variant.inventory_quantity} in stock` : "in stock"
+}
+
+// One sentence listing the variants with their price and stock, for embedding text and summaries.
+// Empty for a lone variant without options or stock information, so such products keep their old text.
+export function describeVariants(variants: ProductVariant[], currency = ""): string {
+  const stock = tracksStock(variants)
+  const hasChoices = variants.length > 1 || variants.some((v) => Object.keys(v.options ?? {}).length > 0)
+  if (!hasChoices) return stock ? `Stock: ${stockStatus(variants[0])}` : ""
+
+  const described = variants.map((variant) => {
+    const price = `${variant.price}${currency ? ` ${currency}` : ""}`
+    return stock ? `${variantLabel(variant)} ${price} (${stockStatus(variant)})` : `${variantLabel(variant)} ${price}`
+  })
+  return `Available in: ${described.join("; ")}`
+}